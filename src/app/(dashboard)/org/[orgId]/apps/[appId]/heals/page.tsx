@@ -0,0 +1,74 @@
+import { redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { Card, CardContent } from "@/components/ui/card"
+import { HealReviewList } from "@/components/heal/heal-review-list"
+import { Wrench } from "lucide-react"
+
+export default async function HealsPage({
+  params,
+}: {
+  params: Promise<{ orgId: string; appId: string }>
+}) {
+  const { orgId, appId } = await params
+  const supabase = await createClient()
+
+  // Verify access
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) redirect("/login")
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", orgId)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership) redirect("/")
+
+  // Get app
+  const { data: app } = await supabase
+    .from("apps")
+    .select("name")
+    .eq("id", appId)
+    .eq("organization_id", orgId)
+    .single()
+
+  if (!app) redirect(`/org/${orgId}`)
+
+  // Get heal proposals for stories in this app
+  const { data: heals } = await supabase
+    .from("heal_history")
+    .select(`
+      *,
+      story:stories!inner(title, journey_id, journey:journeys!inner(title, app_id)),
+      result:test_results(test_run_id, error)
+    `)
+    .eq("story.journey.app_id", appId)
+    .order("created_at", { ascending: false })
+    .limit(100)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Heal Proposals</h1>
+        <p className="text-muted-foreground">
+          Review AI-suggested fixes for failing stories in {app.name}
+        </p>
+      </div>
+
+      {heals && heals.length > 0 ? (
+        <HealReviewList heals={heals} orgId={orgId} appId={appId} />
+      ) : (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Wrench className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No heal proposals yet</h3>
+            <p className="text-muted-foreground text-center">
+              Proposals appear here when a failing story can be fixed automatically
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { StoryList } from "@/components/journey/story-list"
+import { SerialToggle } from "@/components/journey/serial-toggle"
 import { Plus, Play, Settings, ArrowLeft } from "lucide-react"
 
 export default async function JourneyPage({
@@ -62,7 +63,8 @@ export default async function JourneyPage({
             {journey.description || "No description"}
           </p>
         </div>
-        <div className="flex gap-2">
+        <div className="flex items-center gap-2">
+          <SerialToggle journeyId={journeyId} isSerial={journey.is_serial ?? false} />
           <Link href={`/org/${orgId}/apps/${appId}/journeys/${journeyId}/stories/new`}>
             <Button>
               <Plus className="h-4 w-4 mr-2" />
@@ -131,6 +133,7 @@ export default async function JourneyPage({
             journeyId={journeyId}
             orgId={orgId}
             appId={appId}
+            canApproveCode={["owner", "admin"].includes(membership.role)}
           />
         </CardContent>
       </Card>
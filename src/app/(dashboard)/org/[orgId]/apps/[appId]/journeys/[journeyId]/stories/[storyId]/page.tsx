@@ -0,0 +1,368 @@
+import { redirect } from "next/navigation"
+import Link from "next/link"
+import { createClient } from "@/lib/supabase/server"
+import { Sparkline } from "@/components/charts/sparkline"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { formatDuration } from "@/lib/utils"
+import { formatFlakiness } from "@/lib/flakiness"
+import {
+  clusterErrors,
+  getMedian,
+  getRollingPassRate,
+  getRunPoints,
+  PASS_RATE_WINDOW,
+} from "@/lib/story-history"
+import type { ResultStatus } from "@/lib/types"
+import {
+  ArrowLeft,
+  CheckCircle,
+  XCircle,
+  Clock,
+  ShieldAlert,
+  Image as ImageIcon,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react"
+
+// Results shown per page of the timeline
+const PAGE_SIZE = 50
+
+// Most recent results the charts and error groups are computed from
+const ANALYTICS_LIMIT = 500
+
+export default async function StoryHistoryPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ orgId: string; appId: string; journeyId: string; storyId: string }>
+  searchParams: Promise<{ page?: string }>
+}) {
+  const { orgId, appId, journeyId, storyId } = await params
+  const { page: pageParam } = await searchParams
+  const page = Math.max(1, Number(pageParam) || 1)
+  const supabase = await createClient()
+
+  // Verify access
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) redirect("/login")
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", orgId)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership) redirect("/")
+
+  const journeyPath = `/org/${orgId}/apps/${appId}/journeys/${journeyId}`
+
+  // Get story with its journey
+  const { data: story } = await supabase
+    .from("stories")
+    .select("*, journeys!inner(title, app_id)")
+    .eq("id", storyId)
+    .eq("journey_id", journeyId)
+    .eq("journeys.app_id", appId)
+    .single()
+
+  if (!story) redirect(journeyPath)
+
+  const [{ data: results, count }, { data: recent }] = await Promise.all([
+    supabase
+      .from("test_results")
+      .select(
+        `
+        id, test_run_id, passed, status, duration_ms, error, screenshot_url, retries,
+        parameter_index, parameter_label, quarantined, created_at,
+        test_run:test_runs(environment:environments(name))
+      `,
+        { count: "exact" }
+      )
+      .eq("story_id", storyId)
+      .order("created_at", { ascending: false })
+      .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1),
+    supabase
+      .from("test_results")
+      .select("test_run_id, passed, status, duration_ms, error, screenshot_url, parameter_index, created_at")
+      .eq("story_id", storyId)
+      .order("created_at", { ascending: false })
+      .limit(ANALYTICS_LIMIT),
+  ])
+
+  const timeline = (results || []) as unknown as {
+    id: string
+    test_run_id: string
+    passed: boolean
+    status: ResultStatus
+    duration_ms: number
+    error?: string | null
+    screenshot_url?: string | null
+    retries: number
+    parameter_label?: string | null
+    quarantined?: boolean
+    created_at: string
+    test_run: { environment: { name: string } | null } | null
+  }[]
+  const total = count || 0
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  const points = getRunPoints(recent || [])
+  const passRates = getRollingPassRate(points)
+  const durations = points.map((p) => p.durationMs)
+  const clusters = clusterErrors(recent || [])
+  const passRate = points.length > 0 ? points.filter((p) => p.passed).length / points.length : null
+  const medianDuration = getMedian(durations)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link href={journeyPath} className="text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="h-5 w-5" />
+        </Link>
+        <div className="flex-1">
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold">{story.title}</h1>
+            {story.quarantined_at && (
+              <Badge variant="warning" className="gap-1">
+                <ShieldAlert className="h-3 w-3" />
+                Quarantined
+              </Badge>
+            )}
+          </div>
+          <p className="text-muted-foreground">
+            {story.journeys?.title} • {total} results across all runs and environments
+          </p>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Runs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{points.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Pass Rate</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {passRate != null ? `${Math.round(passRate * 100)}%` : "—"}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Median Duration</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {medianDuration != null ? formatDuration(medianDuration) : "—"}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Flakiness</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {story.flakiness_score != null ? formatFlakiness(story.flakiness_score) : "—"}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Trends */}
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Pass Rate</CardTitle>
+            <CardDescription>
+              Over the last {PASS_RATE_WINDOW} runs at each run, oldest to newest
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {points.length > 0 ? (
+              <Sparkline values={passRates} min={0} max={1} className="text-green-600" label="Pass rate" />
+            ) : (
+              <p className="text-sm text-muted-foreground">No runs yet</p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Duration</CardTitle>
+            <CardDescription>
+              {durations.length > 0
+                ? `From ${formatDuration(Math.min(...durations))} to ${formatDuration(Math.max(...durations))}`
+                : "Time per run"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {points.length > 0 ? (
+              <Sparkline values={durations} min={0} className="text-primary" label="Duration" />
+            ) : (
+              <p className="text-sm text-muted-foreground">No runs yet</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Error Clusters */}
+      {clusters.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Errors</CardTitle>
+            <CardDescription>
+              Failures grouped by error message, ignoring values that change between runs
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {clusters.map((cluster) => (
+              <div key={cluster.signature} className="flex items-start gap-4 p-3 rounded-lg border">
+                <Badge variant="destructive">{cluster.count}×</Badge>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-mono break-words">{cluster.example.split("\n")[0]}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {cluster.count > 1
+                      ? `${new Date(cluster.firstSeen).toLocaleDateString()} – ${new Date(cluster.lastSeen).toLocaleDateString()}`
+                      : new Date(cluster.lastSeen).toLocaleString()}
+                  </p>
+                </div>
+                {cluster.screenshotUrl && (
+                  <a
+                    href={cluster.screenshotUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+                  >
+                    <ImageIcon className="h-4 w-4" />
+                    Screenshot
+                  </a>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Timeline */}
+      <Card>
+        <CardHeader>
+          <CardTitle>History</CardTitle>
+          <CardDescription>Every result of this story, newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {timeline.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              This story hasn&apos;t been run yet
+            </div>
+          ) : (
+            <div className="divide-y">
+              {timeline.map((result) => (
+                <div key={result.id} className="flex items-center gap-4 py-3">
+                  {result.passed ? (
+                    <CheckCircle className="h-5 w-5 shrink-0 text-green-500" />
+                  ) : result.status === "skipped" ? (
+                    <Clock className="h-5 w-5 shrink-0 text-muted-foreground" />
+                  ) : (
+                    <XCircle className="h-5 w-5 shrink-0 text-red-500" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 text-sm">
+                      <Link
+                        href={`/org/${orgId}/apps/${appId}/runs/${result.test_run_id}`}
+                        className="font-medium hover:underline"
+                      >
+                        {new Date(result.created_at).toLocaleString()}
+                      </Link>
+                      <Badge variant="outline" className="text-xs">
+                        {result.test_run?.environment?.name || "Unknown"}
+                      </Badge>
+                      {result.parameter_label && (
+                        <Badge variant="secondary" className="text-xs">
+                          {result.parameter_label}
+                        </Badge>
+                      )}
+                      {result.quarantined && (
+                        <Badge variant="warning" className="text-xs">
+                          Quarantined
+                        </Badge>
+                      )}
+                    </div>
+                    {result.error && (
+                      <p className="text-xs text-muted-foreground mt-0.5 truncate">
+                        {result.error.split("\n")[0]}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                    {result.retries > 0 && <span>{result.retries} retries</span>}
+                    {result.screenshot_url && (
+                      <a
+                        href={result.screenshot_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="hover:text-foreground"
+                        title="Screenshot"
+                      >
+                        <ImageIcon className="h-4 w-4" />
+                      </a>
+                    )}
+                    <span className="w-16 text-right">
+                      {result.status === "skipped" ? "Skipped" : formatDuration(result.duration_ms)}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-between pt-4">
+              <p className="text-sm text-muted-foreground">
+                Page {page} of {pageCount}
+              </p>
+              <div className="flex gap-2">
+                {page > 1 ? (
+                  <Link href={`?page=${page - 1}`}>
+                    <Button variant="outline" size="sm">
+                      <ChevronLeft className="h-4 w-4 mr-1" />
+                      Newer
+                    </Button>
+                  </Link>
+                ) : (
+                  <Button variant="outline" size="sm" disabled>
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    Newer
+                  </Button>
+                )}
+                {page < pageCount ? (
+                  <Link href={`?page=${page + 1}`}>
+                    <Button variant="outline" size="sm">
+                      Older
+                      <ChevronRight className="h-4 w-4 ml-1" />
+                    </Button>
+                  </Link>
+                ) : (
+                  <Button variant="outline" size="sm" disabled>
+                    Older
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -17,7 +17,10 @@ import {
   ExternalLink,
 } from "lucide-react"
 import { TestUsersManager } from "@/components/environment/test-users-manager"
-import type { TestUser } from "@/lib/types"
+import { AuthConfigDialog } from "@/components/environment/auth-config-dialog"
+import { QualityTrends } from "@/components/dashboard/quality-trends"
+import { getMeanDurationSeries, getPassRateSeries, getTrendDays } from "@/lib/quality-trends"
+import type { AuthConfig, TestUser } from "@/lib/types"
 
 export default async function AppOverviewPage({
   params,
@@ -55,7 +58,7 @@ export default async function AppOverviewPage({
     .from("environments")
     .select(`
       *,
-      test_users(id, role, username, description, is_enabled, created_at, updated_at)
+      test_users(id, role, username, description, is_enabled, has_totp, created_at, updated_at)
     `)
     .eq("app_id", appId)
     .order("is_default", { ascending: false })
@@ -81,6 +84,41 @@ export default async function AppOverviewPage({
     .order("created_at", { ascending: false })
     .limit(5)
 
+  // Get quality trends from the daily rollups
+  const trendDays = getTrendDays()
+  const since = trendDays[0]
+  const [
+    { data: dailyStats },
+    { data: dailyRunStats },
+    { data: failingJourneys },
+    { data: flakyStories },
+    { data: coverage },
+  ] = await Promise.all([
+    supabase
+      .from("app_daily_stats")
+      .select("environment_id, day, passed, failed")
+      .eq("app_id", appId)
+      .gte("day", since),
+    supabase
+      .from("app_daily_run_stats")
+      .select("day, runs, mean_duration_ms")
+      .eq("app_id", appId)
+      .gte("day", since),
+    supabase.rpc("get_journey_failures", { p_app_id: appId, p_since: since }).limit(5),
+    supabase
+      .from("stories")
+      .select("id, title, journey_id, flakiness_score, quarantined_at, journeys!inner(app_id)")
+      .eq("journeys.app_id", appId)
+      .gt("flakiness_score", 0)
+      .order("flakiness_score", { ascending: false })
+      .limit(5),
+    supabase
+      .from("journey_coverage")
+      .select("journey_id, title, enabled, disabled")
+      .eq("app_id", appId)
+      .order("position"),
+  ])
+
   // Calculate stats
   const totalJourneys = journeys?.length || 0
   const totalStories = journeys?.reduce(
@@ -165,6 +203,18 @@ export default async function AppOverviewPage({
         </Card>
       </div>
 
+      {/* Quality Trends */}
+      <QualityTrends
+        orgId={orgId}
+        appId={appId}
+        days={trendDays}
+        passRate={getPassRateSeries(dailyStats || [], environments || [], trendDays)}
+        duration={getMeanDurationSeries(dailyRunStats || [], trendDays)}
+        failingJourneys={failingJourneys || []}
+        flakyStories={flakyStories || []}
+        coverage={coverage || []}
+      />
+
       <div className="grid gap-6 md:grid-cols-2">
         {/* Environments */}
         <Card className="overflow-hidden">
@@ -190,6 +240,7 @@ export default async function AppOverviewPage({
               <div className="space-y-4">
                 {environments.map((env) => {
                   const testUsers = (env.test_users || []) as TestUser[]
+                  const authConfig: AuthConfig = env.auth_config || { type: "none" }
 
                   return (
                     <div
@@ -218,6 +269,13 @@ export default async function AppOverviewPage({
                               <ExternalLink className="h-3 w-3 opacity-0 group-hover/link:opacity-100 transition-opacity shrink-0" />
                             </a>
                           </div>
+                          <AuthConfigDialog
+                            environmentId={env.id}
+                            environmentName={env.name}
+                            authConfig={{ ...authConfig, password_encrypted: undefined }}
+                            hasSitePassword={!!authConfig.password_encrypted}
+                            roles={[...new Set(testUsers.filter((u) => u.is_enabled).map((u) => u.role))]}
+                          />
                         </div>
                       </div>
 
@@ -3,6 +3,8 @@ import Link from "next/link"
 import { createClient } from "@/lib/supabase/server"
 import { TestRunProgress } from "@/components/test-run/live-progress"
 import { ResultsList } from "@/components/test-run/results-list"
+import { RootCauses } from "@/components/test-run/root-causes"
+import { clusterFailures } from "@/lib/failure-clusters"
 import { formatDuration } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -14,6 +16,7 @@ import {
   Clock,
   Play,
   RefreshCw,
+  GitCompareArrows,
 } from "lucide-react"
 
 export default async function TestRunPage({
@@ -56,7 +59,8 @@ export default async function TestRunPage({
     .from("test_results")
     .select(`
       *,
-      story:stories(title, journey_id)
+      story:stories(title, journey_id),
+      heals:heal_history(id, status)
     `)
     .eq("test_run_id", runId)
     .order("created_at")
@@ -101,6 +105,12 @@ export default async function TestRunPage({
             {new Date(testRun.created_at).toLocaleString()}
           </p>
         </div>
+        <Link href={`/org/${orgId}/apps/${appId}/runs/compare?head=${runId}`}>
+          <Button variant="outline">
+            <GitCompareArrows className="h-4 w-4 mr-2" />
+            Compare
+          </Button>
+        </Link>
         <Link href={`/org/${orgId}/apps/${appId}/runs/new`}>
           <Button variant="outline">
             <RefreshCw className="h-4 w-4 mr-2" />
@@ -150,6 +160,11 @@ export default async function TestRunPage({
             <div className="text-2xl font-bold text-red-600">
               {testRun.stories_failed}
             </div>
+            {!!testRun.stories_quarantined && (
+              <p className="text-xs text-muted-foreground mt-1">
+                +{testRun.stories_quarantined} quarantined
+              </p>
+            )}
           </CardContent>
         </Card>
         <Card>
@@ -174,6 +189,16 @@ export default async function TestRunPage({
         </Card>
       </div>
 
+      {/* Failures grouped by root cause */}
+      {!isInProgress && (
+        <RootCauses
+          appId={appId}
+          clusters={clusterFailures(results || [])}
+          title="Root Causes"
+          description="Failures in this run that share an error, step and selector"
+        />
+      )}
+
       {/* Results List */}
       <Card>
         <CardHeader>
@@ -0,0 +1,219 @@
+import { redirect } from "next/navigation"
+import Link from "next/link"
+import { createClient } from "@/lib/supabase/server"
+import { ComparePicker } from "@/components/test-run/compare-picker"
+import type { CompareRunOption } from "@/components/test-run/compare-picker"
+import { compareRuns, getPreviousRunId } from "@/lib/run-diff"
+import type { StoryDiff } from "@/lib/run-diff"
+import { formatDuration } from "@/lib/utils"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft, CheckCircle, XCircle, TrendingDown, AlertTriangle } from "lucide-react"
+import type { LucideIcon } from "lucide-react"
+
+const RUN_OPTION_COLUMNS = "id, status, created_at, stories_failed, environment:environments(name)"
+
+function DiffSection({
+  title,
+  description,
+  icon: Icon,
+  iconClassName,
+  entries,
+  detail,
+}: {
+  title: string
+  description: string
+  icon: LucideIcon
+  iconClassName: string
+  entries: StoryDiff[]
+  detail?: (entry: StoryDiff) => string | null | undefined
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Icon className={`h-5 w-5 ${iconClassName}`} />
+          {title} ({entries.length})
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">None</p>
+        ) : (
+          <div className="divide-y">
+            {entries.map((entry) => {
+              const text = detail?.(entry)
+              return (
+                <div
+                  key={`${entry.storyId}:${entry.parameterLabel ?? ""}`}
+                  className="py-2 first:pt-0 last:pb-0"
+                >
+                  <div className="text-sm">
+                    <span className="text-muted-foreground">{entry.journeyName} › </span>
+                    <span className="font-medium">{entry.storyName}</span>
+                    {entry.parameterLabel && (
+                      <span className="text-muted-foreground"> [{entry.parameterLabel}]</span>
+                    )}
+                  </div>
+                  {text && (
+                    <p className="text-xs text-muted-foreground mt-0.5 line-clamp-2">{text}</p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default async function CompareRunsPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ orgId: string; appId: string }>
+  searchParams: Promise<{ base?: string; head?: string }>
+}) {
+  const { orgId, appId } = await params
+  const { base: baseId, head: headId } = await searchParams
+  const supabase = await createClient()
+
+  // Verify access
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) redirect("/login")
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", orgId)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership) redirect("/")
+
+  const runsPath = `/org/${orgId}/apps/${appId}/runs`
+  if (!headId) redirect(runsPath)
+
+  const { data: head } = await supabase
+    .from("test_runs")
+    .select("id, environment_id, created_at")
+    .eq("id", headId)
+    .eq("app_id", appId)
+    .single()
+
+  if (!head) redirect(runsPath)
+
+  // Without a base, compare against the previous run on the same environment
+  if (!baseId) {
+    const previousId = await getPreviousRunId(supabase, head, appId)
+    if (previousId) redirect(`${runsPath}/compare?base=${previousId}&head=${headId}`)
+  }
+
+  const { data: recentRuns } = await supabase
+    .from("test_runs")
+    .select(RUN_OPTION_COLUMNS)
+    .eq("app_id", appId)
+    .order("created_at", { ascending: false })
+    .limit(50)
+
+  // Keep the selected runs pickable even when they're older than the list
+  const runs = (recentRuns || []) as unknown as CompareRunOption[]
+  const missing = [baseId, headId].filter((id): id is string => !!id && !runs.some((r) => r.id === id))
+  if (missing.length > 0) {
+    const { data: selected } = await supabase
+      .from("test_runs")
+      .select(RUN_OPTION_COLUMNS)
+      .eq("app_id", appId)
+      .in("id", missing)
+    runs.push(...((selected || []) as unknown as CompareRunOption[]))
+  }
+
+  const comparison = baseId ? await compareRuns(supabase, appId, baseId, headId) : null
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link
+          href={`${runsPath}/${headId}`}
+          className="text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold">Compare Runs</h1>
+          <p className="text-muted-foreground">
+            What changed between two test runs, story by story
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <ComparePicker
+            orgId={orgId}
+            appId={appId}
+            runs={runs}
+            baseId={baseId}
+            headId={headId}
+          />
+        </CardContent>
+      </Card>
+
+      {!comparison ? (
+        <Alert>
+          <AlertDescription>
+            There is no earlier completed run on this environment. Pick a base run to compare against.
+          </AlertDescription>
+        </Alert>
+      ) : "error" in comparison ? (
+        <Alert variant="destructive">
+          <AlertDescription>{comparison.error}</AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {comparison.diff.unchanged} unchanged
+            {comparison.diff.added.length > 0 && ` • ${comparison.diff.added.length} only in the compared run`}
+            {comparison.diff.removed.length > 0 && ` • ${comparison.diff.removed.length} only in the base run`}
+          </p>
+
+          <DiffSection
+            title="Newly failing"
+            description="Passed in the base run, failed in the compared run"
+            icon={XCircle}
+            iconClassName="text-red-500"
+            entries={comparison.diff.newlyFailing}
+            detail={(entry) => entry.head?.error}
+          />
+          <DiffSection
+            title="Newly passing"
+            description="Failed in the base run, passed in the compared run"
+            icon={CheckCircle}
+            iconClassName="text-green-500"
+            entries={comparison.diff.newlyPassing}
+          />
+          <DiffSection
+            title="Still failing"
+            description="Failed in both runs"
+            icon={AlertTriangle}
+            iconClassName="text-yellow-500"
+            entries={comparison.diff.stillFailing}
+            detail={(entry) => entry.head?.error}
+          />
+          <DiffSection
+            title="Slower"
+            description="Passed in both runs, but took noticeably longer"
+            icon={TrendingDown}
+            iconClassName="text-orange-500"
+            entries={comparison.diff.durationRegressions}
+            detail={(entry) =>
+              `${formatDuration(entry.base!.durationMs)} → ${formatDuration(entry.head!.durationMs)}`
+            }
+          />
+        </>
+      )}
+    </div>
+  )
+}
@@ -10,6 +10,9 @@ import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { RunSettingsFields } from "@/components/settings/run-settings-fields"
+import { resolveRunSettings, validateRunSettings } from "@/lib/run-settings"
+import type { AppSettings, RunSettings } from "@/lib/types"
 import { ArrowLeft, Play, Loader2 } from "lucide-react"
 import { useEffect } from "react"
 import { createClient } from "@/lib/supabase/client"
@@ -36,6 +39,8 @@ export default function NewTestRunPage() {
   const [journeys, setJourneys] = useState<Journey[]>([])
   const [selectedEnv, setSelectedEnv] = useState<string>("")
   const [selectedJourneys, setSelectedJourneys] = useState<string[]>([])
+  const [overrideSettings, setOverrideSettings] = useState(false)
+  const [runSettings, setRunSettings] = useState<Required<RunSettings>>(() => resolveRunSettings())
   const [loading, setLoading] = useState(true)
   const [submitting, setSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -59,6 +64,17 @@ export default function NewTestRunPage() {
         }
       }
 
+      // Start overrides from the app's own settings
+      const { data: app } = await supabase
+        .from("apps")
+        .select("settings")
+        .eq("id", appId)
+        .single()
+
+      if (app) {
+        setRunSettings(resolveRunSettings((app.settings || {}) as AppSettings))
+      }
+
       // Load journeys with stories
       const { data: jnys } = await supabase
         .from("journeys")
@@ -108,6 +124,9 @@ export default function NewTestRunPage() {
     formData.set("appId", appId)
     formData.set("environmentId", selectedEnv)
     formData.set("journeyIds", selectedJourneys.join(","))
+    if (overrideSettings) {
+      formData.set("settings", JSON.stringify(runSettings))
+    }
 
     const result = await triggerTestRun(formData)
     if (result?.error) {
@@ -123,6 +142,8 @@ export default function NewTestRunPage() {
       0
     )
 
+  const runSettingsError = overrideSettings ? validateRunSettings(runSettings) : null
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -239,6 +260,31 @@ export default function NewTestRunPage() {
               </div>
             </div>
 
+            {/* Settings Overrides */}
+            <div className="space-y-3">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="override-settings"
+                  checked={overrideSettings}
+                  onCheckedChange={(checked) => setOverrideSettings(checked as boolean)}
+                />
+                <label
+                  htmlFor="override-settings"
+                  className="text-sm font-medium leading-none cursor-pointer"
+                >
+                  Override app settings for this run
+                </label>
+              </div>
+              {overrideSettings && (
+                <div className="border rounded-lg p-3 space-y-2">
+                  <RunSettingsFields value={runSettings} onChange={setRunSettings} />
+                  {runSettingsError && (
+                    <p className="text-sm text-destructive">{runSettingsError}</p>
+                  )}
+                </div>
+              )}
+            </div>
+
             {/* Summary */}
             <div className="bg-muted/50 rounded-lg p-4">
               <p className="text-sm font-medium">Summary</p>
@@ -259,6 +305,7 @@ export default function NewTestRunPage() {
               disabled={
                 submitting ||
                 !selectedEnv ||
+                !!runSettingsError ||
                 selectedJourneys.length === 0 ||
                 enabledStoriesCount === 0
               }
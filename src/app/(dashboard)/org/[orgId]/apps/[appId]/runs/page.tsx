@@ -4,7 +4,9 @@ import { createClient } from "@/lib/supabase/server"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
+import { RootCauses } from "@/components/test-run/root-causes"
 import { formatDuration } from "@/lib/utils"
+import { clusterFailures, RECENT_RUNS_WINDOW } from "@/lib/failure-clusters"
 import { Plus, Play, CheckCircle, XCircle, Clock, Loader2 } from "lucide-react"
 
 export default async function TestRunsPage({
@@ -49,6 +51,29 @@ export default async function TestRunsPage({
     .order("created_at", { ascending: false })
     .limit(50)
 
+  // Cluster failures across the latest completed runs. Passed results are
+  // loaded too, so a failure that an auto-heal rerun fixed isn't counted.
+  const recentRunIds = (runs || [])
+    .filter((run) => run.status === "completed")
+    .slice(0, RECENT_RUNS_WINDOW)
+    .map((run) => run.id)
+  const [{ data: recentFailures }, { data: recentPasses }] = await Promise.all([
+    supabase
+      .from("test_results")
+      .select(`
+        id, test_run_id, story_id, story_name, journey_name, status,
+        error, steps, screenshot_url, parameter_index, created_at
+      `)
+      .in("test_run_id", recentRunIds)
+      .eq("status", "failed"),
+    supabase
+      .from("test_results")
+      .select("id, test_run_id, story_id, story_name, journey_name, status, parameter_index, created_at")
+      .in("test_run_id", recentRunIds)
+      .eq("status", "passed"),
+  ])
+  const clusters = clusterFailures([...(recentFailures || []), ...(recentPasses || [])])
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -64,6 +89,13 @@ export default async function TestRunsPage({
         </Link>
       </div>
 
+      <RootCauses
+        appId={appId}
+        clusters={clusters}
+        title="Recurring Failures"
+        description={`Failures that share an error, step and selector across the last ${RECENT_RUNS_WINDOW} completed runs`}
+      />
+
       {runs && runs.length > 0 ? (
         <div className="space-y-4">
           {runs.map((run) => (
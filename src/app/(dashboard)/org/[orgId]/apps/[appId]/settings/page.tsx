@@ -0,0 +1,98 @@
+import { redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { ExecutionSettingsForm } from "@/components/settings/execution-settings-form"
+import { SessionSettingsForm } from "@/components/settings/session-settings-form"
+import { HealSettingsForm } from "@/components/settings/heal-settings-form"
+import { VerificationSettingsForm } from "@/components/settings/verification-settings-form"
+import { QuarantineSettingsForm } from "@/components/settings/quarantine-settings-form"
+import { EncryptionSettingsForm } from "@/components/settings/encryption-settings-form"
+import { VariablesManager } from "@/components/settings/variables-manager"
+import { FixturesSettingsForm } from "@/components/settings/fixtures-settings-form"
+import { StepBlocksManager } from "@/components/settings/step-blocks-manager"
+
+export default async function AppSettingsPage({
+  params,
+}: {
+  params: Promise<{ orgId: string; appId: string }>
+}) {
+  const { orgId, appId } = await params
+  const supabase = await createClient()
+
+  // Verify access
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) redirect("/login")
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", orgId)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership) redirect("/")
+
+  // Get app
+  const { data: app } = await supabase
+    .from("apps")
+    .select("name, settings")
+    .eq("id", appId)
+    .eq("organization_id", orgId)
+    .single()
+
+  if (!app) redirect(`/org/${orgId}`)
+
+  const { data: environments } = await supabase
+    .from("environments")
+    .select("id, name")
+    .eq("app_id", appId)
+    .order("created_at")
+
+  // Secret values stay server-side; only their names are listed
+  const { data: variables } = await supabase
+    .from("variables")
+    .select("id, app_id, environment_id, name, value, is_secret, description, created_at, updated_at")
+    .eq("app_id", appId)
+
+  const { data: stepBlocks } = await supabase
+    .from("step_blocks")
+    .select("*")
+    .eq("app_id", appId)
+
+  // Stories that step blocks can call
+  const { data: stories } = await supabase
+    .from("stories")
+    .select("id, title, steps, journeys!inner(app_id)")
+    .eq("journeys.app_id", appId)
+    .order("title")
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Settings</h1>
+        <p className="text-muted-foreground">
+          Configure how tests run for {app.name}
+        </p>
+      </div>
+
+      <ExecutionSettingsForm appId={appId} settings={app.settings || {}} />
+      <SessionSettingsForm appId={appId} settings={app.settings || {}} />
+      <HealSettingsForm appId={appId} settings={app.settings || {}} />
+      <VerificationSettingsForm appId={appId} settings={app.settings || {}} />
+      <QuarantineSettingsForm appId={appId} settings={app.settings || {}} />
+      <VariablesManager
+        appId={appId}
+        environments={environments || []}
+        variables={variables || []}
+      />
+      <StepBlocksManager
+        appId={appId}
+        blocks={stepBlocks || []}
+        stories={(stories || []).map(({ id, title, steps }) => ({ id, title, steps }))}
+      />
+      <FixturesSettingsForm appId={appId} settings={app.settings || {}} />
+      {["owner", "admin"].includes(membership.role) && (
+        <EncryptionSettingsForm appId={appId} />
+      )}
+    </div>
+  )
+}
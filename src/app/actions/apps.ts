@@ -4,6 +4,12 @@ import { revalidatePath } from "next/cache"
 import { redirect } from "next/navigation"
 import { createClient } from "@/lib/supabase/server"
 import { slugify } from "@/lib/utils"
+import { validateRunSettings } from "@/lib/run-settings"
+import { validateFixtures } from "@/lib/story-hooks"
+import { encrypt, getCiphertextKeyId, getPrimaryKeyId } from "@/lib/crypto"
+import { enqueueReencryption, getJobStatus, runTestLogin } from "@/lib/queue/client"
+import type { ReencryptResult } from "@/lib/queue/client"
+import type { AppSettings, AuthConfig, AuthConfigInput } from "@/lib/types"
 
 export async function createApp(formData: FormData) {
   const supabase = await createClient()
@@ -113,6 +119,154 @@ export async function updateApp(formData: FormData) {
   return { success: true }
 }
 
+// Settings an app can store; anything else is rejected
+const APP_SETTING_KEYS: (keyof AppSettings)[] = [
+  "defaultEnvironmentId",
+  "retryCount",
+  "screenshotOnFailure",
+  "healPolicy",
+  "autoHealThreshold",
+  "visualLowConfidencePolicy",
+  "parallelism",
+  "stepTimeout",
+  "viewport",
+  "waitUntil",
+  "sessionReuse",
+  "sessionTtlMinutes",
+  "fixtures",
+  "autoQuarantine",
+  "quarantineThreshold",
+]
+
+function isNumberBetween(value: unknown, min: number, max: number): boolean {
+  return typeof value === "number" && Number.isFinite(value) && value >= min && value <= max
+}
+
+export async function updateAppSettings(appId: string, settings: Partial<AppSettings>) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  // Get app and verify access
+  const { data: app } = await supabase
+    .from("apps")
+    .select("organization_id, settings")
+    .eq("id", appId)
+    .single()
+
+  if (!app) {
+    return { error: "App not found" }
+  }
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", app.organization_id)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin"].includes(membership.role)) {
+    return { error: "Unauthorized" }
+  }
+
+  const unknownKey = Object.keys(settings).find(
+    (key) => !APP_SETTING_KEYS.includes(key as keyof AppSettings)
+  )
+  if (unknownKey) {
+    return { error: `Unknown setting "${unknownKey}"` }
+  }
+
+  if (
+    settings.defaultEnvironmentId !== undefined &&
+    typeof settings.defaultEnvironmentId !== "string"
+  ) {
+    return { error: "Default environment must be an environment id" }
+  }
+
+  if (
+    settings.healPolicy !== undefined &&
+    !["off", "propose", "auto-apply"].includes(settings.healPolicy)
+  ) {
+    return { error: `Unknown heal policy "${settings.healPolicy}"` }
+  }
+
+  if (
+    settings.autoHealThreshold !== undefined &&
+    !isNumberBetween(settings.autoHealThreshold, 0, 1)
+  ) {
+    return { error: "Auto-heal threshold must be between 0 and 1" }
+  }
+
+  if (
+    settings.visualLowConfidencePolicy !== undefined &&
+    !["fail", "warn", "trust"].includes(settings.visualLowConfidencePolicy)
+  ) {
+    return { error: `Unknown low confidence policy "${settings.visualLowConfidencePolicy}"` }
+  }
+
+  if (
+    settings.parallelism !== undefined &&
+    (!Number.isInteger(settings.parallelism) || settings.parallelism < 1 || settings.parallelism > 8)
+  ) {
+    return { error: "Parallel stories must be a whole number from 1 to 8" }
+  }
+
+  if (
+    settings.sessionReuse !== undefined &&
+    !["off", "run", "ttl"].includes(settings.sessionReuse)
+  ) {
+    return { error: `Unknown session reuse "${settings.sessionReuse}"` }
+  }
+
+  if (
+    settings.sessionTtlMinutes !== undefined &&
+    (!Number.isInteger(settings.sessionTtlMinutes) ||
+      settings.sessionTtlMinutes < 1 ||
+      settings.sessionTtlMinutes > 1440)
+  ) {
+    return { error: "Session lifetime must be a whole number of minutes from 1 to 1440" }
+  }
+
+  if (settings.autoQuarantine !== undefined && typeof settings.autoQuarantine !== "boolean") {
+    return { error: "Auto-quarantine must be true or false" }
+  }
+
+  if (
+    settings.quarantineThreshold !== undefined &&
+    (!isNumberBetween(settings.quarantineThreshold, 0, 1) || settings.quarantineThreshold === 0)
+  ) {
+    return { error: "Quarantine threshold must be above 0 and at most 1" }
+  }
+
+  const runSettingsError = validateRunSettings(settings)
+  if (runSettingsError) {
+    return { error: runSettingsError }
+  }
+
+  if (settings.fixtures !== undefined) {
+    const fixturesError = validateFixtures(settings.fixtures)
+    if (fixturesError) {
+      return { error: fixturesError }
+    }
+  }
+
+  // Merge so settings managed elsewhere are preserved
+  const { error } = await supabase
+    .from("apps")
+    .update({ settings: { ...(app.settings || {}), ...settings } })
+    .eq("id", appId)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath(`/org/${app.organization_id}/apps/${appId}`, "layout")
+  return { success: true }
+}
+
 export async function deleteApp(formData: FormData) {
   const supabase = await createClient()
 
@@ -328,3 +482,310 @@ export async function deleteEnvironment(formData: FormData) {
   revalidatePath(`/org/${orgId}/apps/${env.app_id}`)
   return { success: true }
 }
+
+// Returns an error message, or null when the auth config can be saved
+function validateAuthConfig(config: AuthConfigInput): string | null {
+  if (!["none", "basic", "form", "oauth"].includes(config.type)) {
+    return `Unknown auth type "${config.type}"`
+  }
+
+  if (config.loginUrl && !config.loginUrl.startsWith("/")) {
+    try {
+      const url = new URL(config.loginUrl)
+      if (url.protocol !== "http:" && url.protocol !== "https:") {
+        return "Login URL must be an http(s) URL or a path starting with /"
+      }
+    } catch {
+      return "Login URL must be an http(s) URL or a path starting with /"
+    }
+  }
+
+  if (config.type === "oauth") {
+    const oauth = config.oauth
+    if (!oauth || !["idp", "token"].includes(oauth.mode)) {
+      return "Choose how to sign in with OAuth"
+    }
+    if (
+      oauth.mode === "token" &&
+      (oauth.tokenTarget === "cookie" || oauth.tokenTarget === "localStorage") &&
+      !oauth.tokenName
+    ) {
+      return oauth.tokenTarget === "cookie"
+        ? "A cookie name is required to inject the token"
+        : "A localStorage key is required to inject the token"
+    }
+  }
+
+  return null
+}
+
+export async function updateEnvironmentAuthConfig(envId: string, input: AuthConfigInput) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  // Get environment and app
+  const { data: env } = await supabase
+    .from("environments")
+    .select("app_id, auth_config, apps(organization_id)")
+    .eq("id", envId)
+    .single()
+
+  if (!env) {
+    return { error: "Environment not found" }
+  }
+
+  const orgId = (env.apps as unknown as { organization_id: string }).organization_id
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", orgId)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin", "member"].includes(membership.role)) {
+    return { error: "Unauthorized" }
+  }
+
+  const validationError = validateAuthConfig(input)
+  if (validationError) {
+    return { error: validationError }
+  }
+
+  const { password, ...fields } = input
+  const authConfig: AuthConfig = { ...fields }
+
+  // Basic auth for the site: keep the saved password unless a new one is given
+  const existing = (env.auth_config || {}) as AuthConfig
+  if (!authConfig.username) {
+    delete authConfig.username
+  } else if (password) {
+    try {
+      authConfig.password_encrypted = await encrypt(password)
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : "Failed to encrypt password" }
+    }
+  } else if (existing.password_encrypted) {
+    authConfig.password_encrypted = existing.password_encrypted
+  }
+
+  const { error } = await supabase
+    .from("environments")
+    .update({ auth_config: authConfig })
+    .eq("id", envId)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath(`/org/${orgId}/apps/${env.app_id}`)
+  return { success: true }
+}
+
+export async function testEnvironmentLogin(envId: string, role: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  // Get environment and app
+  const { data: env } = await supabase
+    .from("environments")
+    .select("app_id, apps(organization_id)")
+    .eq("id", envId)
+    .single()
+
+  if (!env) {
+    return { error: "Environment not found" }
+  }
+
+  const orgId = (env.apps as unknown as { organization_id: string }).organization_id
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", orgId)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin", "member"].includes(membership.role)) {
+    return { error: "Unauthorized" }
+  }
+
+  try {
+    const result = await runTestLogin({ environmentId: envId, role })
+    return { success: true, data: result }
+  } catch (err) {
+    return {
+      error: err instanceof Error && err.message.includes("timed out")
+        ? "The worker did not finish the test login in time"
+        : `Test login failed to run: ${err instanceof Error ? err.message : String(err)}`,
+    }
+  }
+}
+
+// Which encryption keys an app's stored credentials use, so admins can
+// tell when a rotated-out key is safe to remove
+export async function getCredentialEncryptionStatus(appId: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: app } = await supabase
+    .from("apps")
+    .select("organization_id")
+    .eq("id", appId)
+    .single()
+
+  if (!app) {
+    return { error: "App not found" }
+  }
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", app.organization_id)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin"].includes(membership.role)) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: environments } = await supabase
+    .from("environments")
+    .select("id, auth_config")
+    .eq("app_id", appId)
+
+  const envIds = (environments || []).map((e) => e.id)
+  const { data: testUsers } = envIds.length > 0
+    ? await supabase
+        .from("test_users")
+        .select("password_encrypted, totp_secret_encrypted")
+        .in("environment_id", envIds)
+    : { data: [] }
+  const { data: variables } = await supabase
+    .from("variables")
+    .select("value_encrypted")
+    .eq("app_id", appId)
+    .eq("is_secret", true)
+
+  const values = [
+    ...(testUsers || []).flatMap((u) => [u.password_encrypted, u.totp_secret_encrypted]),
+    ...(variables || []).map((v) => v.value_encrypted),
+    ...(environments || []).map((e) => (e.auth_config as AuthConfig | null)?.password_encrypted),
+  ].filter((v): v is string => !!v)
+
+  try {
+    const primaryKeyId = getPrimaryKeyId()
+    const byKey: Record<string, number> = {}
+    for (const value of values) {
+      const keyId = getCiphertextKeyId(value)
+      byKey[keyId] = (byKey[keyId] || 0) + 1
+    }
+
+    return {
+      success: true,
+      data: {
+        primaryKeyId,
+        total: values.length,
+        outdated: values.length - (byKey[primaryKeyId] || 0),
+        byKey,
+      },
+    }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : "Failed to read encryption keys" }
+  }
+}
+
+export async function startCredentialReencryption(appId: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: app } = await supabase
+    .from("apps")
+    .select("organization_id")
+    .eq("id", appId)
+    .single()
+
+  if (!app) {
+    return { error: "App not found" }
+  }
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", app.organization_id)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin"].includes(membership.role)) {
+    return { error: "Unauthorized" }
+  }
+
+  try {
+    const job = await enqueueReencryption({ appId })
+    return { success: true, data: { jobId: job.id! } }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : "Failed to start re-encryption" }
+  }
+}
+
+export async function getCredentialReencryptionJob(appId: string, jobId: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: app } = await supabase
+    .from("apps")
+    .select("organization_id")
+    .eq("id", appId)
+    .single()
+
+  if (!app) {
+    return { error: "App not found" }
+  }
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", app.organization_id)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin"].includes(membership.role)) {
+    return { error: "Unauthorized" }
+  }
+
+  const job = await getJobStatus(jobId)
+  // Job ids are guessable, so only report jobs for this app
+  if (!job || job.data?.appId !== appId) {
+    return { error: "Re-encryption job not found" }
+  }
+
+  return {
+    success: true,
+    data: {
+      state: job.state,
+      progress: job.progress as { done: number; total: number } | number,
+      result: job.returnValue as ReencryptResult | undefined,
+      failedReason: job.failedReason,
+    },
+  }
+}
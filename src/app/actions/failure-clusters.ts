@@ -0,0 +1,62 @@
+"use server"
+
+import { createClient } from "@/lib/supabase/server"
+import { clusterFailures } from "@/lib/failure-clusters"
+import { summarizeFailureCluster } from "@/lib/ai/failure-summarizer"
+
+// Results summarized at most; a cluster beyond that is summarized from these
+const MAX_RESULTS = 200
+
+export async function summarizeFailures(appId: string, resultIds: string[]) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  // Get app and verify access
+  const { data: app } = await supabase
+    .from("apps")
+    .select("organization_id")
+    .eq("id", appId)
+    .single()
+
+  if (!app) {
+    return { error: "App not found" }
+  }
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", app.organization_id)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin", "member"].includes(membership.role)) {
+    return { error: "Unauthorized" }
+  }
+
+  const { data: results } = await supabase
+    .from("test_results")
+    .select(`
+      id, test_run_id, story_id, story_name, journey_name, status,
+      error, steps, screenshot_url, parameter_index, created_at,
+      test_runs!inner(app_id)
+    `)
+    .eq("test_runs.app_id", appId)
+    .in("id", resultIds.slice(0, MAX_RESULTS))
+
+  const [cluster] = clusterFailures(results || [])
+  if (!cluster) {
+    return { error: "No failures to summarize" }
+  }
+
+  try {
+    const summary = await summarizeFailureCluster(cluster)
+    return { success: true, data: { summary } }
+  } catch (error) {
+    console.error("Failed to summarize failures:", error)
+    return { error: "Couldn't summarize these failures. Try again later." }
+  }
+}
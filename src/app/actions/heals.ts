@@ -0,0 +1,146 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { createClient } from "@/lib/supabase/server"
+import { applyHealToStory } from "@/lib/heal"
+import type { HealHistory, HealStatus, StoryOutcome, StoryStep } from "@/lib/types"
+
+export async function approveHeal(healId: string) {
+  return updateHealStatus(healId, "approved")
+}
+
+export async function rejectHeal(healId: string) {
+  return updateHealStatus(healId, "rejected")
+}
+
+async function updateHealStatus(healId: string, status: HealStatus) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  // Get heal and verify access
+  const { data: heal } = await supabase
+    .from("heal_history")
+    .select("status, stories(journey_id, journeys(app_id, apps(organization_id)))")
+    .eq("id", healId)
+    .single()
+
+  if (!heal) {
+    return { error: "Heal proposal not found" }
+  }
+
+  const stories = heal.stories as unknown as {
+    journey_id: string
+    journeys: { app_id: string; apps: { organization_id: string } }
+  }
+  const orgId = stories.journeys.apps.organization_id
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", orgId)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin", "member"].includes(membership.role)) {
+    return { error: "Unauthorized" }
+  }
+
+  if (heal.status === "applied") {
+    return { error: "Heal proposal has already been applied" }
+  }
+  if (heal.status === "stale") {
+    return { error: "Heal proposal is stale" }
+  }
+
+  const { error } = await supabase
+    .from("heal_history")
+    .update({ status })
+    .eq("id", healId)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath(`/org/${orgId}/apps/${stories.journeys.app_id}`, "layout")
+  return { success: true }
+}
+
+export async function applyHeal(healId: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  // Get heal with its story and verify access
+  const { data: heal } = await supabase
+    .from("heal_history")
+    .select("*, stories(id, steps, outcome, updated_at, journey_id, journeys(app_id, apps(organization_id)))")
+    .eq("id", healId)
+    .single()
+
+  if (!heal) {
+    return { error: "Heal proposal not found" }
+  }
+
+  const story = heal.stories as unknown as {
+    id: string
+    steps: StoryStep[]
+    outcome: StoryOutcome
+    updated_at: string
+    journey_id: string
+    journeys: { app_id: string; apps: { organization_id: string } }
+  }
+  const orgId = story.journeys.apps.organization_id
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", orgId)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin", "member"].includes(membership.role)) {
+    return { error: "Unauthorized" }
+  }
+
+  if (heal.status === "applied") {
+    return { error: "Heal proposal has already been applied" }
+  }
+  if (heal.status === "rejected") {
+    return { error: "Rejected proposals cannot be applied" }
+  }
+  if (heal.status === "stale") {
+    return { error: "Heal proposal is stale", stale: true }
+  }
+
+  const patched = applyHealToStory(story, heal as HealHistory)
+  if (patched.error !== undefined) {
+    if (patched.stale) {
+      await supabase.from("heal_history").update({ status: "stale" }).eq("id", healId)
+      revalidatePath(`/org/${orgId}/apps/${story.journeys.app_id}`, "layout")
+    }
+    return { error: patched.error, stale: patched.stale }
+  }
+
+  // Story and proposal are updated together; other open proposals for the
+  // same step and field are marked stale
+  const { error } = await supabase.rpc("apply_heal", {
+    p_heal_id: healId,
+    p_steps: patched.steps,
+    p_outcome: patched.outcome,
+    p_story_updated_at: story.updated_at,
+  })
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath(`/org/${orgId}/apps/${story.journeys.app_id}`, "layout")
+  return { success: true }
+}
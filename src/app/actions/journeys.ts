@@ -120,6 +120,51 @@ export async function updateJourney(formData: FormData) {
   return { success: true }
 }
 
+export async function setJourneySerial(journeyId: string, isSerial: boolean) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  // Get journey and verify access
+  const { data: journey } = await supabase
+    .from("journeys")
+    .select("app_id, apps(organization_id)")
+    .eq("id", journeyId)
+    .single()
+
+  if (!journey) {
+    return { error: "Journey not found" }
+  }
+
+  const orgId = (journey.apps as unknown as { organization_id: string }).organization_id
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", orgId)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin", "member"].includes(membership.role)) {
+    return { error: "Unauthorized" }
+  }
+
+  const { error } = await supabase
+    .from("journeys")
+    .update({ is_serial: isSerial })
+    .eq("id", journeyId)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath(`/org/${orgId}/apps/${journey.app_id}/journeys/${journeyId}`)
+  return { success: true }
+}
+
 export async function deleteJourney(formData: FormData) {
   const supabase = await createClient()
 
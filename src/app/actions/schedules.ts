@@ -2,6 +2,10 @@
 
 import { revalidatePath } from "next/cache"
 import { createClient } from "@/lib/supabase/server"
+import { getNextRun, validateCron } from "@/lib/cron"
+import type { MisfirePolicy } from "@/lib/types"
+
+const MISFIRE_POLICIES: MisfirePolicy[] = ["skip", "run_once", "run_all"]
 
 export async function createSchedule(formData: FormData) {
   const supabase = await createClient()
@@ -16,6 +20,7 @@ export async function createSchedule(formData: FormData) {
   const name = formData.get("name") as string
   const cronExpression = formData.get("cronExpression") as string
   const timezone = formData.get("timezone") as string || "UTC"
+  const misfirePolicy = (formData.get("misfirePolicy") as MisfirePolicy) || "run_once"
   const journeyIdsStr = formData.get("journeyIds") as string
 
   const journeyIds = journeyIdsStr ? journeyIdsStr.split(",").filter(Boolean) : []
@@ -42,8 +47,17 @@ export async function createSchedule(formData: FormData) {
     return { error: "Unauthorized" }
   }
 
+  const cronError = validateCron(cronExpression, timezone)
+  if (cronError) {
+    return { error: cronError }
+  }
+
+  if (!MISFIRE_POLICIES.includes(misfirePolicy)) {
+    return { error: "Invalid misfire policy" }
+  }
+
   // Calculate next run time
-  const nextRunAt = calculateNextRun(cronExpression)
+  const nextRunAt = calculateNextRun(cronExpression, timezone)
 
   const { data: schedule, error } = await supabase
     .from("scheduled_jobs")
@@ -53,6 +67,7 @@ export async function createSchedule(formData: FormData) {
       name,
       cron_expression: cronExpression,
       timezone,
+      misfire_policy: misfirePolicy,
       journey_ids: journeyIds,
       is_enabled: true,
       next_run_at: nextRunAt,
@@ -80,6 +95,7 @@ export async function updateSchedule(formData: FormData) {
   const name = formData.get("name") as string
   const cronExpression = formData.get("cronExpression") as string
   const timezone = formData.get("timezone") as string || "UTC"
+  const misfirePolicy = formData.get("misfirePolicy") as MisfirePolicy | null
   const journeyIdsStr = formData.get("journeyIds") as string
   const isEnabled = formData.get("isEnabled") === "true"
 
@@ -109,8 +125,17 @@ export async function updateSchedule(formData: FormData) {
     return { error: "Unauthorized" }
   }
 
+  const cronError = validateCron(cronExpression, timezone)
+  if (cronError) {
+    return { error: cronError }
+  }
+
+  if (misfirePolicy && !MISFIRE_POLICIES.includes(misfirePolicy)) {
+    return { error: "Invalid misfire policy" }
+  }
+
   // Calculate next run time
-  const nextRunAt = isEnabled ? calculateNextRun(cronExpression) : null
+  const nextRunAt = isEnabled ? calculateNextRun(cronExpression, timezone) : null
 
   const { error } = await supabase
     .from("scheduled_jobs")
@@ -118,6 +143,7 @@ export async function updateSchedule(formData: FormData) {
       name,
       cron_expression: cronExpression,
       timezone,
+      ...(misfirePolicy && { misfire_policy: misfirePolicy }),
       journey_ids: journeyIds,
       is_enabled: isEnabled,
       next_run_at: nextRunAt,
@@ -188,7 +214,7 @@ export async function toggleSchedule(scheduleId: string, enabled: boolean) {
   // Get schedule and verify access
   const { data: schedule } = await supabase
     .from("scheduled_jobs")
-    .select("app_id, cron_expression, apps(organization_id)")
+    .select("app_id, cron_expression, timezone, apps(organization_id)")
     .eq("id", scheduleId)
     .single()
 
@@ -210,7 +236,9 @@ export async function toggleSchedule(scheduleId: string, enabled: boolean) {
   }
 
   // Calculate next run time if enabling
-  const nextRunAt = enabled ? calculateNextRun(schedule.cron_expression) : null
+  const nextRunAt = enabled
+    ? calculateNextRun(schedule.cron_expression, schedule.timezone || "UTC")
+    : null
 
   const { error } = await supabase
     .from("scheduled_jobs")
@@ -228,35 +256,6 @@ export async function toggleSchedule(scheduleId: string, enabled: boolean) {
   return { success: true }
 }
 
-function calculateNextRun(cronExpression: string): string {
-  // Simple cron parser for common cases
-  // Format: minute hour day-of-month month day-of-week
-  const parts = cronExpression.trim().split(/\s+/)
-
-  if (parts.length !== 5) {
-    // Default to 1 hour from now
-    return new Date(Date.now() + 60 * 60 * 1000).toISOString()
-  }
-
-  const [minute, hour] = parts
-
-  const now = new Date()
-  const next = new Date(now)
-
-  // Set base time
-  if (minute !== "*") {
-    next.setMinutes(parseInt(minute, 10))
-  }
-  if (hour !== "*") {
-    next.setHours(parseInt(hour, 10))
-  }
-  next.setSeconds(0)
-  next.setMilliseconds(0)
-
-  // If the calculated time is in the past, move to next day
-  if (next <= now) {
-    next.setDate(next.getDate() + 1)
-  }
-
-  return next.toISOString()
+function calculateNextRun(cronExpression: string, timezone: string): string | null {
+  return getNextRun(cronExpression, timezone)?.toISOString() ?? null
 }
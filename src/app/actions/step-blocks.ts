@@ -0,0 +1,204 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { createClient } from "@/lib/supabase/server"
+import { getStepCalls, validateSteps } from "@/lib/step-blocks"
+import type { StepBlockInput } from "@/lib/types"
+
+function validateStepBlock(data: StepBlockInput): string | null {
+  if (!data.name?.trim()) {
+    return "A name is required"
+  }
+  if (data.steps.length === 0) {
+    return "A step block needs at least one step"
+  }
+  return validateSteps(data.steps)
+}
+
+export async function createStepBlock(appId: string, data: StepBlockInput) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  // Get app and verify access
+  const { data: app } = await supabase
+    .from("apps")
+    .select("organization_id")
+    .eq("id", appId)
+    .single()
+
+  if (!app) {
+    return { error: "App not found" }
+  }
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", app.organization_id)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin", "member"].includes(membership.role)) {
+    return { error: "Unauthorized" }
+  }
+
+  const validationError = validateStepBlock(data)
+  if (validationError) {
+    return { error: validationError }
+  }
+
+  const { data: block, error } = await supabase
+    .from("step_blocks")
+    .insert({
+      app_id: appId,
+      name: data.name.trim(),
+      description: data.description || null,
+      steps: data.steps,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === "23505") {
+      return { error: `A step block named "${data.name.trim()}" already exists` }
+    }
+    return { error: error.message }
+  }
+
+  revalidatePath(`/org/${app.organization_id}/apps/${appId}/settings`)
+  return { success: true, data: block }
+}
+
+export async function updateStepBlock(blockId: string, data: StepBlockInput) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  // Get block and verify access
+  const { data: block } = await supabase
+    .from("step_blocks")
+    .select("app_id, apps(organization_id)")
+    .eq("id", blockId)
+    .single()
+
+  if (!block) {
+    return { error: "Step block not found" }
+  }
+
+  const orgId = (block.apps as unknown as { organization_id: string }).organization_id
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", orgId)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin", "member"].includes(membership.role)) {
+    return { error: "Unauthorized" }
+  }
+
+  const validationError = validateStepBlock(data)
+  if (validationError) {
+    return { error: validationError }
+  }
+  if (getStepCalls(data.steps).some((call) => call.kind === "block" && call.id === blockId)) {
+    return { error: "A step block can't call itself" }
+  }
+
+  const { data: updated, error } = await supabase
+    .from("step_blocks")
+    .update({
+      name: data.name.trim(),
+      description: data.description || null,
+      steps: data.steps,
+    })
+    .eq("id", blockId)
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === "23505") {
+      return { error: `A step block named "${data.name.trim()}" already exists` }
+    }
+    return { error: error.message }
+  }
+
+  // Stories pick up the new steps on their next run
+  revalidatePath(`/org/${orgId}/apps/${block.app_id}`, "layout")
+  return { success: true, data: updated }
+}
+
+export async function deleteStepBlock(blockId: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  // Get block and verify access
+  const { data: block } = await supabase
+    .from("step_blocks")
+    .select("app_id, apps(organization_id)")
+    .eq("id", blockId)
+    .single()
+
+  if (!block) {
+    return { error: "Step block not found" }
+  }
+
+  const orgId = (block.apps as unknown as { organization_id: string }).organization_id
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", orgId)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin"].includes(membership.role)) {
+    return { error: "Unauthorized" }
+  }
+
+  // Deleting a block in use would fail every story that calls it
+  const usage = [{ call: { kind: "block", id: blockId } }]
+  const [{ count: storyCount }, { count: blockCount }] = await Promise.all([
+    supabase
+      .from("stories")
+      .select("id, journeys!inner(app_id)", { count: "exact", head: true })
+      .eq("journeys.app_id", block.app_id)
+      .contains("steps", usage),
+    supabase
+      .from("step_blocks")
+      .select("id", { count: "exact", head: true })
+      .eq("app_id", block.app_id)
+      .contains("steps", usage),
+  ])
+
+  if (storyCount || blockCount) {
+    const users = [
+      storyCount ? `${storyCount} ${storyCount === 1 ? "story" : "stories"}` : null,
+      blockCount ? `${blockCount} step ${blockCount === 1 ? "block" : "blocks"}` : null,
+    ].filter(Boolean)
+    return { error: `This step block is still called by ${users.join(" and ")}` }
+  }
+
+  const { error } = await supabase
+    .from("step_blocks")
+    .delete()
+    .eq("id", blockId)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath(`/org/${orgId}/apps/${block.app_id}/settings`)
+  return { success: true }
+}
@@ -4,7 +4,17 @@ import { revalidatePath } from "next/cache"
 import { redirect } from "next/navigation"
 import { createClient } from "@/lib/supabase/server"
 import { slugify } from "@/lib/utils"
-import type { StoryStep, StoryOutcome, StoryPrecondition } from "@/lib/types"
+import { validateStoryParameters } from "@/lib/story-parameters"
+import { validatePreconditions } from "@/lib/story-hooks"
+import { getStepCalls, validateSteps } from "@/lib/step-blocks"
+import type {
+  AppSettings,
+  ExecutionMode,
+  StoryParameters,
+  StoryStep,
+  StoryOutcome,
+  StoryPrecondition,
+} from "@/lib/types"
 
 export async function createStory(data: {
   journeyId: string
@@ -94,7 +104,10 @@ export async function updateStory(data: {
   tags?: string[]
   is_enabled?: boolean
   generated_test_code?: string
+  execution_mode?: ExecutionMode
   required_role?: string | null
+  // Null turns a data-driven story back into a single run
+  parameters?: StoryParameters | null
 }) {
   const supabase = await createClient()
 
@@ -108,7 +121,7 @@ export async function updateStory(data: {
   // Get story and verify access
   const { data: story } = await supabase
     .from("stories")
-    .select("journey_id, journeys(app_id, apps(organization_id))")
+    .select("journey_id, generated_test_code, journeys(app_id, apps(organization_id, settings))")
     .eq("id", storyId)
     .single()
 
@@ -116,7 +129,10 @@ export async function updateStory(data: {
     return { error: "Story not found" }
   }
 
-  const journeys = story.journeys as unknown as { app_id: string; apps: { organization_id: string } }
+  const journeys = story.journeys as unknown as {
+    app_id: string
+    apps: { organization_id: string; settings: AppSettings | null }
+  }
   const orgId = journeys.apps.organization_id
 
   const { data: membership } = await supabase
@@ -130,6 +146,71 @@ export async function updateStory(data: {
     return { error: "Unauthorized" }
   }
 
+  if (updateData.parameters) {
+    const parametersError = validateStoryParameters(updateData.parameters)
+    if (parametersError) {
+      return { error: parametersError }
+    }
+  }
+
+  if (updateData.steps) {
+    const stepsError = validateSteps(updateData.steps)
+    if (stepsError) {
+      return { error: stepsError }
+    }
+
+    // Called blocks and stories must belong to the same app
+    const calls = getStepCalls(updateData.steps)
+    if (calls.some((call) => call.kind === "story" && call.id === storyId)) {
+      return { error: "A story can't call itself" }
+    }
+    const blockIds = [...new Set(calls.filter((c) => c.kind === "block").map((c) => c.id))]
+    const calledStoryIds = [...new Set(calls.filter((c) => c.kind === "story").map((c) => c.id))]
+    const [{ data: blocks }, { data: calledStories }] = await Promise.all([
+      supabase.from("step_blocks").select("id").in("id", blockIds).eq("app_id", journeys.app_id),
+      supabase
+        .from("stories")
+        .select("id, journeys!inner(app_id)")
+        .in("id", calledStoryIds)
+        .eq("journeys.app_id", journeys.app_id),
+    ])
+    if ((blocks?.length ?? 0) < blockIds.length || (calledStories?.length ?? 0) < calledStoryIds.length) {
+      return { error: "Called step blocks and stories must belong to this app" }
+    }
+  }
+
+  if (updateData.preconditions) {
+    const fixtureNames = (journeys.apps.settings?.fixtures ?? []).map((f) => f.name)
+    const hooksError = validatePreconditions(updateData.preconditions, fixtureNames)
+    if (hooksError) {
+      return { error: hooksError }
+    }
+
+    // Hook stories must belong to the same app, and not be this story
+    const hookStoryIds = updateData.preconditions
+      .flatMap((p) => [p.setup, p.teardown])
+      .flatMap((hook) => (hook?.kind === "story" ? [hook.storyId] : []))
+    if (hookStoryIds.includes(storyId)) {
+      return { error: "A story can't run itself as a setup or teardown" }
+    }
+    if (hookStoryIds.length > 0) {
+      const { data: hookStories } = await supabase
+        .from("stories")
+        .select("id, journeys!inner(app_id)")
+        .in("id", hookStoryIds)
+        .eq("journeys.app_id", journeys.app_id)
+
+      if ((hookStories?.length ?? 0) < new Set(hookStoryIds).size) {
+        return { error: "Setup and teardown stories must belong to this app" }
+      }
+    }
+  }
+
+  const testCode = updateData.generated_test_code ?? story.generated_test_code
+  if (updateData.execution_mode === "code" && !testCode) {
+    return { error: "Generate test code before running this story from code" }
+  }
+
   const { error } = await supabase
     .from("stories")
     .update(updateData)
@@ -278,3 +359,106 @@ export async function toggleStoryEnabled(storyId: string, enabled: boolean) {
   revalidatePath(`/org/${orgId}/apps/${journeys.app_id}/journeys/${story.journey_id}`)
   return { success: true }
 }
+
+export async function setStoryQuarantine(storyId: string, quarantined: boolean) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  // Get story and verify access
+  const { data: story } = await supabase
+    .from("stories")
+    .select("journey_id, journeys(app_id, apps(organization_id))")
+    .eq("id", storyId)
+    .single()
+
+  if (!story) {
+    return { error: "Story not found" }
+  }
+
+  const journeys = story.journeys as unknown as { app_id: string; apps: { organization_id: string } }
+  const orgId = journeys.apps.organization_id
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", orgId)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin", "member"].includes(membership.role)) {
+    return { error: "Unauthorized" }
+  }
+
+  const { error } = await supabase
+    .from("stories")
+    .update(
+      quarantined
+        ? { quarantined_at: new Date().toISOString(), quarantine_reason: "Quarantined manually" }
+        : { quarantined_at: null, quarantine_reason: null }
+    )
+    .eq("id", storyId)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath(`/org/${orgId}/apps/${journeys.app_id}/journeys/${story.journey_id}`)
+  return { success: true }
+}
+
+// Generated code is arbitrary code, so only owners and admins can let a
+// story run from it. The approval is for the code they
+// reviewed; it fails if the code has changed since.
+export async function approveStoryCode(storyId: string, reviewedCode: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  // Get story and verify access
+  const { data: story } = await supabase
+    .from("stories")
+    .select("journey_id, journeys(app_id, apps(organization_id))")
+    .eq("id", storyId)
+    .single()
+
+  if (!story) {
+    return { error: "Story not found" }
+  }
+
+  const journeys = story.journeys as unknown as { app_id: string; apps: { organization_id: string } }
+  const orgId = journeys.apps.organization_id
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", orgId)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin"].includes(membership.role)) {
+    return { error: "Only owners and admins can approve test code" }
+  }
+
+  // Compared in the database; the spec is too large for a query filter
+  const { data: approved, error } = await supabase.rpc("approve_story_code", {
+    p_story_id: storyId,
+    p_reviewed_code: reviewedCode,
+  })
+
+  if (error) {
+    return { error: error.message }
+  }
+  if (!approved) {
+    return { error: "The test code changed since you reviewed it" }
+  }
+
+  revalidatePath(`/org/${orgId}/apps/${journeys.app_id}/journeys/${story.journey_id}`)
+  return { success: true }
+}
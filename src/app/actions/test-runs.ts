@@ -4,6 +4,8 @@ import { revalidatePath } from "next/cache"
 import { redirect } from "next/navigation"
 import { createClient } from "@/lib/supabase/server"
 import { enqueueTestRun } from "@/lib/queue/client"
+import { pickRunSettings, validateRunSettings } from "@/lib/run-settings"
+import type { RunSettings } from "@/lib/types"
 
 export async function triggerTestRun(formData: FormData) {
   const supabase = await createClient()
@@ -22,6 +24,21 @@ export async function triggerTestRun(formData: FormData) {
   const journeyIds = journeyIdsStr ? journeyIdsStr.split(",").filter(Boolean) : undefined
   const storyIds = storyIdsStr ? storyIdsStr.split(",").filter(Boolean) : undefined
 
+  // Optional overrides of the app settings for this run only
+  const settingsStr = formData.get("settings") as string | null
+  let settings: RunSettings | undefined
+  if (settingsStr) {
+    try {
+      settings = pickRunSettings(JSON.parse(settingsStr))
+    } catch {
+      return { error: "Invalid run settings" }
+    }
+    const settingsError = validateRunSettings(settings)
+    if (settingsError) {
+      return { error: settingsError }
+    }
+  }
+
   // Verify access
   const { data: membership } = await supabase
     .from("organization_members")
@@ -95,6 +112,7 @@ export async function triggerTestRun(formData: FormData) {
       environmentId,
       journeyIds,
       storyIds,
+      settings,
     })
   } catch (error) {
     // Update test run status to failed if queue fails
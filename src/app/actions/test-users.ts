@@ -3,8 +3,14 @@
 import { revalidatePath } from "next/cache"
 import { createClient } from "@/lib/supabase/server"
 import { encrypt, decrypt } from "@/lib/crypto"
+import { validateTotpSecret } from "@/lib/totp"
+import { getTestUserLeases } from "@/lib/queue/client"
 import type { TestUserInput } from "@/lib/types"
 
+// Everything the browser may see; the encrypted secrets never leave the server
+const TEST_USER_COLUMNS =
+  "id, environment_id, role, username, description, is_enabled, has_totp, created_at, updated_at"
+
 export async function createTestUser(data: TestUserInput) {
   const supabase = await createClient()
 
@@ -13,7 +19,7 @@ export async function createTestUser(data: TestUserInput) {
     return { error: "Unauthorized" }
   }
 
-  const { environmentId, role, username, password, description } = data
+  const { environmentId, role, username, password, description, totpSecret } = data
 
   // Get environment and verify access
   const { data: env } = await supabase
@@ -39,10 +45,21 @@ export async function createTestUser(data: TestUserInput) {
     return { error: "Unauthorized" }
   }
 
-  // Encrypt password
+  if (totpSecret) {
+    const totpError = validateTotpSecret(totpSecret)
+    if (totpError) {
+      return { error: `Invalid authenticator secret: ${totpError}` }
+    }
+  }
+
+  // Encrypt password and TOTP secret
   let passwordEncrypted: string
+  let totpSecretEncrypted: string | null = null
   try {
     passwordEncrypted = await encrypt(password)
+    if (totpSecret) {
+      totpSecretEncrypted = await encrypt(totpSecret.trim())
+    }
   } catch (err) {
     return { error: err instanceof Error ? err.message : "Failed to encrypt password" }
   }
@@ -54,14 +71,15 @@ export async function createTestUser(data: TestUserInput) {
       role,
       username,
       password_encrypted: passwordEncrypted,
+      totp_secret_encrypted: totpSecretEncrypted,
       description,
     })
-    .select()
+    .select(TEST_USER_COLUMNS)
     .single()
 
   if (error) {
     if (error.code === "23505") {
-      return { error: `A test user with role "${role}" already exists for this environment` }
+      return { error: `"${username}" is already a test user for role "${role}" in this environment` }
     }
     return { error: error.message }
   }
@@ -77,6 +95,8 @@ export async function updateTestUser(data: {
   password?: string
   description?: string
   is_enabled?: boolean
+  // A new secret replaces the saved one; null removes it
+  totpSecret?: string | null
 }) {
   const supabase = await createClient()
 
@@ -85,7 +105,7 @@ export async function updateTestUser(data: {
     return { error: "Unauthorized" }
   }
 
-  const { testUserId, password, ...updateData } = data
+  const { testUserId, password, totpSecret, ...updateData } = data
 
   // Get test user and verify access
   const { data: testUser } = await supabase
@@ -124,6 +144,20 @@ export async function updateTestUser(data: {
     }
   }
 
+  if (totpSecret === null) {
+    updates.totp_secret_encrypted = null
+  } else if (totpSecret) {
+    const totpError = validateTotpSecret(totpSecret)
+    if (totpError) {
+      return { error: `Invalid authenticator secret: ${totpError}` }
+    }
+    try {
+      updates.totp_secret_encrypted = await encrypt(totpSecret.trim())
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : "Failed to encrypt authenticator secret" }
+    }
+  }
+
   const { error } = await supabase
     .from("test_users")
     .update(updates)
@@ -131,7 +165,7 @@ export async function updateTestUser(data: {
 
   if (error) {
     if (error.code === "23505") {
-      return { error: `A test user with this role already exists for this environment` }
+      return { error: `This username is already a test user for that role in this environment` }
     }
     return { error: error.message }
   }
@@ -220,7 +254,7 @@ export async function getTestUsers(environmentId: string) {
 
   const { data: testUsers, error } = await supabase
     .from("test_users")
-    .select("*")
+    .select(TEST_USER_COLUMNS)
     .eq("environment_id", environmentId)
     .order("role")
 
@@ -293,5 +327,33 @@ export async function getAvailableRoles(environmentId: string) {
     return { error: error.message }
   }
 
-  return { success: true, data: testUsers?.map(u => u.role) || [] }
+  // A role can have several test users in its pool
+  return { success: true, data: [...new Set(testUsers?.map(u => u.role) || [])] }
+}
+
+// Which test users are leased by running stories right now
+export async function getTestUserPoolUsage(environmentId: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  // Only lists users the caller can read
+  const { data: testUsers, error } = await supabase
+    .from("test_users")
+    .select("id")
+    .eq("environment_id", environmentId)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  try {
+    const leases = await getTestUserLeases((testUsers || []).map((u) => u.id))
+    return { success: true, data: leases }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : "Failed to read test user leases" }
+  }
 }
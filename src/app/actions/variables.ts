@@ -0,0 +1,226 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { createClient } from "@/lib/supabase/server"
+import { encrypt } from "@/lib/crypto"
+import { validateVariableName } from "@/lib/variables"
+import type { VariableInput } from "@/lib/types"
+
+// Everything but the encrypted value
+const VARIABLE_COLUMNS = "id, app_id, environment_id, name, value, is_secret, description, created_at, updated_at"
+
+export async function createVariable(data: VariableInput) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  const { appId, environmentId, name, value, isSecret, description } = data
+
+  // Get app and verify access
+  const { data: app } = await supabase
+    .from("apps")
+    .select("organization_id")
+    .eq("id", appId)
+    .single()
+
+  if (!app) {
+    return { error: "App not found" }
+  }
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", app.organization_id)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin", "member"].includes(membership.role)) {
+    return { error: "Unauthorized" }
+  }
+
+  const nameError = validateVariableName(name)
+  if (nameError) {
+    return { error: nameError }
+  }
+  if (!value) {
+    return { error: "A value is required" }
+  }
+
+  if (environmentId) {
+    const { data: env } = await supabase
+      .from("environments")
+      .select("id")
+      .eq("id", environmentId)
+      .eq("app_id", appId)
+      .single()
+
+    if (!env) {
+      return { error: "Environment not found" }
+    }
+  }
+
+  let valueEncrypted: string | null = null
+  if (isSecret) {
+    try {
+      valueEncrypted = await encrypt(value)
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : "Failed to encrypt secret" }
+    }
+  }
+
+  const { data: variable, error } = await supabase
+    .from("variables")
+    .insert({
+      app_id: appId,
+      environment_id: environmentId || null,
+      name,
+      value: isSecret ? null : value,
+      value_encrypted: valueEncrypted,
+      is_secret: isSecret,
+      description,
+    })
+    .select(VARIABLE_COLUMNS)
+    .single()
+
+  if (error) {
+    if (error.code === "23505") {
+      return { error: `A variable named "${name}" already exists for this scope` }
+    }
+    return { error: error.message }
+  }
+
+  revalidatePath(`/org/${app.organization_id}/apps/${appId}/settings`)
+  return { success: true, data: variable }
+}
+
+export async function updateVariable(
+  variableId: string,
+  data: Omit<VariableInput, "appId" | "environmentId">
+) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  // Get variable and verify access
+  const { data: variable } = await supabase
+    .from("variables")
+    .select("app_id, is_secret, apps(organization_id)")
+    .eq("id", variableId)
+    .single()
+
+  if (!variable) {
+    return { error: "Variable not found" }
+  }
+
+  const orgId = (variable.apps as unknown as { organization_id: string }).organization_id
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", orgId)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin", "member"].includes(membership.role)) {
+    return { error: "Unauthorized" }
+  }
+
+  const { name, value, isSecret, description } = data
+
+  const nameError = validateVariableName(name)
+  if (nameError) {
+    return { error: nameError }
+  }
+
+  const updates: Record<string, unknown> = { name, description: description ?? null }
+
+  if (isSecret) {
+    // A secret keeps its saved value unless a new one is given
+    if (value) {
+      try {
+        updates.value_encrypted = await encrypt(value)
+      } catch (err) {
+        return { error: err instanceof Error ? err.message : "Failed to encrypt secret" }
+      }
+    } else if (!variable.is_secret) {
+      return { error: "Enter the secret value" }
+    }
+    updates.value = null
+  } else {
+    // Secrets are never revealed, so making one plain needs a new value
+    if (!value) {
+      return { error: "A value is required" }
+    }
+    updates.value = value
+    updates.value_encrypted = null
+  }
+  updates.is_secret = isSecret
+
+  const { data: updated, error } = await supabase
+    .from("variables")
+    .update(updates)
+    .eq("id", variableId)
+    .select(VARIABLE_COLUMNS)
+    .single()
+
+  if (error) {
+    if (error.code === "23505") {
+      return { error: `A variable named "${name}" already exists for this scope` }
+    }
+    return { error: error.message }
+  }
+
+  revalidatePath(`/org/${orgId}/apps/${variable.app_id}/settings`)
+  return { success: true, data: updated }
+}
+
+export async function deleteVariable(variableId: string) {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: "Unauthorized" }
+  }
+
+  // Get variable and verify access
+  const { data: variable } = await supabase
+    .from("variables")
+    .select("app_id, apps(organization_id)")
+    .eq("id", variableId)
+    .single()
+
+  if (!variable) {
+    return { error: "Variable not found" }
+  }
+
+  const orgId = (variable.apps as unknown as { organization_id: string }).organization_id
+
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("organization_id", orgId)
+    .eq("user_id", user.id)
+    .single()
+
+  if (!membership || !["owner", "admin"].includes(membership.role)) {
+    return { error: "Unauthorized" }
+  }
+
+  const { error } = await supabase
+    .from("variables")
+    .delete()
+    .eq("id", variableId)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath(`/org/${orgId}/apps/${variable.app_id}/settings`)
+  return { success: true }
+}
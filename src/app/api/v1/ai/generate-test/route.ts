@@ -0,0 +1,147 @@
+import { NextResponse } from "next/server"
+import { generateTestCode, regenerateTestCode } from "@/lib/ai/test-generator"
+import { createClient } from "@/lib/supabase/server"
+import { expandSteps } from "@/lib/step-blocks"
+import type { Story } from "@/lib/types"
+
+// Generates Playwright code for a story without saving it, so the
+// caller can review the change before calling updateStory
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+
+    // Verify authentication
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { storyId, fromLastFailure = false } = body as {
+      storyId: string
+      fromLastFailure?: boolean
+    }
+
+    if (!storyId || typeof storyId !== "string") {
+      return NextResponse.json(
+        { error: "storyId is required" },
+        { status: 400 }
+      )
+    }
+
+    // Get story and verify access
+    const { data: story } = await supabase
+      .from("stories")
+      .select("*, journeys(app_id, apps(organization_id))")
+      .eq("id", storyId)
+      .single()
+
+    if (!story) {
+      return NextResponse.json(
+        { error: "Story not found" },
+        { status: 404 }
+      )
+    }
+
+    const journeys = story.journeys as unknown as { app_id: string; apps: { organization_id: string } }
+
+    const { data: membership } = await supabase
+      .from("organization_members")
+      .select("role")
+      .eq("organization_id", journeys.apps.organization_id)
+      .eq("user_id", user.id)
+      .single()
+
+    if (!membership || !["owner", "admin", "member"].includes(membership.role)) {
+      return NextResponse.json(
+        { error: "Access denied to this story" },
+        { status: 403 }
+      )
+    }
+
+    // Generate against the default environment
+    const { data: environments } = await supabase
+      .from("environments")
+      .select("base_url, is_default")
+      .eq("app_id", journeys.app_id)
+      .order("is_default", { ascending: false })
+      .limit(1)
+
+    const baseUrl = environments?.[0]?.base_url
+    if (!baseUrl) {
+      return NextResponse.json(
+        { error: "Add an environment before generating test code" },
+        { status: 400 }
+      )
+    }
+
+    // Generated code can't call blocks, so it gets the steps they run
+    let steps: Story["steps"]
+    try {
+      const expanded = await expandSteps(story.steps, async (call) => {
+        if (call.kind === "block") {
+          const { data: block } = await supabase
+            .from("step_blocks")
+            .select("name, steps")
+            .eq("id", call.id)
+            .eq("app_id", journeys.app_id)
+            .maybeSingle()
+          return block
+        }
+        const { data: called } = await supabase
+          .from("stories")
+          .select("title, steps, journeys!inner(app_id)")
+          .eq("id", call.id)
+          .eq("journeys.app_id", journeys.app_id)
+          .maybeSingle()
+        return called && { name: called.title, steps: called.steps }
+      })
+      steps = expanded.map((s) => s.step)
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : String(error) },
+        { status: 400 }
+      )
+    }
+    const expandedStory = { ...story, steps } as Story
+
+    let code: string
+    if (fromLastFailure) {
+      const { data: lastFailure } = await supabase
+        .from("test_results")
+        .select("error")
+        .eq("story_id", storyId)
+        .eq("status", "failed")
+        .not("error", "is", null)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (!lastFailure) {
+        return NextResponse.json(
+          { error: "This story has no failed runs to regenerate from" },
+          { status: 400 }
+        )
+      }
+
+      code = await regenerateTestCode(expandedStory, baseUrl, lastFailure.error)
+    } else {
+      code = await generateTestCode(expandedStory, baseUrl)
+    }
+
+    return NextResponse.json({
+      code,
+      previousCode: story.generated_test_code || "",
+    })
+  } catch (error) {
+    console.error("Test generation error:", error)
+    // Don't expose internal error details to client
+    return NextResponse.json(
+      { error: "Failed to generate test code" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server"
+import { createClient } from "@supabase/supabase-js"
+import { createHash } from "crypto"
+import { compareRuns, formatRunDiffSummary, getPreviousRunId } from "@/lib/run-diff"
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+export async function GET(request: Request) {
+  try {
+    // Get API key from header
+    const authHeader = request.headers.get("Authorization")
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json(
+        { error: "Missing or invalid API key" },
+        { status: 401 }
+      )
+    }
+
+    const apiKey = authHeader.replace("Bearer ", "")
+    const keyHash = createHash("sha256").update(apiKey).digest("hex")
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Validate API key
+    const { data: apiKeyRecord, error: keyError } = await supabase
+      .from("api_keys")
+      .select("organization_id, expires_at")
+      .eq("key_hash", keyHash)
+      .single()
+
+    if (keyError || !apiKeyRecord) {
+      return NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      )
+    }
+
+    // Check expiration
+    if (
+      apiKeyRecord.expires_at &&
+      new Date(apiKeyRecord.expires_at) < new Date()
+    ) {
+      return NextResponse.json(
+        { error: "API key expired" },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const headId = searchParams.get("head")
+    let baseId = searchParams.get("base")
+
+    if (!headId) {
+      return NextResponse.json(
+        { error: "head is required" },
+        { status: 400 }
+      )
+    }
+
+    // The head run decides the app; the base must belong to the same one
+    const { data: head, error: headError } = await supabase
+      .from("test_runs")
+      .select("id, app_id, environment_id, created_at")
+      .eq("id", headId)
+      .eq("organization_id", apiKeyRecord.organization_id)
+      .single()
+
+    if (headError || !head) {
+      return NextResponse.json(
+        { error: "Test run not found" },
+        { status: 404 }
+      )
+    }
+
+    // Without a base, compare against the previous run on the same environment
+    if (!baseId) {
+      baseId = await getPreviousRunId(supabase, head, head.app_id)
+      if (!baseId) {
+        return NextResponse.json(
+          { error: "No earlier completed run to compare against" },
+          { status: 404 }
+        )
+      }
+    }
+
+    const comparison = await compareRuns(supabase, head.app_id, baseId, headId)
+    if ("error" in comparison) {
+      return NextResponse.json(
+        { error: comparison.error },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      base: comparison.base,
+      head: comparison.head,
+      diff: comparison.diff,
+      summary: formatRunDiffSummary(comparison.diff),
+    })
+  } catch (error) {
+    console.error("API error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
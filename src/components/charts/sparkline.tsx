@@ -0,0 +1,50 @@
+import { cn } from "@/lib/utils"
+
+interface SparklineProps {
+  values: number[]
+  // Range of the y axis; defaults to the range of the values
+  min?: number
+  max?: number
+  className?: string
+  label?: string
+}
+
+const WIDTH = 100
+const HEIGHT = 30
+
+// A line over evenly spaced values, stretched to the width of its container
+export function Sparkline({ values, min, max, className, label }: SparklineProps) {
+  if (values.length === 0) {
+    return <div className={cn("h-12 w-full", className)} />
+  }
+
+  // A single value is drawn as a flat line
+  const series = values.length === 1 ? [values[0], values[0]] : values
+  const low = min ?? Math.min(...series)
+  const high = max ?? Math.max(...series)
+  const range = high - low || 1
+  const points = series.map((value, i) => {
+    const x = (i * WIDTH) / (series.length - 1)
+    const y = HEIGHT - ((value - low) / range) * HEIGHT
+    return `${x.toFixed(2)},${y.toFixed(2)}`
+  })
+
+  return (
+    <svg
+      viewBox={`0 -2 ${WIDTH} ${HEIGHT + 4}`}
+      preserveAspectRatio="none"
+      className={cn("h-12 w-full", className)}
+      role="img"
+      aria-label={label}
+    >
+      <polyline
+        points={points.join(" ")}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={2}
+        strokeLinejoin="round"
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  )
+}
@@ -0,0 +1,124 @@
+import { cn } from "@/lib/utils"
+import type { TrendSeries } from "@/lib/quality-trends"
+
+interface TrendChartProps {
+  series: TrendSeries[]
+  // Labels under the first and last value
+  startLabel: string
+  endLabel: string
+  // Range of the y axis; defaults to 0 up to the largest value
+  min?: number
+  max?: number
+  formatValue: (value: number) => string
+  className?: string
+}
+
+const WIDTH = 100
+const HEIGHT = 40
+
+const SERIES_COLORS = [
+  "text-blue-500",
+  "text-emerald-500",
+  "text-orange-500",
+  "text-purple-500",
+  "text-pink-500",
+]
+
+// Splits a series into runs of consecutive values, so days without data
+// show as gaps instead of lines drawn across them
+function getSegments(values: (number | null)[]): { index: number; value: number }[][] {
+  const segments: { index: number; value: number }[][] = []
+  let current: { index: number; value: number }[] = []
+  values.forEach((value, index) => {
+    if (value == null) {
+      if (current.length > 0) segments.push(current)
+      current = []
+    } else {
+      current.push({ index, value })
+    }
+  })
+  if (current.length > 0) segments.push(current)
+  return segments
+}
+
+// Lines over days, one per series, with a legend when there's more than one
+export function TrendChart({
+  series,
+  startLabel,
+  endLabel,
+  min = 0,
+  max,
+  formatValue,
+  className,
+}: TrendChartProps) {
+  const values = series.flatMap((s) => s.values).filter((v): v is number => v != null)
+  if (values.length === 0) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">No data yet</p>
+  }
+
+  const high = max ?? Math.max(...values)
+  const range = high - min || 1
+  const length = Math.max(...series.map((s) => s.values.length))
+  const x = (index: number) => (length > 1 ? (index * WIDTH) / (length - 1) : WIDTH / 2)
+  const y = (value: number) => HEIGHT - ((value - min) / range) * HEIGHT
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex gap-2">
+        <div className="flex flex-col justify-between text-xs text-muted-foreground text-right w-12 shrink-0">
+          <span>{formatValue(high)}</span>
+          <span>{formatValue(min)}</span>
+        </div>
+        <svg
+          viewBox={`0 -2 ${WIDTH} ${HEIGHT + 4}`}
+          preserveAspectRatio="none"
+          className="h-32 flex-1 border-l border-b"
+        >
+          {series.map((s, i) => (
+            <g key={s.name} className={SERIES_COLORS[i % SERIES_COLORS.length]}>
+              {getSegments(s.values).map((segment) =>
+                segment.length === 1 ? (
+                  <line
+                    key={segment[0].index}
+                    x1={x(segment[0].index) - 0.5}
+                    x2={x(segment[0].index) + 0.5}
+                    y1={y(segment[0].value)}
+                    y2={y(segment[0].value)}
+                    stroke="currentColor"
+                    strokeWidth={3}
+                    strokeLinecap="round"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ) : (
+                  <polyline
+                    key={segment[0].index}
+                    points={segment.map((p) => `${x(p.index).toFixed(2)},${y(p.value).toFixed(2)}`).join(" ")}
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth={2}
+                    strokeLinejoin="round"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                )
+              )}
+            </g>
+          ))}
+        </svg>
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground pl-14">
+        <span>{startLabel}</span>
+        <span>{endLabel}</span>
+      </div>
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-3 pl-14 text-xs">
+          {series.map((s, i) => (
+            <span key={s.name} className="flex items-center gap-1.5">
+              <span className={cn("h-2 w-2 rounded-full bg-current", SERIES_COLORS[i % SERIES_COLORS.length])} />
+              {s.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
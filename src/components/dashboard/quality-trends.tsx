@@ -0,0 +1,186 @@
+import Link from "next/link"
+import { TrendChart } from "@/components/charts/trend-chart"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { formatDuration } from "@/lib/utils"
+import { formatFlakiness } from "@/lib/flakiness"
+import { TREND_DAYS } from "@/lib/quality-trends"
+import type { TrendSeries } from "@/lib/quality-trends"
+import { ShieldAlert } from "lucide-react"
+
+interface QualityTrendsProps {
+  orgId: string
+  appId: string
+  days: string[]
+  passRate: TrendSeries[]
+  duration: TrendSeries
+  failingJourneys: { journey_id: string; title: string; passed: number; failed: number }[]
+  flakyStories: {
+    id: string
+    title: string
+    journey_id: string
+    flakiness_score: number
+    quarantined_at?: string | null
+  }[]
+  coverage: { journey_id: string; title: string; enabled: number; disabled: number }[]
+}
+
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  })
+}
+
+export function QualityTrends({
+  orgId,
+  appId,
+  days,
+  passRate,
+  duration,
+  failingJourneys,
+  flakyStories,
+  coverage,
+}: QualityTrendsProps) {
+  const journeysPath = `/org/${orgId}/apps/${appId}/journeys`
+  const startLabel = formatDay(days[0])
+  const endLabel = formatDay(days[days.length - 1])
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Pass Rate</CardTitle>
+            <CardDescription>Passing results per day by environment, last {TREND_DAYS} days</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TrendChart
+              series={passRate}
+              startLabel={startLabel}
+              endLabel={endLabel}
+              max={1}
+              formatValue={(v) => `${Math.round(v * 100)}%`}
+            />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Run Duration</CardTitle>
+            <CardDescription>Mean duration of finished runs per day, last {TREND_DAYS} days</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TrendChart
+              series={[duration]}
+              startLabel={startLabel}
+              endLabel={endLabel}
+              formatValue={formatDuration}
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>Top Failing Journeys</CardTitle>
+            <CardDescription>Failed results, last {TREND_DAYS} days</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {failingJourneys.length > 0 ? (
+              <div className="space-y-3">
+                {failingJourneys.map((journey) => (
+                  <Link
+                    key={journey.journey_id}
+                    href={`${journeysPath}/${journey.journey_id}`}
+                    className="block space-y-1 group"
+                  >
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="truncate group-hover:underline">{journey.title}</span>
+                      <span className="text-red-600 shrink-0 ml-2">{journey.failed} failed</span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                      <div
+                        className="h-full bg-red-500"
+                        style={{ width: `${(journey.failed / (journey.passed + journey.failed)) * 100}%` }}
+                      />
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No failures</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Flakiest Stories</CardTitle>
+            <CardDescription>By flakiness over their recent runs</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {flakyStories.length > 0 ? (
+              <div className="space-y-2">
+                {flakyStories.map((story) => (
+                  <Link
+                    key={story.id}
+                    href={`${journeysPath}/${story.journey_id}/stories/${story.id}`}
+                    className="flex items-center justify-between gap-2 text-sm group"
+                  >
+                    <span className="flex items-center gap-1.5 min-w-0">
+                      {story.quarantined_at && (
+                        <ShieldAlert className="h-3.5 w-3.5 text-yellow-600 shrink-0" />
+                      )}
+                      <span className="truncate group-hover:underline">{story.title}</span>
+                    </span>
+                    <Badge variant="outline" className="shrink-0">
+                      {formatFlakiness(story.flakiness_score)}
+                    </Badge>
+                  </Link>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No flaky stories</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Coverage</CardTitle>
+            <CardDescription>Enabled and disabled stories per journey</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {coverage.length > 0 ? (
+              <div className="space-y-3">
+                {coverage.map((journey) => {
+                  const total = journey.enabled + journey.disabled
+                  return (
+                    <div key={journey.journey_id} className="space-y-1">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="truncate">{journey.title}</span>
+                        <span className="text-muted-foreground shrink-0 ml-2">
+                          {journey.enabled}/{total}
+                        </span>
+                      </div>
+                      <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                        <div
+                          className="h-full bg-green-500"
+                          style={{ width: total > 0 ? `${(journey.enabled / total) * 100}%` : 0 }}
+                        />
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No journeys yet</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -11,6 +11,7 @@ import {
   Settings,
   ChevronDown,
   Plus,
+  Wrench,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import {
@@ -61,6 +62,11 @@ export function Sidebar({ organizations, user }: SidebarProps) {
           href: `/org/${currentOrgId}/apps/${currentAppId}/runs`,
           icon: Play,
         },
+        {
+          name: "Heals",
+          href: `/org/${currentOrgId}/apps/${currentAppId}/heals`,
+          icon: Wrench,
+        },
         {
           name: "Schedules",
           href: `/org/${currentOrgId}/apps/${currentAppId}/schedules`,
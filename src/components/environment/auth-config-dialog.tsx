@@ -0,0 +1,464 @@
+"use client"
+
+import { useState } from "react"
+import { updateEnvironmentAuthConfig, testEnvironmentLogin } from "@/app/actions/apps"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Separator } from "@/components/ui/separator"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { CheckCircle, Loader2, LogIn, ShieldCheck, XCircle } from "lucide-react"
+import type { AuthConfig, AuthConfigInput, OAuthConfig, OAuthMode, TokenTarget } from "@/lib/types"
+
+interface AuthConfigDialogProps {
+  environmentId: string
+  environmentName: string
+  // Saved config without the encrypted basic auth password
+  authConfig: AuthConfig
+  hasSitePassword: boolean
+  // Roles with an enabled test user
+  roles: string[]
+}
+
+const AUTH_TYPES: { value: AuthConfig["type"]; label: string }[] = [
+  { value: "none", label: "None" },
+  { value: "basic", label: "HTTP basic auth" },
+  { value: "form", label: "Login form" },
+  { value: "oauth", label: "OAuth / SSO" },
+]
+
+interface TextFieldProps {
+  id: string
+  label: string
+  value?: string
+  placeholder?: string
+  hint?: string
+  onChange: (value: string) => void
+}
+
+function TextField({ id, label, value, placeholder, hint, onChange }: TextFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        value={value || ""}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className="font-mono text-sm"
+      />
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+    </div>
+  )
+}
+
+export function AuthConfigDialog({
+  environmentId,
+  environmentName,
+  authConfig,
+  hasSitePassword,
+  roles,
+}: AuthConfigDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [config, setConfig] = useState<AuthConfigInput>(authConfig)
+  const [savedType, setSavedType] = useState(authConfig.type)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const [testRole, setTestRole] = useState(roles[0] || "")
+  const [testing, setTesting] = useState(false)
+  const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null)
+
+  const update = (patch: Partial<AuthConfigInput>) => {
+    setConfig({ ...config, ...patch })
+    setSaved(false)
+  }
+  const updateOAuth = (patch: Partial<OAuthConfig>) =>
+    update({ oauth: { mode: "idp", ...config.oauth, ...patch } })
+
+  const handleSave = async () => {
+    setError(null)
+    setLoading(true)
+
+    const result = await updateEnvironmentAuthConfig(environmentId, config)
+
+    if (result?.error) {
+      setError(result.error)
+    } else {
+      setSaved(true)
+      setSavedType(config.type)
+      setConfig({ ...config, password: undefined })
+    }
+    setLoading(false)
+  }
+
+  const handleTestLogin = async () => {
+    setTestResult(null)
+    setTesting(true)
+
+    const result = await testEnvironmentLogin(environmentId, testRole)
+
+    if (result.error !== undefined) {
+      setTestResult({ success: false, message: result.error })
+    } else if (result.data?.success) {
+      setTestResult({
+        success: true,
+        message: `Signed in as ${testRole}${result.data.url ? `, ended on ${result.data.url}` : ""}`,
+      })
+    } else {
+      setTestResult({ success: false, message: result.data?.error || "Login failed" })
+    }
+    setTesting(false)
+  }
+
+  const oauthMode: OAuthMode = config.oauth?.mode || "idp"
+  const tokenTarget: TokenTarget = config.oauth?.tokenTarget || "header"
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 gap-1.5 text-xs font-medium shrink-0">
+          <ShieldCheck className="h-3.5 w-3.5" />
+          Auth
+          {savedType !== "none" && (
+            <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+              {AUTH_TYPES.find((t) => t.value === savedType)?.label}
+            </Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Authentication</DialogTitle>
+          <DialogDescription>
+            How stories that require a role sign in to {environmentName}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label>Auth type</Label>
+            <Select
+              value={config.type}
+              onValueChange={(v) => update({ type: v as AuthConfig["type"] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AUTH_TYPES.map((t) => (
+                  <SelectItem key={t.value} value={t.value}>
+                    {t.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {config.type === "form" && (
+            <>
+              <TextField
+                id="auth-login-url"
+                label="Login URL"
+                value={config.loginUrl}
+                placeholder="/login"
+                onChange={(v) => update({ loginUrl: v || undefined })}
+              />
+              <TextField
+                id="auth-username-selector"
+                label="Username field selector"
+                value={config.usernameSelector}
+                placeholder='input[name="email"]'
+                onChange={(v) => update({ usernameSelector: v || undefined })}
+              />
+              <TextField
+                id="auth-password-selector"
+                label="Password field selector"
+                value={config.passwordSelector}
+                placeholder='input[type="password"]'
+                onChange={(v) => update({ passwordSelector: v || undefined })}
+              />
+              <TextField
+                id="auth-submit-selector"
+                label="Submit button selector"
+                value={config.submitSelector}
+                placeholder='button[type="submit"]'
+                onChange={(v) => update({ submitSelector: v || undefined })}
+              />
+            </>
+          )}
+
+          {config.type === "oauth" && (
+            <>
+              <div className="space-y-2">
+                <Label>Sign in by</Label>
+                <Select
+                  value={oauthMode}
+                  onValueChange={(v) => updateOAuth({ mode: v as OAuthMode })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="idp">Identity provider login page</SelectItem>
+                    <SelectItem value="token">Injecting a token</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {oauthMode === "idp" ? (
+                <>
+                  <TextField
+                    id="auth-login-url"
+                    label="Login URL"
+                    value={config.loginUrl}
+                    placeholder="/login"
+                    hint="The app page where sign-in starts"
+                    onChange={(v) => update({ loginUrl: v || undefined })}
+                  />
+                  <TextField
+                    id="auth-start-selector"
+                    label="SSO button selector"
+                    value={config.oauth?.startSelector}
+                    placeholder='button:has-text("Sign in with SSO")'
+                    hint="Leave blank if the login URL redirects to the provider"
+                    onChange={(v) => updateOAuth({ startSelector: v || undefined })}
+                  />
+                  <TextField
+                    id="auth-idp-username"
+                    label="Provider username field selector"
+                    value={config.oauth?.idpUsernameSelector}
+                    placeholder='input[type="email"]'
+                    onChange={(v) => updateOAuth({ idpUsernameSelector: v || undefined })}
+                  />
+                  <TextField
+                    id="auth-idp-next"
+                    label="Provider next button selector"
+                    value={config.oauth?.idpNextSelector}
+                    placeholder='input[type="submit"]'
+                    hint="For providers that ask for the password on a second screen"
+                    onChange={(v) => updateOAuth({ idpNextSelector: v || undefined })}
+                  />
+                  <TextField
+                    id="auth-idp-password"
+                    label="Provider password field selector"
+                    value={config.oauth?.idpPasswordSelector}
+                    placeholder='input[type="password"]'
+                    onChange={(v) => updateOAuth({ idpPasswordSelector: v || undefined })}
+                  />
+                  <TextField
+                    id="auth-idp-submit"
+                    label="Provider submit button selector"
+                    value={config.oauth?.idpSubmitSelector}
+                    placeholder='button[type="submit"]'
+                    onChange={(v) => updateOAuth({ idpSubmitSelector: v || undefined })}
+                  />
+                </>
+              ) : (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    The password of the role&apos;s test user is used as the token.
+                  </p>
+                  <div className="space-y-2">
+                    <Label>Send token as</Label>
+                    <Select
+                      value={tokenTarget}
+                      onValueChange={(v) => updateOAuth({ tokenTarget: v as TokenTarget })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="header">Request header</SelectItem>
+                        <SelectItem value="cookie">Cookie</SelectItem>
+                        <SelectItem value="localStorage">localStorage entry</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <TextField
+                    id="auth-token-name"
+                    label={
+                      tokenTarget === "header"
+                        ? "Header name"
+                        : tokenTarget === "cookie"
+                        ? "Cookie name"
+                        : "localStorage key"
+                    }
+                    value={config.oauth?.tokenName}
+                    placeholder={tokenTarget === "header" ? "Authorization" : "access_token"}
+                    onChange={(v) => updateOAuth({ tokenName: v || undefined })}
+                  />
+                  <TextField
+                    id="auth-token-prefix"
+                    label="Token prefix"
+                    value={config.oauth?.tokenPrefix}
+                    placeholder={tokenTarget === "header" && !config.oauth?.tokenName ? "Bearer " : ""}
+                    onChange={(v) => updateOAuth({ tokenPrefix: v || undefined })}
+                  />
+                </>
+              )}
+            </>
+          )}
+
+          {(config.type === "form" || (config.type === "oauth" && oauthMode === "idp")) && (
+            <>
+              <TextField
+                id="auth-otp-selector"
+                label="One-time code field selector"
+                value={config.otpSelector}
+                placeholder='input[autocomplete="one-time-code"]'
+                hint="Filled from the test user's authenticator secret when it appears after sign-in"
+                onChange={(v) => update({ otpSelector: v || undefined })}
+              />
+              {config.otpSelector && (
+                <TextField
+                  id="auth-otp-submit-selector"
+                  label="One-time code submit selector"
+                  value={config.otpSubmitSelector}
+                  placeholder="Press Enter"
+                  onChange={(v) => update({ otpSubmitSelector: v || undefined })}
+                />
+              )}
+            </>
+          )}
+
+          {(config.type === "form" || config.type === "oauth") && (
+            <TextField
+              id="auth-success-indicator"
+              label="Success indicator"
+              value={config.successIndicator}
+              placeholder='[data-testid="user-menu"]'
+              hint="Selector that appears once signed in; without it the worker waits for the page to load"
+              onChange={(v) => update({ successIndicator: v || undefined })}
+            />
+          )}
+
+          <Separator />
+
+          <div className="space-y-3">
+            <div>
+              <p className="text-sm font-medium">Site basic auth</p>
+              <p className="text-xs text-muted-foreground">
+                Sent with every request, e.g. for a staging site behind basic auth.
+                {config.type === "basic" && " Stories that require a role use that role's credentials instead."}
+              </p>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="auth-site-username">Username</Label>
+                <Input
+                  id="auth-site-username"
+                  value={config.username || ""}
+                  onChange={(e) => update({ username: e.target.value || undefined })}
+                  autoComplete="off"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="auth-site-password">Password</Label>
+                <Input
+                  id="auth-site-password"
+                  type="password"
+                  value={config.password || ""}
+                  onChange={(e) => update({ password: e.target.value || undefined })}
+                  placeholder={hasSitePassword ? "Leave blank to keep current" : ""}
+                  autoComplete="new-password"
+                />
+              </div>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-3">
+            <div>
+              <p className="text-sm font-medium">Test login</p>
+              <p className="text-xs text-muted-foreground">
+                Signs in with the saved settings as a test user on the worker
+              </p>
+            </div>
+            {roles.length > 0 ? (
+              <div className="flex gap-2">
+                <Select value={testRole} onValueChange={setTestRole}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="Role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roles.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {role}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleTestLogin}
+                  disabled={testing || !testRole}
+                >
+                  {testing ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <LogIn className="h-4 w-4 mr-2" />
+                  )}
+                  Test Login
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Add an enabled test user to try signing in.
+              </p>
+            )}
+            {testResult && (
+              <Alert variant={testResult.success ? "default" : "destructive"}>
+                <AlertDescription className="flex items-start gap-2 break-all">
+                  {testResult.success ? (
+                    <CheckCircle className="h-4 w-4 text-green-500 shrink-0 mt-0.5" />
+                  ) : (
+                    <XCircle className="h-4 w-4 shrink-0 mt-0.5" />
+                  )}
+                  {testResult.message}
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="items-center">
+          {saved && <p className="text-sm text-muted-foreground mr-auto">Saved</p>}
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Close
+          </Button>
+          <Button onClick={handleSave} disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,7 +1,12 @@
 "use client"
 
-import { useState, useCallback } from "react"
-import { createTestUser, updateTestUser, deleteTestUser } from "@/app/actions/test-users"
+import { useState, useCallback, useEffect } from "react"
+import {
+  createTestUser,
+  updateTestUser,
+  deleteTestUser,
+  getTestUserPoolUsage,
+} from "@/app/actions/test-users"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -48,9 +53,12 @@ import {
   Mail,
   KeyRound,
   UserCog,
-  Info
+  Info,
+  Smartphone,
+  Activity
 } from "lucide-react"
 import type { TestUser } from "@/lib/types"
+import type { TestUserLease } from "@/lib/queue/client"
 
 interface TestUsersManagerProps {
   environmentId: string
@@ -67,6 +75,9 @@ const COMMON_ROLES = [
   { value: "editor", label: "Editor", icon: Pencil, color: "bg-cyan-500/10 text-cyan-600 border-cyan-200 dark:border-cyan-800" },
 ]
 
+// How often to refresh which pooled accounts are in use by running stories
+const POOL_USAGE_POLL_MS = 15000
+
 function getRoleConfig(role: string) {
   return COMMON_ROLES.find(r => r.value === role) || {
     value: role,
@@ -88,16 +99,39 @@ export function TestUsersManager({
   const [username, setUsername] = useState("")
   const [password, setPassword] = useState("")
   const [description, setDescription] = useState("")
+  const [totpSecret, setTotpSecret] = useState("")
+  const [removeTotp, setRemoveTotp] = useState(false)
   const [showPassword, setShowPassword] = useState(false)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [togglingId, setTogglingId] = useState<string | null>(null)
+  const [leases, setLeases] = useState<Record<string, TestUserLease>>({})
+
+  useEffect(() => {
+    let active = true
+
+    async function loadPoolUsage() {
+      const result = await getTestUserPoolUsage(environmentId)
+      if (active && result.data) {
+        setLeases(result.data)
+      }
+    }
+
+    loadPoolUsage()
+    const interval = setInterval(loadPoolUsage, POOL_USAGE_POLL_MS)
+    return () => {
+      active = false
+      clearInterval(interval)
+    }
+  }, [environmentId])
 
   const resetForm = useCallback(() => {
     setRole("")
     setUsername("")
     setPassword("")
     setDescription("")
+    setTotpSecret("")
+    setRemoveTotp(false)
     setShowPassword(false)
     setError(null)
     setEditingUser(null)
@@ -116,6 +150,8 @@ export function TestUsersManager({
     setUsername(user.username)
     setPassword("")
     setDescription(user.description || "")
+    setTotpSecret("")
+    setRemoveTotp(false)
     setOpen(true)
   }, [])
 
@@ -130,6 +166,7 @@ export function TestUsersManager({
         username,
         password: password || undefined,
         description: description || undefined,
+        totpSecret: removeTotp ? null : totpSecret || undefined,
       })
 
       if (result?.error) {
@@ -140,7 +177,13 @@ export function TestUsersManager({
 
       setTestUsers(testUsers.map(u =>
         u.id === editingUser.id
-          ? { ...u, role, username, description: description || undefined }
+          ? {
+              ...u,
+              role,
+              username,
+              description: description || undefined,
+              has_totp: removeTotp ? false : !!totpSecret || u.has_totp,
+            }
           : u
       ))
     } else {
@@ -150,6 +193,7 @@ export function TestUsersManager({
         username,
         password,
         description: description || undefined,
+        totpSecret: totpSecret || undefined,
       })
 
       if (result?.error) {
@@ -191,9 +235,21 @@ export function TestUsersManager({
     setTogglingId(null)
   }
 
-  const existingRoles = testUsers.map(u => u.role)
+  const existingRoles = [...new Set(testUsers.map(u => u.role))]
   const suggestedRoles = COMMON_ROLES.filter(r => !existingRoles.includes(r.value))
 
+  // Enabled accounts per role and how many are leased right now
+  const pools = existingRoles
+    .map((poolRole) => {
+      const members = testUsers.filter(u => u.role === poolRole && u.is_enabled)
+      return {
+        role: poolRole,
+        size: members.length,
+        inUse: members.filter(u => leases[u.id]).length,
+      }
+    })
+    .filter((pool) => pool.size > 0)
+
   return (
     <TooltipProvider delayDuration={300}>
     <div className="space-y-3">
@@ -287,10 +343,16 @@ export function TestUsersManager({
                   list="role-suggestions"
                 />
                 <datalist id="role-suggestions">
+                  {existingRoles.map((r) => (
+                    <option key={r} value={r} />
+                  ))}
                   {suggestedRoles.map((r) => (
                     <option key={r.value} value={r.value} />
                   ))}
                 </datalist>
+                <p className="text-xs text-muted-foreground">
+                  Add several users with the same role so parallel stories don&apos;t share an account
+                </p>
               </div>
 
               {/* Username */}
@@ -353,6 +415,50 @@ export function TestUsersManager({
                 </p>
               </div>
 
+              {/* TOTP Secret */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="totpSecret" className="text-sm font-medium flex items-center gap-1.5">
+                    <Smartphone className="h-3.5 w-3.5 text-muted-foreground" />
+                    Authenticator secret
+                    <span className="text-muted-foreground font-normal">(optional)</span>
+                  </Label>
+                  {editingUser?.has_totp && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-auto px-1 py-0 text-xs text-muted-foreground"
+                      onClick={() => {
+                        setRemoveTotp(!removeTotp)
+                        setTotpSecret("")
+                      }}
+                    >
+                      {removeTotp ? "Keep" : "Remove"}
+                    </Button>
+                  )}
+                </div>
+                <Input
+                  id="totpSecret"
+                  type="password"
+                  value={totpSecret}
+                  onChange={(e) => setTotpSecret(e.target.value)}
+                  placeholder={
+                    removeTotp
+                      ? "Will be removed"
+                      : editingUser?.has_totp
+                      ? "Leave blank to keep current"
+                      : "Base32 secret or otpauth:// URI"
+                  }
+                  disabled={removeTotp}
+                  className="h-10 font-mono"
+                  autoComplete="off"
+                />
+                <p className="text-xs text-muted-foreground">
+                  For two-factor login. Set the one-time code field in the environment&apos;s auth settings.
+                </p>
+              </div>
+
               {/* Description */}
               <div className="space-y-2">
                 <Label htmlFor="description" className="text-sm font-medium flex items-center gap-1.5">
@@ -397,6 +503,22 @@ export function TestUsersManager({
         </Dialog>
       </div>
 
+      {/* Pool usage per role */}
+      {pools.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {pools.map((pool) => (
+            <Badge
+              key={pool.role}
+              variant="outline"
+              className={`text-xs font-normal gap-1 ${pool.inUse === pool.size ? "border-amber-300 text-amber-700 dark:border-amber-700 dark:text-amber-400" : ""}`}
+            >
+              <span className="font-medium">{pool.role}</span>
+              {pool.inUse}/{pool.size} in use
+            </Badge>
+          ))}
+        </div>
+      )}
+
       {/* User List */}
       {testUsers.length > 0 ? (
         <div className="space-y-2">
@@ -426,6 +548,27 @@ export function TestUsersManager({
                     >
                       {user.role}
                     </Badge>
+                    {user.has_totp && (
+                      <Badge variant="secondary" className="text-xs gap-1">
+                        <Smartphone className="h-3 w-3" />
+                        2FA
+                      </Badge>
+                    )}
+                    {leases[user.id] && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Badge variant="secondary" className="text-xs gap-1 bg-emerald-500/10 text-emerald-600">
+                            <Activity className="h-3 w-3" />
+                            In use
+                          </Badge>
+                        </TooltipTrigger>
+                        <TooltipContent side="top" className="text-xs">
+                          {leases[user.id].testRunId ? "Leased by a running test" : "Leased by a test login"}
+                          {" since "}
+                          {new Date(leases[user.id].acquiredAt).toLocaleTimeString()}
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
                     {!user.is_enabled && (
                       <Badge variant="secondary" className="text-xs bg-muted">
                         Disabled
@@ -495,8 +638,8 @@ export function TestUsersManager({
                       <AlertDialogHeader>
                         <AlertDialogTitle>Delete Test User</AlertDialogTitle>
                         <AlertDialogDescription>
-                          Are you sure you want to delete the test user for role <strong>&quot;{user.role}&quot;</strong>?
-                          Stories requiring this role will be skipped during test runs.
+                          Are you sure you want to delete <strong>{user.username}</strong> from role <strong>&quot;{user.role}&quot;</strong>?
+                          If it is the role&apos;s only test user, stories requiring this role will be skipped during test runs.
                         </AlertDialogDescription>
                       </AlertDialogHeader>
                       <AlertDialogFooter>
@@ -0,0 +1,119 @@
+"use client"
+
+import { useState } from "react"
+import { approveHeal, rejectHeal, applyHeal } from "@/app/actions/heals"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Check, Loader2, Wrench, X } from "lucide-react"
+import type { HealStatus } from "@/lib/types"
+
+interface HealActionsProps {
+  healId: string
+  status: HealStatus
+  onStatusChange?: (status: HealStatus) => void
+}
+
+export function HealActions({ healId, status: initialStatus, onStatusChange }: HealActionsProps) {
+  const [status, setStatus] = useState<HealStatus>(initialStatus)
+  const [pending, setPending] = useState<"approve" | "reject" | "apply" | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (
+    action: "approve" | "reject" | "apply",
+    nextStatus: HealStatus
+  ) => {
+    setPending(action)
+    setError(null)
+
+    const result =
+      action === "approve"
+        ? await approveHeal(healId)
+        : action === "reject"
+        ? await rejectHeal(healId)
+        : await applyHeal(healId)
+
+    if (result?.error) {
+      setError(result.error)
+      if ("stale" in result && result.stale) {
+        setStatus("stale")
+        onStatusChange?.("stale")
+      }
+    } else {
+      setStatus(nextStatus)
+      onStatusChange?.(nextStatus)
+    }
+    setPending(null)
+  }
+
+  if (status === "applied" || status === "rejected") {
+    return (
+      <Badge variant={status === "applied" ? "success" : "secondary"}>
+        {status === "applied" ? "Applied" : "Rejected"}
+      </Badge>
+    )
+  }
+
+  // The story changed since the proposal was made
+  if (status === "stale") {
+    return (
+      <div className="space-y-2">
+        <Badge variant="secondary">Stale</Badge>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Button
+          variant="default"
+          size="sm"
+          onClick={() => run("apply", "applied")}
+          disabled={!!pending}
+        >
+          {pending === "apply" ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Wrench className="h-4 w-4 mr-2" />
+          )}
+          Apply Fix
+        </Button>
+        {status === "proposed" && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => run("approve", "approved")}
+            disabled={!!pending}
+          >
+            {pending === "approve" ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Check className="h-4 w-4 mr-2" />
+            )}
+            Approve
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => run("reject", "rejected")}
+          disabled={!!pending}
+        >
+          {pending === "reject" ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <X className="h-4 w-4 mr-2" />
+          )}
+          Reject
+        </Button>
+        {status === "approved" && (
+          <Badge variant="outline" className="self-center">
+            Approved
+          </Badge>
+        )}
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { HealActions } from "@/components/heal/heal-actions"
+import { ExternalLink } from "lucide-react"
+import type { HealHistory, HealStatus } from "@/lib/types"
+
+type HealWithContext = HealHistory & {
+  story?: { title: string; journey_id: string; journey?: { title: string } }
+  result?: { test_run_id: string; error?: string } | null
+}
+
+interface HealReviewListProps {
+  heals: HealWithContext[]
+  orgId: string
+  appId: string
+}
+
+const FILTERS: { value: HealStatus | "all"; label: string }[] = [
+  { value: "proposed", label: "Proposed" },
+  { value: "approved", label: "Approved" },
+  { value: "applied", label: "Applied" },
+  { value: "rejected", label: "Rejected" },
+  { value: "stale", label: "Stale" },
+  { value: "all", label: "All" },
+]
+
+export function HealReviewList({ heals: initialHeals, orgId, appId }: HealReviewListProps) {
+  const [heals, setHeals] = useState(initialHeals)
+  const [filter, setFilter] = useState<HealStatus | "all">("proposed")
+
+  const filteredHeals = heals.filter((h) => filter === "all" || h.status === filter)
+
+  const handleStatusChange = (healId: string, status: HealStatus) => {
+    setHeals(heals.map((h) => (h.id === healId ? { ...h, status } : h)))
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex gap-2">
+        {FILTERS.map((f) => (
+          <Button
+            key={f.value}
+            variant={filter === f.value ? "default" : "outline"}
+            size="sm"
+            onClick={() => setFilter(f.value)}
+          >
+            {f.label} (
+            {f.value === "all"
+              ? heals.length
+              : heals.filter((h) => h.status === f.value).length}
+            )
+          </Button>
+        ))}
+      </div>
+
+      {filteredHeals.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No {filter === "all" ? "" : filter} proposals
+        </p>
+      ) : (
+        filteredHeals.map((heal) => (
+          <Card key={heal.id}>
+            <CardContent className="space-y-4 py-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-medium">{heal.story?.title || "Unknown story"}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {heal.story?.journey?.title}
+                    {heal.target_kind && heal.target_index !== undefined && heal.target_index !== null && (
+                      <>
+                        {" • "}
+                        {heal.target_kind === "step" ? "Step" : "Verification"}{" "}
+                        {heal.target_index + 1}
+                      </>
+                    )}
+                    {" • "}
+                    {new Date(heal.created_at).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge
+                    variant={
+                      heal.confidence >= 0.8
+                        ? "success"
+                        : heal.confidence >= 0.5
+                        ? "warning"
+                        : "secondary"
+                    }
+                  >
+                    {Math.round(heal.confidence * 100)}% confidence
+                  </Badge>
+                  <Badge variant="outline">{heal.proposal_type}</Badge>
+                  {heal.verification_result_id && (
+                    <Badge variant="secondary">Auto-applied after passing rerun</Badge>
+                  )}
+                  {heal.result && (
+                    <Link
+                      href={`/org/${orgId}/apps/${appId}/runs/${heal.result.test_run_id}`}
+                      className="text-muted-foreground hover:text-foreground"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </Link>
+                  )}
+                </div>
+              </div>
+
+              {heal.reasoning && <p className="text-sm">{heal.reasoning}</p>}
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <p className="text-sm font-medium mb-2 text-red-600">Original</p>
+                  <pre className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm font-mono overflow-x-auto">
+                    {heal.original_code}
+                  </pre>
+                </div>
+                <div>
+                  <p className="text-sm font-medium mb-2 text-green-600">Proposed Fix</p>
+                  <pre className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm font-mono overflow-x-auto">
+                    {heal.proposed_code}
+                  </pre>
+                </div>
+              </div>
+
+              <HealActions
+                healId={heal.id}
+                status={heal.status}
+                onStatusChange={(status) => handleStatusChange(heal.id, status)}
+              />
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  )
+}
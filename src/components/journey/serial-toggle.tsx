@@ -0,0 +1,56 @@
+"use client"
+
+import { useState } from "react"
+import { setJourneySerial } from "@/app/actions/journeys"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip"
+
+interface SerialToggleProps {
+  journeyId: string
+  isSerial: boolean
+}
+
+export function SerialToggle({ journeyId, isSerial: initialIsSerial }: SerialToggleProps) {
+  const [isSerial, setIsSerial] = useState(initialIsSerial)
+  const [saving, setSaving] = useState(false)
+
+  const handleChange = async (checked: boolean) => {
+    setSaving(true)
+    const result = await setJourneySerial(journeyId, checked)
+    if (!result?.error) {
+      setIsSerial(checked)
+    }
+    setSaving(false)
+  }
+
+  return (
+    <TooltipProvider delayDuration={300}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="journey-serial"
+              checked={isSerial}
+              disabled={saving}
+              onCheckedChange={handleChange}
+            />
+            <Label htmlFor="journey-serial" className="text-sm cursor-pointer">
+              Run in order
+            </Label>
+          </div>
+        </TooltipTrigger>
+        <TooltipContent side="bottom">
+          <p className="text-xs">
+            Stories in this journey run one at a time, in order, even when the app runs stories in parallel
+          </p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
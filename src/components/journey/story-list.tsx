@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from "react"
 import Link from "next/link"
-import { toggleStoryEnabled, deleteStory } from "@/app/actions/stories"
+import { toggleStoryEnabled, deleteStory, updateStory, setStoryQuarantine } from "@/app/actions/stories"
 import { triggerTestRun } from "@/app/actions/test-runs"
 import { createClient } from "@/lib/supabase/client"
 import { Button } from "@/components/ui/button"
@@ -47,18 +47,34 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip"
 import { Label } from "@/components/ui/label"
+import { TestCodeDialog } from "@/components/story/test-code-dialog"
+import { StoryParametersDialog } from "@/components/story/parameters-dialog"
+import { StoryHooksDialog } from "@/components/story/hooks-dialog"
+import { StoryStepsDialog } from "@/components/story/steps-dialog"
+import { CodeApprovalDialog } from "@/components/story/code-approval-dialog"
 import {
   CheckCircle,
   XCircle,
   Clock,
   MoreVertical,
   Play,
-  Pencil,
   Trash,
   GripVertical,
   Plus,
   Loader2,
+  Code,
+  ListOrdered,
+  Wand2,
+  RefreshCw,
+  Table,
+  Database,
+  ListChecks,
+  ShieldAlert,
+  ShieldCheck,
+  History,
+  BadgeCheck,
 } from "lucide-react"
+import { DEFAULT_QUARANTINE_THRESHOLD, formatFlakiness } from "@/lib/flakiness"
 import type { Story } from "@/lib/types"
 
 interface StoryListProps {
@@ -66,6 +82,8 @@ interface StoryListProps {
   journeyId: string
   orgId: string
   appId: string
+  // Owners and admins approve generated code before it runs
+  canApproveCode: boolean
 }
 
 interface Environment {
@@ -74,7 +92,7 @@ interface Environment {
   is_default: boolean
 }
 
-export function StoryList({ stories, journeyId, orgId, appId }: StoryListProps) {
+export function StoryList({ stories, journeyId, orgId, appId, canApproveCode }: StoryListProps) {
   const [deleteId, setDeleteId] = useState<string | null>(null)
   const [toggling, setToggling] = useState<string | null>(null)
   const [runStoryId, setRunStoryId] = useState<string | null>(null)
@@ -82,6 +100,14 @@ export function StoryList({ stories, journeyId, orgId, appId }: StoryListProps)
   const [selectedEnv, setSelectedEnv] = useState<string>("")
   const [loadingEnvs, setLoadingEnvs] = useState(false)
   const [submitting, setSubmitting] = useState(false)
+  const [codeGeneration, setCodeGeneration] = useState<{
+    storyId: string
+    fromLastFailure: boolean
+  } | null>(null)
+  const [parametersStoryId, setParametersStoryId] = useState<string | null>(null)
+  const [hooksStoryId, setHooksStoryId] = useState<string | null>(null)
+  const [stepsStoryId, setStepsStoryId] = useState<string | null>(null)
+  const [approvalStoryId, setApprovalStoryId] = useState<string | null>(null)
 
   useEffect(() => {
     if (!runStoryId) return
@@ -116,6 +142,13 @@ export function StoryList({ stories, journeyId, orgId, appId }: StoryListProps)
     setToggling(null)
   }
 
+  const handleExecutionModeChange = async (story: Story) => {
+    await updateStory({
+      storyId: story.id,
+      execution_mode: story.execution_mode === "code" ? "steps" : "code",
+    })
+  }
+
   const handleDelete = async () => {
     if (!deleteId) return
     await deleteStory(deleteId)
@@ -138,6 +171,11 @@ export function StoryList({ stories, journeyId, orgId, appId }: StoryListProps)
   }
 
   const runStory = stories.find((s) => s.id === runStoryId)
+  const codeStory = stories.find((s) => s.id === codeGeneration?.storyId)
+  const parametersStory = stories.find((s) => s.id === parametersStoryId) ?? null
+  const hooksStory = stories.find((s) => s.id === hooksStoryId) ?? null
+  const stepsStory = stories.find((s) => s.id === stepsStoryId) ?? null
+  const approvalStory = stories.find((s) => s.id === approvalStoryId) ?? null
 
   if (stories.length === 0) {
     return (
@@ -174,7 +212,39 @@ export function StoryList({ stories, journeyId, orgId, appId }: StoryListProps)
                 <span className="text-sm text-muted-foreground">
                   {index + 1}.
                 </span>
-                <h4 className="font-medium truncate">{story.title}</h4>
+                <Link
+                  href={`/org/${orgId}/apps/${appId}/journeys/${journeyId}/stories/${story.id}`}
+                  className="font-medium truncate hover:underline"
+                >
+                  {story.title}
+                </Link>
+                {story.quarantined_at && (
+                  <TooltipProvider delayDuration={300}>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Badge variant="warning" className="text-xs gap-1 cursor-help">
+                          <ShieldAlert className="h-3 w-3" />
+                          Quarantined
+                        </Badge>
+                      </TooltipTrigger>
+                      <TooltipContent side="top">
+                        <p className="text-xs max-w-xs">
+                          {story.quarantine_reason || "Quarantined"}. Failures don&apos;t count
+                          against test runs.
+                        </p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                )}
+                {story.execution_mode === "code" && (
+                  <Badge
+                    variant={story.code_approved_at ? "outline" : "warning"}
+                    className="text-xs gap-1"
+                  >
+                    <Code className="h-3 w-3" />
+                    {story.code_approved_at ? "Code" : "Code awaiting approval"}
+                  </Badge>
+                )}
                 {story.tags && story.tags.length > 0 && (
                   <div className="flex gap-1">
                     {story.tags.slice(0, 2).map((tag) => (
@@ -187,6 +257,18 @@ export function StoryList({ stories, journeyId, orgId, appId }: StoryListProps)
               </div>
               <div className="flex items-center gap-4 mt-1 text-sm text-muted-foreground">
                 <span>{story.steps?.length || 0} steps</span>
+                {story.parameters && story.parameters.rows.length > 0 && (
+                  <span>{story.parameters.rows.length} parameter rows</span>
+                )}
+                {story.flakiness_score != null && (
+                  <span
+                    className={
+                      story.flakiness_score >= DEFAULT_QUARANTINE_THRESHOLD ? "text-yellow-600" : undefined
+                    }
+                  >
+                    Flakiness {formatFlakiness(story.flakiness_score)}
+                  </span>
+                )}
                 {story.last_run_at && (
                   <span>
                     Last run: {new Date(story.last_run_at).toLocaleDateString()}
@@ -255,14 +337,72 @@ export function StoryList({ stories, journeyId, orgId, appId }: StoryListProps)
                 <DropdownMenuContent align="end">
                   <DropdownMenuItem asChild>
                     <Link href={`/org/${orgId}/apps/${appId}/journeys/${journeyId}/stories/${story.id}`}>
-                      <Pencil className="h-4 w-4 mr-2" />
-                      Edit
+                      <History className="h-4 w-4 mr-2" />
+                      History
                     </Link>
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => setRunStoryId(story.id)}>
                     <Play className="h-4 w-4 mr-2" />
                     Run Test
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setStepsStoryId(story.id)}>
+                    <ListChecks className="h-4 w-4 mr-2" />
+                    Edit steps
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setParametersStoryId(story.id)}>
+                    <Table className="h-4 w-4 mr-2" />
+                    Parameters
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setStoryQuarantine(story.id, !story.quarantined_at)}>
+                    {story.quarantined_at ? (
+                      <>
+                        <ShieldCheck className="h-4 w-4 mr-2" />
+                        Release from quarantine
+                      </>
+                    ) : (
+                      <>
+                        <ShieldAlert className="h-4 w-4 mr-2" />
+                        Quarantine
+                      </>
+                    )}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setHooksStoryId(story.id)}>
+                    <Database className="h-4 w-4 mr-2" />
+                    Setup &amp; teardown
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={() => setCodeGeneration({ storyId: story.id, fromLastFailure: false })}
+                  >
+                    <Wand2 className="h-4 w-4 mr-2" />
+                    Generate Code
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => setCodeGeneration({ storyId: story.id, fromLastFailure: true })}
+                  >
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Regenerate from Last Failure
+                  </DropdownMenuItem>
+                  {canApproveCode && story.generated_test_code && !story.code_approved_at && (
+                    <DropdownMenuItem onClick={() => setApprovalStoryId(story.id)}>
+                      <BadgeCheck className="h-4 w-4 mr-2" />
+                      Approve Code
+                    </DropdownMenuItem>
+                  )}
+                  {story.execution_mode === "code" ? (
+                    <DropdownMenuItem onClick={() => handleExecutionModeChange(story)}>
+                      <ListOrdered className="h-4 w-4 mr-2" />
+                      Run from Steps
+                    </DropdownMenuItem>
+                  ) : (
+                    <DropdownMenuItem
+                      disabled={!story.generated_test_code}
+                      onClick={() => handleExecutionModeChange(story)}
+                    >
+                      <Code className="h-4 w-4 mr-2" />
+                      Run from Generated Code
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem
                     className="text-destructive"
@@ -278,6 +418,37 @@ export function StoryList({ stories, journeyId, orgId, appId }: StoryListProps)
         ))}
       </div>
 
+      {/* Generated Code Review */}
+      <TestCodeDialog
+        storyId={codeGeneration?.storyId ?? null}
+        storyTitle={codeStory?.title}
+        fromLastFailure={codeGeneration?.fromLastFailure ?? false}
+        onClose={() => setCodeGeneration(null)}
+      />
+
+      {/* Generated code approval */}
+      <CodeApprovalDialog story={approvalStory} onClose={() => setApprovalStoryId(null)} />
+
+      {/* Data-driven rows */}
+      <StoryParametersDialog
+        story={parametersStory}
+        onClose={() => setParametersStoryId(null)}
+      />
+
+      {/* Step editing, including call steps */}
+      <StoryStepsDialog
+        story={stepsStory}
+        appId={appId}
+        onClose={() => setStepsStoryId(null)}
+      />
+
+      {/* Data setup and cleanup around the story */}
+      <StoryHooksDialog
+        story={hooksStory}
+        appId={appId}
+        onClose={() => setHooksStoryId(null)}
+      />
+
       {/* Delete Confirmation */}
       <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
         <AlertDialogContent>
@@ -25,6 +25,8 @@ import {
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Plus, Loader2, Calendar } from "lucide-react"
 import cronstrue from "cronstrue"
+import { getNextRuns } from "@/lib/cron"
+import type { MisfirePolicy } from "@/lib/types"
 
 interface CreateScheduleDialogProps {
   appId: string
@@ -41,6 +43,14 @@ const COMMON_SCHEDULES = [
   { label: "Every weekday at 9 AM", cron: "0 9 * * 1-5" },
 ]
 
+const PREVIEW_RUN_COUNT = 5
+
+const MISFIRE_POLICIES: { value: MisfirePolicy; label: string }[] = [
+  { value: "run_once", label: "Run once" },
+  { value: "run_all", label: "Run every missed time" },
+  { value: "skip", label: "Skip" },
+]
+
 const TIMEZONES = [
   "UTC",
   "America/New_York",
@@ -63,6 +73,7 @@ export function CreateScheduleDialog({
   const [environmentId, setEnvironmentId] = useState(environments[0]?.id || "")
   const [cronExpression, setCronExpression] = useState("0 0 * * *")
   const [timezone, setTimezone] = useState("UTC")
+  const [misfirePolicy, setMisfirePolicy] = useState<MisfirePolicy>("run_once")
   const [selectedJourneys, setSelectedJourneys] = useState<string[]>(
     journeys.map((j) => j.id)
   )
@@ -87,6 +98,7 @@ export function CreateScheduleDialog({
     formData.set("name", name)
     formData.set("cronExpression", cronExpression)
     formData.set("timezone", timezone)
+    formData.set("misfirePolicy", misfirePolicy)
     formData.set("journeyIds", selectedJourneys.join(","))
 
     const result = await createSchedule(formData)
@@ -102,6 +114,7 @@ export function CreateScheduleDialog({
     // Reset form
     setName("")
     setCronExpression("0 0 * * *")
+    setMisfirePolicy("run_once")
     setSelectedJourneys(journeys.map((j) => j.id))
   }
 
@@ -113,6 +126,25 @@ export function CreateScheduleDialog({
     }
   }
 
+  const previewRuns = (() => {
+    try {
+      return getNextRuns(cronExpression, timezone, PREVIEW_RUN_COUNT)
+    } catch {
+      return []
+    }
+  })()
+
+  const formatRunTime = (date: Date): string =>
+    date.toLocaleString("en-US", {
+      timeZone: timezone,
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+      timeZoneName: "short",
+    })
+
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
@@ -222,6 +254,39 @@ export function CreateScheduleDialog({
             </Select>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="misfirePolicy">Missed Runs</Label>
+            <Select
+              value={misfirePolicy}
+              onValueChange={(value) => setMisfirePolicy(value as MisfirePolicy)}
+            >
+              <SelectTrigger id="misfirePolicy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MISFIRE_POLICIES.map((policy) => (
+                  <SelectItem key={policy.value} value={policy.value}>
+                    {policy.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              What to do with runs missed while the scheduler was down
+            </p>
+          </div>
+
+          {previewRuns.length > 0 && (
+            <div className="space-y-1">
+              <Label>Next Runs</Label>
+              <ul className="text-xs text-muted-foreground space-y-0.5">
+                {previewRuns.map((run) => (
+                  <li key={run.toISOString()}>{formatRunTime(run)}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label>Journeys to Run</Label>
             <div className="space-y-2 max-h-40 overflow-y-auto border rounded-lg p-3">
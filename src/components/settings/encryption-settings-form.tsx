@@ -0,0 +1,171 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  getCredentialEncryptionStatus,
+  getCredentialReencryptionJob,
+  startCredentialReencryption,
+} from "@/app/actions/apps"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Loader2, LockKeyhole } from "lucide-react"
+import type { ReencryptResult } from "@/lib/queue/client"
+
+interface EncryptionSettingsFormProps {
+  appId: string
+}
+
+interface EncryptionStatus {
+  primaryKeyId: string
+  total: number
+  outdated: number
+  byKey: Record<string, number>
+}
+
+// How often to check on a running re-encryption job
+const JOB_POLL_MS = 2000
+
+export function EncryptionSettingsForm({ appId }: EncryptionSettingsFormProps) {
+  const [status, setStatus] = useState<EncryptionStatus | null>(null)
+  const [jobId, setJobId] = useState<string | null>(null)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [result, setResult] = useState<ReencryptResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadStatus = useCallback(async () => {
+    const response = await getCredentialEncryptionStatus(appId)
+    if (response.error) {
+      setError(response.error)
+    } else if (response.data) {
+      setStatus(response.data)
+    }
+  }, [appId])
+
+  useEffect(() => {
+    loadStatus()
+  }, [loadStatus])
+
+  useEffect(() => {
+    if (!jobId) return
+
+    const interval = setInterval(async () => {
+      const response = await getCredentialReencryptionJob(appId, jobId)
+      if (response.error || !response.data) {
+        setError(response.error ?? "Re-encryption job not found")
+        setJobId(null)
+        return
+      }
+
+      const job = response.data
+      if (typeof job.progress === "object") {
+        setProgress(job.progress)
+      }
+      if (job.state === "completed" || job.state === "failed") {
+        if (job.state === "failed") {
+          setError(`Re-encryption failed: ${job.failedReason}`)
+        }
+        setResult(job.result ?? null)
+        setJobId(null)
+        loadStatus()
+      }
+    }, JOB_POLL_MS)
+
+    return () => clearInterval(interval)
+  }, [appId, jobId, loadStatus])
+
+  const handleReencrypt = async () => {
+    setError(null)
+    setResult(null)
+    setProgress(null)
+
+    const response = await startCredentialReencryption(appId)
+    if (response.error) {
+      setError(response.error)
+    } else if (response.data) {
+      setJobId(response.data.jobId)
+    }
+  }
+
+  const running = jobId !== null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LockKeyhole className="h-5 w-5" />
+          Credential encryption
+        </CardTitle>
+        <CardDescription>
+          Move stored test user passwords, secret variables and environment passwords onto the current encryption key
+          after rotating keys
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {status ? (
+          <div className="space-y-2 text-sm">
+            <p>
+              Current key: <Badge variant="outline" className="font-mono">{status.primaryKeyId}</Badge>
+            </p>
+            {status.total > 0 ? (
+              <div className="flex flex-wrap gap-1.5">
+                {Object.entries(status.byKey).map(([keyId, count]) => (
+                  <Badge
+                    key={keyId}
+                    variant={keyId === status.primaryKeyId ? "secondary" : "outline"}
+                    className="font-normal"
+                  >
+                    <span className="font-mono mr-1">{keyId}</span>
+                    {count} {count === 1 ? "value" : "values"}
+                  </Badge>
+                ))}
+              </div>
+            ) : (
+              <p className="text-muted-foreground">No stored credentials yet</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Older keys must stay in ENCRYPTION_KEYS until no values use them
+            </p>
+          </div>
+        ) : (
+          !error && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        )}
+
+        {result && (
+          <p className="text-sm text-muted-foreground">
+            Re-encrypted {result.reencrypted} {result.reencrypted === 1 ? "value" : "values"}
+            {result.skipped > 0 && `, ${result.skipped} changed meanwhile`}
+            {result.failed > 0 && `, ${result.failed} failed`}
+          </p>
+        )}
+        {result && result.errors.length > 0 && (
+          <ul className="text-xs text-destructive list-disc pl-4 space-y-0.5">
+            {result.errors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        )}
+
+        <Button onClick={handleReencrypt} disabled={running || !status || status.outdated === 0}>
+          {running ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              {progress ? `Re-encrypting ${progress.done}/${progress.total}...` : "Re-encrypting..."}
+            </>
+          ) : status && status.outdated > 0 ? (
+            `Re-encrypt ${status.outdated} ${status.outdated === 1 ? "value" : "values"}`
+          ) : (
+            "Up to date"
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,106 @@
+"use client"
+
+import { useState } from "react"
+import { updateAppSettings } from "@/app/actions/apps"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { RunSettingsFields } from "@/components/settings/run-settings-fields"
+import { resolveRunSettings, validateRunSettings } from "@/lib/run-settings"
+import { Loader2, Play } from "lucide-react"
+import type { AppSettings } from "@/lib/types"
+
+interface ExecutionSettingsFormProps {
+  appId: string
+  settings: AppSettings
+}
+
+const MAX_PARALLELISM = 8
+
+export function ExecutionSettingsForm({ appId, settings }: ExecutionSettingsFormProps) {
+  const [parallelism, setParallelism] = useState(settings.parallelism ?? 1)
+  const [runSettings, setRunSettings] = useState(() => resolveRunSettings(settings))
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const runSettingsError = validateRunSettings(runSettings)
+  const isValid =
+    Number.isInteger(parallelism) &&
+    parallelism >= 1 &&
+    parallelism <= MAX_PARALLELISM &&
+    !runSettingsError
+
+  const handleSave = async () => {
+    setError(null)
+    setSaved(false)
+    setLoading(true)
+
+    const result = await updateAppSettings(appId, { parallelism, ...runSettings })
+
+    if (result?.error) {
+      setError(result.error)
+    } else {
+      setSaved(true)
+    }
+    setLoading(false)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Play className="h-5 w-5" />
+          Execution
+        </CardTitle>
+        <CardDescription>
+          How stories are run during a test run
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="parallelism">Parallel stories</Label>
+          <Input
+            id="parallelism"
+            type="number"
+            min={1}
+            max={MAX_PARALLELISM}
+            value={parallelism}
+            onChange={(e) => setParallelism(Number(e.target.value))}
+            className="w-32"
+          />
+          <p className="text-xs text-muted-foreground">
+            Stories run at once, up to {MAX_PARALLELISM}. Journeys set to run in order always run one story at a time.
+          </p>
+        </div>
+
+        <RunSettingsFields value={runSettings} onChange={setRunSettings} idPrefix="app" />
+        <p className="text-xs text-muted-foreground">
+          {runSettingsError || "These can be overridden when starting a run."}
+        </p>
+
+        <div className="flex items-center gap-3">
+          <Button onClick={handleSave} disabled={loading || !isValid}>
+            {loading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save"
+            )}
+          </Button>
+          {saved && <p className="text-sm text-muted-foreground">Saved</p>}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
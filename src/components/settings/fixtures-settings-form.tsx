@@ -0,0 +1,166 @@
+"use client"
+
+import { useState } from "react"
+import { updateAppSettings } from "@/app/actions/apps"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Database, Loader2, Plus, Trash2 } from "lucide-react"
+import { EMPTY_HTTP_REQUEST, HttpRequestFields } from "./http-request-fields"
+import type { AppSettings, Fixture } from "@/lib/types"
+
+interface FixturesSettingsFormProps {
+  appId: string
+  settings: AppSettings
+}
+
+interface FixtureItem {
+  // Stable React key, since fixtures can be renamed and removed
+  key: number
+  fixture: Fixture
+}
+
+export function FixturesSettingsForm({ appId, settings }: FixturesSettingsFormProps) {
+  const [items, setItems] = useState<FixtureItem[]>(
+    (settings.fixtures ?? []).map((fixture, key) => ({ key, fixture }))
+  )
+  const [nextKey, setNextKey] = useState(items.length)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const updateFixture = (key: number, patch: Partial<Fixture>) => {
+    setSaved(false)
+    setItems(items.map((item) => (item.key === key ? { key, fixture: { ...item.fixture, ...patch } } : item)))
+  }
+
+  const addFixture = () => {
+    setSaved(false)
+    setItems([...items, { key: nextKey, fixture: { name: "", setup: EMPTY_HTTP_REQUEST } }])
+    setNextKey(nextKey + 1)
+  }
+
+  const removeFixture = (key: number) => {
+    setSaved(false)
+    setItems(items.filter((item) => item.key !== key))
+  }
+
+  const handleSave = async () => {
+    setError(null)
+    setSaved(false)
+    setLoading(true)
+
+    const result = await updateAppSettings(appId, {
+      fixtures: items.map((item) => ({ ...item.fixture, name: item.fixture.name.trim() })),
+    })
+
+    if (result?.error) {
+      setError(result.error)
+    } else {
+      setSaved(true)
+    }
+    setLoading(false)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Database className="h-5 w-5" />
+              Fixtures
+            </CardTitle>
+            <CardDescription className="mt-1.5">
+              Named API calls that set up test data before a story and clean it up after.
+              Stories use them from a precondition&apos;s setup.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={addFixture}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {items.length === 0 && (
+          <p className="text-sm text-muted-foreground">No fixtures yet</p>
+        )}
+
+        {items.map(({ key, fixture }) => (
+          <div key={key} className="space-y-3 rounded-lg border p-3">
+            <div className="flex items-center gap-2">
+              <Input
+                aria-label="Fixture name"
+                value={fixture.name}
+                onChange={(e) => updateFixture(key, { name: e.target.value })}
+                placeholder="seeded-order"
+                className="font-mono"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-9 w-9 shrink-0 hover:text-destructive"
+                onClick={() => removeFixture(key)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm">Setup</Label>
+              <HttpRequestFields
+                value={fixture.setup}
+                onChange={(setup) => updateFixture(key, { setup })}
+                idPrefix={`fixture-${key}-setup`}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor={`fixture-${key}-has-teardown`} className="text-sm">
+                Teardown
+              </Label>
+              <Switch
+                id={`fixture-${key}-has-teardown`}
+                checked={!!fixture.teardown}
+                onCheckedChange={(checked) =>
+                  updateFixture(key, { teardown: checked ? { ...EMPTY_HTTP_REQUEST, method: "DELETE" } : undefined })
+                }
+              />
+            </div>
+            {fixture.teardown && (
+              <HttpRequestFields
+                value={fixture.teardown}
+                onChange={(teardown) => updateFixture(key, { teardown })}
+                idPrefix={`fixture-${key}-teardown`}
+              />
+            )}
+          </div>
+        ))}
+
+        <div className="flex items-center gap-3">
+          <Button onClick={handleSave} disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save"
+            )}
+          </Button>
+          {saved && <p className="text-sm text-muted-foreground">Saved</p>}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
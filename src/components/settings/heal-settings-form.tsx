@@ -0,0 +1,143 @@
+"use client"
+
+import { useState } from "react"
+import { updateAppSettings } from "@/app/actions/apps"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Loader2, Wrench } from "lucide-react"
+import type { AppSettings, HealPolicy } from "@/lib/types"
+
+interface HealSettingsFormProps {
+  appId: string
+  settings: AppSettings
+}
+
+const POLICIES: { value: HealPolicy; label: string; description: string }[] = [
+  {
+    value: "off",
+    label: "Off",
+    description: "Failing stories are not sent to the healer",
+  },
+  {
+    value: "propose",
+    label: "Propose only",
+    description: "Fixes are recorded as proposals for review",
+  },
+  {
+    value: "auto-apply",
+    label: "Auto-apply",
+    description: "Confident fixes are applied when a verifying rerun passes",
+  },
+]
+
+const DEFAULT_THRESHOLD = 0.8
+
+export function HealSettingsForm({ appId, settings }: HealSettingsFormProps) {
+  const [policy, setPolicy] = useState<HealPolicy>(settings.healPolicy ?? "propose")
+  const [threshold, setThreshold] = useState(
+    Math.round((settings.autoHealThreshold ?? DEFAULT_THRESHOLD) * 100)
+  )
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const handleSave = async () => {
+    setError(null)
+    setSaved(false)
+    setLoading(true)
+
+    const result = await updateAppSettings(appId, {
+      healPolicy: policy,
+      autoHealThreshold: threshold / 100,
+    })
+
+    if (result?.error) {
+      setError(result.error)
+    } else {
+      setSaved(true)
+    }
+    setLoading(false)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wrench className="h-5 w-5" />
+          Self-healing
+        </CardTitle>
+        <CardDescription>
+          What happens when a story fails and the healer can suggest a fix
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="healPolicy">Heal policy</Label>
+          <Select value={policy} onValueChange={(value) => setPolicy(value as HealPolicy)}>
+            <SelectTrigger id="healPolicy">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {POLICIES.map((p) => (
+                <SelectItem key={p.value} value={p.value}>
+                  {p.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {POLICIES.find((p) => p.value === policy)?.description}
+          </p>
+        </div>
+
+        {policy === "auto-apply" && (
+          <div className="space-y-2">
+            <Label htmlFor="autoHealThreshold">Minimum confidence (%)</Label>
+            <Input
+              id="autoHealThreshold"
+              type="number"
+              min={0}
+              max={100}
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="w-32"
+            />
+            <p className="text-xs text-muted-foreground">
+              Less confident fixes are still recorded as proposals
+            </p>
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <Button onClick={handleSave} disabled={loading || threshold < 0 || threshold > 100}>
+            {loading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save"
+            )}
+          </Button>
+          {saved && <p className="text-sm text-muted-foreground">Saved</p>}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,103 @@
+"use client"
+
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { HTTP_METHODS, formatPairLines, parsePairLines } from "@/lib/story-hooks"
+import type { HttpHookRequest, HttpMethod } from "@/lib/types"
+
+interface HttpRequestFieldsProps {
+  value: HttpHookRequest
+  onChange: (value: HttpHookRequest) => void
+  // Keeps input ids unique when the fields appear more than once
+  idPrefix: string
+}
+
+export const EMPTY_HTTP_REQUEST: HttpHookRequest = { method: "POST", url: "" }
+
+// Editor for an HTTP setup or teardown call, used by fixtures and story hooks
+export function HttpRequestFields({ value, onChange, idPrefix }: HttpRequestFieldsProps) {
+  // Headers and captures are kept as typed so half-written lines aren't dropped
+  const [headersText, setHeadersText] = useState(formatPairLines(value.headers, ": "))
+  const [captureText, setCaptureText] = useState(formatPairLines(value.capture, "="))
+
+  const update = (patch: Partial<HttpHookRequest>) => onChange({ ...value, ...patch })
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Select value={value.method} onValueChange={(method) => update({ method: method as HttpMethod })}>
+          <SelectTrigger id={`${idPrefix}-method`} className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {HTTP_METHODS.map((method) => (
+              <SelectItem key={method} value={method}>
+                {method}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          id={`${idPrefix}-url`}
+          value={value.url}
+          onChange={(e) => update({ url: e.target.value })}
+          placeholder="/api/test/seed or {{env.API_URL}}/users"
+          className="font-mono text-sm"
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}-headers`} className="text-xs">
+          Headers, one &quot;Name: value&quot; per line
+        </Label>
+        <Textarea
+          id={`${idPrefix}-headers`}
+          value={headersText}
+          onChange={(e) => {
+            setHeadersText(e.target.value)
+            update({ headers: parsePairLines(e.target.value, ":") })
+          }}
+          placeholder="Authorization: Bearer {{env.SEED_TOKEN}}"
+          className="font-mono text-xs min-h-[52px]"
+        />
+      </div>
+
+      {value.method !== "GET" && (
+        <div className="space-y-1.5">
+          <Label htmlFor={`${idPrefix}-body`} className="text-xs">
+            Body
+          </Label>
+          <Textarea
+            id={`${idPrefix}-body`}
+            value={value.body ?? ""}
+            onChange={(e) => update({ body: e.target.value || undefined })}
+            placeholder={'{"email": "{{gen.email}}"}'}
+            className="font-mono text-xs min-h-[72px]"
+          />
+        </div>
+      )}
+
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}-capture`} className="text-xs">
+          Capture from the JSON response, one &quot;name=path&quot; per line
+        </Label>
+        <Textarea
+          id={`${idPrefix}-capture`}
+          value={captureText}
+          onChange={(e) => {
+            setCaptureText(e.target.value)
+            update({ capture: parsePairLines(e.target.value, "=") })
+          }}
+          placeholder="orderId=data.id"
+          className="font-mono text-xs min-h-[52px]"
+        />
+        <p className="text-xs text-muted-foreground">
+          Captured values are available to the story as <code>{"{{vars.name}}"}</code>
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+"use client"
+
+import { useState } from "react"
+import { updateAppSettings } from "@/app/actions/apps"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Loader2, ShieldAlert } from "lucide-react"
+import { DEFAULT_QUARANTINE_THRESHOLD, FLAKINESS_WINDOW, MIN_FLAKINESS_RUNS } from "@/lib/flakiness"
+import type { AppSettings } from "@/lib/types"
+
+interface QuarantineSettingsFormProps {
+  appId: string
+  settings: AppSettings
+}
+
+export function QuarantineSettingsForm({ appId, settings }: QuarantineSettingsFormProps) {
+  const [autoQuarantine, setAutoQuarantine] = useState(settings.autoQuarantine ?? false)
+  const [threshold, setThreshold] = useState(
+    Math.round((settings.quarantineThreshold ?? DEFAULT_QUARANTINE_THRESHOLD) * 100)
+  )
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const isValid = threshold > 0 && threshold <= 100
+
+  const handleSave = async () => {
+    setError(null)
+    setSaved(false)
+    setLoading(true)
+
+    const result = await updateAppSettings(appId, {
+      autoQuarantine,
+      quarantineThreshold: threshold / 100,
+    })
+
+    if (result?.error) {
+      setError(result.error)
+    } else {
+      setSaved(true)
+    }
+    setLoading(false)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Flaky Stories
+        </CardTitle>
+        <CardDescription>
+          Quarantined stories still run, but their failures don&apos;t fail the test run
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="autoQuarantine">Auto-quarantine flaky stories</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Flakiness counts passes after retries and outcomes that flip between runs, over
+              the last {FLAKINESS_WINDOW} runs once a story has {MIN_FLAKINESS_RUNS}
+            </p>
+          </div>
+          <Switch id="autoQuarantine" checked={autoQuarantine} onCheckedChange={setAutoQuarantine} />
+        </div>
+
+        {autoQuarantine && (
+          <div className="space-y-2">
+            <Label htmlFor="quarantineThreshold">Quarantine at flakiness (%)</Label>
+            <Input
+              id="quarantineThreshold"
+              type="number"
+              min={1}
+              max={100}
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="w-32"
+            />
+            <p className="text-xs text-muted-foreground">
+              Stories stay quarantined until released from the story list
+            </p>
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <Button onClick={handleSave} disabled={loading || !isValid}>
+            {loading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save"
+            )}
+          </Button>
+          {saved && <p className="text-sm text-muted-foreground">Saved</p>}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,106 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { MAX_RETRY_COUNT, WAIT_UNTIL_OPTIONS } from "@/lib/run-settings"
+import type { NavigationWaitUntil, RunSettings } from "@/lib/types"
+
+interface RunSettingsFieldsProps {
+  value: Required<RunSettings>
+  onChange: (value: Required<RunSettings>) => void
+  // Keeps input ids unique when the fields appear more than once
+  idPrefix?: string
+}
+
+// Browser settings shared by the app settings page and the new run page
+export function RunSettingsFields({ value, onChange, idPrefix = "run" }: RunSettingsFieldsProps) {
+  const update = (patch: Partial<RunSettings>) => onChange({ ...value, ...patch })
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-retry-count`}>Retries per step</Label>
+          <Input
+            id={`${idPrefix}-retry-count`}
+            type="number"
+            min={0}
+            max={MAX_RETRY_COUNT}
+            value={value.retryCount}
+            onChange={(e) => update({ retryCount: Number(e.target.value) })}
+            className="w-32"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-step-timeout`}>Step timeout (seconds)</Label>
+          <Input
+            id={`${idPrefix}-step-timeout`}
+            type="number"
+            min={1}
+            max={300}
+            value={value.stepTimeout / 1000}
+            onChange={(e) => update({ stepTimeout: Math.round(Number(e.target.value) * 1000) })}
+            className="w-32"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Viewport</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            aria-label="Viewport width"
+            type="number"
+            value={value.viewport.width}
+            onChange={(e) =>
+              update({ viewport: { ...value.viewport, width: Number(e.target.value) } })
+            }
+            className="w-28"
+          />
+          <span className="text-sm text-muted-foreground">×</span>
+          <Input
+            aria-label="Viewport height"
+            type="number"
+            value={value.viewport.height}
+            onChange={(e) =>
+              update({ viewport: { ...value.viewport, height: Number(e.target.value) } })
+            }
+            className="w-28"
+          />
+          <span className="text-sm text-muted-foreground">px</span>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Wait for after navigation</Label>
+        <Select
+          value={value.waitUntil}
+          onValueChange={(v) => update({ waitUntil: v as NavigationWaitUntil })}
+        >
+          <SelectTrigger className="w-72">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WAIT_UNTIL_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Switch
+          id={`${idPrefix}-screenshot`}
+          checked={value.screenshotOnFailure}
+          onCheckedChange={(checked) => update({ screenshotOnFailure: checked })}
+        />
+        <Label htmlFor={`${idPrefix}-screenshot`}>Save a screenshot when a step fails</Label>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+"use client"
+
+import { useState } from "react"
+import { updateAppSettings } from "@/app/actions/apps"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { KeyRound, Loader2 } from "lucide-react"
+import type { AppSettings, SessionReuse } from "@/lib/types"
+
+interface SessionSettingsFormProps {
+  appId: string
+  settings: AppSettings
+}
+
+const MODES: { value: SessionReuse; label: string; description: string }[] = [
+  {
+    value: "off",
+    label: "Off",
+    description: "Every story signs in on its own",
+  },
+  {
+    value: "run",
+    label: "Within a test run",
+    description: "Stories with the same role share one sign-in per test run",
+  },
+  {
+    value: "ttl",
+    label: "Across test runs",
+    description: "A role's sign-in is reused by later runs until it expires",
+  },
+]
+
+const DEFAULT_TTL_MINUTES = 30
+const MAX_TTL_MINUTES = 1440
+
+export function SessionSettingsForm({ appId, settings }: SessionSettingsFormProps) {
+  const [mode, setMode] = useState<SessionReuse>(settings.sessionReuse ?? "run")
+  const [ttlMinutes, setTtlMinutes] = useState(settings.sessionTtlMinutes ?? DEFAULT_TTL_MINUTES)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const isValid = Number.isInteger(ttlMinutes) && ttlMinutes >= 1 && ttlMinutes <= MAX_TTL_MINUTES
+
+  const handleSave = async () => {
+    setError(null)
+    setSaved(false)
+    setLoading(true)
+
+    const result = await updateAppSettings(appId, {
+      sessionReuse: mode,
+      sessionTtlMinutes: ttlMinutes,
+    })
+
+    if (result?.error) {
+      setError(result.error)
+    } else {
+      setSaved(true)
+    }
+    setLoading(false)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Sessions
+        </CardTitle>
+        <CardDescription>
+          Reuse signed-in sessions instead of logging in before every story
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="sessionReuse">Reuse sessions</Label>
+          <Select value={mode} onValueChange={(value) => setMode(value as SessionReuse)}>
+            <SelectTrigger id="sessionReuse">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MODES.map((m) => (
+                <SelectItem key={m.value} value={m.value}>
+                  {m.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {MODES.find((m) => m.value === mode)?.description}. A session is dropped
+            as soon as a story is sent back to the login page.
+          </p>
+        </div>
+
+        {mode === "ttl" && (
+          <div className="space-y-2">
+            <Label htmlFor="sessionTtlMinutes">Session lifetime (minutes)</Label>
+            <Input
+              id="sessionTtlMinutes"
+              type="number"
+              min={1}
+              max={MAX_TTL_MINUTES}
+              value={ttlMinutes}
+              onChange={(e) => setTtlMinutes(Number(e.target.value))}
+              className="w-32"
+            />
+            <p className="text-xs text-muted-foreground">
+              Keep this shorter than the app&apos;s own session timeout
+            </p>
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <Button onClick={handleSave} disabled={loading || !isValid}>
+            {loading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save"
+            )}
+          </Button>
+          {saved && <p className="text-sm text-muted-foreground">Saved</p>}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
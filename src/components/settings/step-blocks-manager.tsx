@@ -0,0 +1,228 @@
+"use client"
+
+import { useState } from "react"
+import { createStepBlock, deleteStepBlock, updateStepBlock } from "@/app/actions/step-blocks"
+import { StepsEditor, getCallTargets } from "@/components/story/steps-editor"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Blocks, Loader2, Pencil, Plus, Trash2 } from "lucide-react"
+import { getArgNames } from "@/lib/step-blocks"
+import type { StepBlock, StoryStep } from "@/lib/types"
+
+interface StepBlocksManagerProps {
+  appId: string
+  blocks: StepBlock[]
+  // Stories blocks can call
+  stories: { id: string; title: string; steps: StoryStep[] }[]
+}
+
+export function StepBlocksManager({ appId, blocks: initialBlocks, stories }: StepBlocksManagerProps) {
+  const [blocks, setBlocks] = useState(initialBlocks)
+  const [open, setOpen] = useState(false)
+  const [editing, setEditing] = useState<StepBlock | null>(null)
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const [steps, setSteps] = useState<StoryStep[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [deleteError, setDeleteError] = useState<string | null>(null)
+
+  const openDialog = (block: StepBlock | null) => {
+    setEditing(block)
+    setName(block?.name ?? "")
+    setDescription(block?.description ?? "")
+    setSteps(block?.steps ?? [{ action: "" }])
+    setError(null)
+    setOpen(true)
+  }
+
+  const handleSubmit = async () => {
+    setError(null)
+    setLoading(true)
+
+    const fields = { name, description: description || undefined, steps }
+    const result = editing
+      ? await updateStepBlock(editing.id, fields)
+      : await createStepBlock(appId, fields)
+
+    if (result?.error) {
+      setError(result.error)
+      setLoading(false)
+      return
+    }
+
+    if (result.data) {
+      const saved = result.data as StepBlock
+      setBlocks(
+        editing
+          ? blocks.map((b) => (b.id === saved.id ? saved : b))
+          : [...blocks, saved]
+      )
+    }
+    setOpen(false)
+    setLoading(false)
+  }
+
+  const handleDelete = async (blockId: string) => {
+    setDeleteError(null)
+    const result = await deleteStepBlock(blockId)
+    if (result?.error) {
+      setDeleteError(result.error)
+    } else {
+      setBlocks(blocks.filter((b) => b.id !== blockId))
+    }
+  }
+
+  // A block can call other blocks and stories, but not itself
+  const targets = getCallTargets(
+    blocks.filter((b) => b.id !== editing?.id),
+    stories
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Blocks className="h-5 w-5" />
+              Step Blocks
+            </CardTitle>
+            <CardDescription className="mt-1.5">
+              Steps shared by several stories. Stories run a block with a call step, and pick
+              up changes to it on their next run.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {deleteError && (
+          <Alert variant="destructive">
+            <AlertDescription>{deleteError}</AlertDescription>
+          </Alert>
+        )}
+
+        {blocks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No step blocks yet</p>
+        ) : (
+          [...blocks]
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map((block) => (
+              <div key={block.id} className="flex items-center gap-3 rounded-lg border p-2.5">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{block.name}</span>
+                    <Badge variant="secondary" className="text-xs">
+                      {block.steps.length} steps
+                    </Badge>
+                    {getArgNames(block.steps).map((arg) => (
+                      <Badge key={arg} variant="outline" className="text-xs font-mono">
+                        {arg}
+                      </Badge>
+                    ))}
+                  </div>
+                  {block.description && (
+                    <p className="text-xs text-muted-foreground truncate mt-0.5">
+                      {block.description}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => openDialog(block)}
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 hover:text-destructive"
+                  onClick={() => handleDelete(block.id)}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))
+        )}
+      </CardContent>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Step Block" : "Add Step Block"}</DialogTitle>
+            <DialogDescription>
+              Use <code>{"{{args.name}}"}</code> in a step for a value each calling step fills in
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="blockName">Name</Label>
+                <Input
+                  id="blockName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Open project"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="blockDescription">Description (optional)</Label>
+                <Input
+                  id="blockDescription"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <ScrollArea className="max-h-[50vh] pr-3">
+              <StepsEditor steps={steps} onChange={setSteps} targets={targets} />
+            </ScrollArea>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={loading || !name.trim() || steps.length === 0}>
+              {loading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
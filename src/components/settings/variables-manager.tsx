@@ -0,0 +1,286 @@
+"use client"
+
+import { useState } from "react"
+import { createVariable, updateVariable, deleteVariable } from "@/app/actions/variables"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Braces, Loader2, Lock, Pencil, Plus, Trash2 } from "lucide-react"
+import { GENERATOR_NAMES } from "@/lib/variables"
+import type { Variable } from "@/lib/types"
+
+interface VariablesManagerProps {
+  appId: string
+  environments: { id: string; name: string }[]
+  variables: Variable[]
+}
+
+// Select value for app-level variables, which have no environment
+const ALL_ENVIRONMENTS = "all"
+
+export function VariablesManager({
+  appId,
+  environments,
+  variables: initialVariables,
+}: VariablesManagerProps) {
+  const [variables, setVariables] = useState(initialVariables)
+  const [open, setOpen] = useState(false)
+  const [editing, setEditing] = useState<Variable | null>(null)
+  const [scope, setScope] = useState(ALL_ENVIRONMENTS)
+  const [name, setName] = useState("")
+  const [value, setValue] = useState("")
+  const [isSecret, setIsSecret] = useState(false)
+  const [description, setDescription] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const openDialog = (variable: Variable | null) => {
+    setEditing(variable)
+    setScope(variable?.environment_id ?? ALL_ENVIRONMENTS)
+    setName(variable?.name ?? "")
+    setValue(variable?.value ?? "")
+    setIsSecret(variable?.is_secret ?? false)
+    setDescription(variable?.description ?? "")
+    setError(null)
+    setOpen(true)
+  }
+
+  const handleSubmit = async () => {
+    setError(null)
+    setLoading(true)
+
+    const fields = { name, value: value || undefined, isSecret, description: description || undefined }
+    const result = editing
+      ? await updateVariable(editing.id, fields)
+      : await createVariable({
+          appId,
+          environmentId: scope === ALL_ENVIRONMENTS ? null : scope,
+          ...fields,
+        })
+
+    if (result?.error) {
+      setError(result.error)
+      setLoading(false)
+      return
+    }
+
+    if (result.data) {
+      const saved = result.data as Variable
+      setVariables(
+        editing
+          ? variables.map((v) => (v.id === saved.id ? saved : v))
+          : [...variables, saved]
+      )
+    }
+    setOpen(false)
+    setLoading(false)
+  }
+
+  const handleDelete = async (variableId: string) => {
+    const result = await deleteVariable(variableId)
+    if (!result?.error) {
+      setVariables(variables.filter((v) => v.id !== variableId))
+    }
+  }
+
+  const scopes = [
+    { id: null, name: "All environments" },
+    ...environments,
+  ].map((s) => ({
+    ...s,
+    variables: variables
+      .filter((v) => v.environment_id === s.id)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  }))
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Braces className="h-5 w-5" />
+              Variables
+            </CardTitle>
+            <CardDescription className="mt-1.5">
+              Use <code>{"{{env.NAME}}"}</code> in step values and verifications. Environment
+              values override app-wide ones.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {variables.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No variables yet</p>
+        ) : (
+          scopes
+            .filter((s) => s.variables.length > 0)
+            .map((s) => (
+              <div key={s.id ?? ALL_ENVIRONMENTS} className="space-y-2">
+                <h4 className="text-sm font-medium">{s.name}</h4>
+                {s.variables.map((variable) => (
+                  <div
+                    key={variable.id}
+                    className="flex items-center gap-3 rounded-lg border p-2.5"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <code className="text-sm font-medium">{variable.name}</code>
+                        {variable.is_secret && (
+                          <Badge variant="secondary" className="text-xs gap-1">
+                            <Lock className="h-3 w-3" />
+                            Secret
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate mt-0.5">
+                        {variable.is_secret ? "••••••" : variable.value}
+                        {variable.description && ` · ${variable.description}`}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => openDialog(variable)}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 hover:text-destructive"
+                      onClick={() => handleDelete(variable.id)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ))
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Generated values: {GENERATOR_NAMES.map((g) => `{{gen.${g}}}`).join(", ")}. A capture
+          step (action &quot;capture&quot;, value = a name) saves an element&apos;s text for later
+          steps as <code>{"{{vars.name}}"}</code>.
+        </p>
+      </CardContent>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Variable" : "Add Variable"}</DialogTitle>
+            <DialogDescription>
+              Secrets are encrypted and masked in test results
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="variableScope">Environment</Label>
+              <Select value={scope} onValueChange={setScope} disabled={!!editing}>
+                <SelectTrigger id="variableScope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_ENVIRONMENTS}>All environments</SelectItem>
+                  {environments.map((env) => (
+                    <SelectItem key={env.id} value={env.id}>
+                      {env.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="variableName">Name</Label>
+              <Input
+                id="variableName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="API_USER"
+                className="font-mono"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="variableValue">Value</Label>
+              <Input
+                id="variableValue"
+                type={isSecret ? "password" : "text"}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={editing?.is_secret && isSecret ? "Leave blank to keep current" : ""}
+                autoComplete="off"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="variableSecret">Secret</Label>
+              <Switch id="variableSecret" checked={isSecret} onCheckedChange={setIsSecret} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="variableDescription">Description (optional)</Label>
+              <Input
+                id="variableDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={loading || !name || (!value && !(editing?.is_secret && isSecret))}
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,121 @@
+"use client"
+
+import { useState } from "react"
+import { updateAppSettings } from "@/app/actions/apps"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Eye, Loader2 } from "lucide-react"
+import type { AppSettings, LowConfidencePolicy } from "@/lib/types"
+
+interface VerificationSettingsFormProps {
+  appId: string
+  settings: AppSettings
+}
+
+const POLICIES: { value: LowConfidencePolicy; label: string; description: string }[] = [
+  {
+    value: "fail",
+    label: "Fail",
+    description: "Uncertain visual checks fail the story",
+  },
+  {
+    value: "warn",
+    label: "Pass with warning",
+    description: "Uncertain visual checks pass but are flagged for review",
+  },
+  {
+    value: "trust",
+    label: "Use the inspector's verdict",
+    description: "Uncertain visual checks pass or fail as the inspector decided",
+  },
+]
+
+export function VerificationSettingsForm({ appId, settings }: VerificationSettingsFormProps) {
+  const [policy, setPolicy] = useState<LowConfidencePolicy>(
+    settings.visualLowConfidencePolicy ?? "fail"
+  )
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const handleSave = async () => {
+    setError(null)
+    setSaved(false)
+    setLoading(true)
+
+    const result = await updateAppSettings(appId, { visualLowConfidencePolicy: policy })
+
+    if (result?.error) {
+      setError(result.error)
+    } else {
+      setSaved(true)
+    }
+    setLoading(false)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Eye className="h-5 w-5" />
+          Visual verification
+        </CardTitle>
+        <CardDescription>
+          Visual verifications are checked by AI from a screenshot of the page
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="visualLowConfidencePolicy">When confidence is low</Label>
+          <Select
+            value={policy}
+            onValueChange={(value) => setPolicy(value as LowConfidencePolicy)}
+          >
+            <SelectTrigger id="visualLowConfidencePolicy">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {POLICIES.map((p) => (
+                <SelectItem key={p.value} value={p.value}>
+                  {p.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {POLICIES.find((p) => p.value === policy)?.description}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Button onClick={handleSave} disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save"
+            )}
+          </Button>
+          {saved && <p className="text-sm text-muted-foreground">Saved</p>}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
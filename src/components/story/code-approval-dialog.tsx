@@ -0,0 +1,89 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { approveStoryCode } from "@/app/actions/stories"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Loader2 } from "lucide-react"
+import type { Story } from "@/lib/types"
+
+interface CodeApprovalDialogProps {
+  story: Pick<Story, "id" | "title" | "generated_test_code"> | null
+  onClose: () => void
+}
+
+export function CodeApprovalDialog({ story, onClose }: CodeApprovalDialogProps) {
+  const [approving, setApproving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setError(null)
+  }, [story])
+
+  const handleApprove = async () => {
+    if (!story?.generated_test_code) return
+    setApproving(true)
+    setError(null)
+
+    const result = await approveStoryCode(story.id, story.generated_test_code)
+    if (result?.error) {
+      setError(result.error)
+      setApproving(false)
+      return
+    }
+
+    setApproving(false)
+    onClose()
+  }
+
+  return (
+    <Dialog open={!!story} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Approve Test Code</DialogTitle>
+          <DialogDescription>
+            &quot;{story?.title}&quot; runs this spec on the worker. Approve it only if you&apos;ve
+            read it; any change to the code needs a new approval.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <ScrollArea className="h-[60vh] border rounded-lg">
+          <pre className="p-3 text-xs font-mono whitespace-pre-wrap break-all">
+            {story?.generated_test_code}
+          </pre>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={approving}>
+            Cancel
+          </Button>
+          <Button onClick={handleApprove} disabled={approving || !story?.generated_test_code}>
+            {approving ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Approving...
+              </>
+            ) : (
+              "Approve"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,317 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { updateStory } from "@/app/actions/stories"
+import { createClient } from "@/lib/supabase/client"
+import { EMPTY_HTTP_REQUEST, HttpRequestFields } from "@/components/settings/http-request-fields"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import type { AppSettings, Story, StoryHook, StoryPrecondition } from "@/lib/types"
+
+interface StoryHooksDialogProps {
+  story: Pick<Story, "id" | "title" | "preconditions"> | null
+  appId: string
+  onClose: () => void
+}
+
+interface HookStoryOption {
+  id: string
+  title: string
+  journey: { title: string }
+}
+
+interface PreconditionItem {
+  // Stable React key, since preconditions can be removed
+  key: number
+  precondition: StoryPrecondition
+}
+
+// Select value for a precondition phase with nothing to run
+const NO_HOOK = "none"
+
+const HOOK_KINDS: { value: StoryHook["kind"]; label: string }[] = [
+  { value: "http", label: "HTTP request" },
+  { value: "fixture", label: "Fixture" },
+  { value: "story", label: "Another story" },
+]
+
+function emptyHook(kind: StoryHook["kind"]): StoryHook {
+  if (kind === "http") return { kind, request: EMPTY_HTTP_REQUEST }
+  if (kind === "fixture") return { kind, fixture: "" }
+  return { kind, storyId: "" }
+}
+
+interface HookFieldsProps {
+  label: string
+  hook: StoryHook | undefined
+  onChange: (hook: StoryHook | undefined) => void
+  fixtureNames: string[]
+  stories: HookStoryOption[]
+  idPrefix: string
+}
+
+function HookFields({ label, hook, onChange, fixtureNames, stories, idPrefix }: HookFieldsProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={`${idPrefix}-kind`} className="text-sm">
+          {label}
+        </Label>
+        <Select
+          value={hook?.kind ?? NO_HOOK}
+          onValueChange={(kind) =>
+            onChange(kind === NO_HOOK ? undefined : emptyHook(kind as StoryHook["kind"]))
+          }
+        >
+          <SelectTrigger id={`${idPrefix}-kind`} className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_HOOK}>Nothing</SelectItem>
+            {HOOK_KINDS.map((k) => (
+              <SelectItem key={k.value} value={k.value}>
+                {k.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {hook?.kind === "http" && (
+        <HttpRequestFields
+          value={hook.request}
+          onChange={(request) => onChange({ kind: "http", request })}
+          idPrefix={idPrefix}
+        />
+      )}
+      {hook?.kind === "fixture" && (
+        fixtureNames.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No fixtures yet. Add them in the app settings.
+          </p>
+        ) : (
+          <Select
+            value={hook.fixture}
+            onValueChange={(fixture) => onChange({ kind: "fixture", fixture })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a fixture" />
+            </SelectTrigger>
+            <SelectContent>
+              {fixtureNames.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )
+      )}
+      {hook?.kind === "story" && (
+        <Select
+          value={hook.storyId}
+          onValueChange={(storyId) => onChange({ kind: "story", storyId })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Choose a story" />
+          </SelectTrigger>
+          <SelectContent>
+            {stories.map((s) => (
+              <SelectItem key={s.id} value={s.id}>
+                {s.journey.title} / {s.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  )
+}
+
+export function StoryHooksDialog({ story, appId, onClose }: StoryHooksDialogProps) {
+  const [items, setItems] = useState<PreconditionItem[]>([])
+  const [nextKey, setNextKey] = useState(0)
+  const [fixtureNames, setFixtureNames] = useState<string[]>([])
+  const [stories, setStories] = useState<HookStoryOption[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!story) return
+    const preconditions = story.preconditions ?? []
+    setItems(preconditions.map((precondition, key) => ({ key, precondition })))
+    setNextKey(preconditions.length)
+    setError(null)
+
+    async function loadOptions() {
+      setLoading(true)
+      const supabase = createClient()
+      const [{ data: app }, { data: appStories }] = await Promise.all([
+        supabase.from("apps").select("settings").eq("id", appId).single(),
+        supabase
+          .from("stories")
+          .select("id, title, journey:journeys!inner(title, app_id)")
+          .eq("journey.app_id", appId)
+          .order("title"),
+      ])
+
+      setFixtureNames(((app?.settings as AppSettings | null)?.fixtures ?? []).map((f) => f.name))
+      setStories(
+        ((appStories || []) as unknown as HookStoryOption[]).filter((s) => s.id !== story?.id)
+      )
+      setLoading(false)
+    }
+
+    loadOptions()
+  }, [story, appId])
+
+  const updatePrecondition = (key: number, patch: Partial<StoryPrecondition>) => {
+    setItems(items.map((item) =>
+      item.key === key ? { key, precondition: { ...item.precondition, ...patch } } : item
+    ))
+  }
+
+  const addPrecondition = () => {
+    setItems([...items, { key: nextKey, precondition: { description: "", type: "data" } }])
+    setNextKey(nextKey + 1)
+  }
+
+  const handleSave = async () => {
+    if (!story) return
+    setSaving(true)
+    setError(null)
+
+    const result = await updateStory({
+      storyId: story.id,
+      preconditions: items.map((item) => item.precondition),
+    })
+    if (result?.error) {
+      setError(result.error)
+      setSaving(false)
+      return
+    }
+
+    setSaving(false)
+    onClose()
+  }
+
+  return (
+    <Dialog open={!!story} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Setup &amp; Teardown</DialogTitle>
+          <DialogDescription>
+            Prepare data before &quot;{story?.title}&quot; runs and clean it up afterwards. If a
+            setup fails, the story is skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <div className="space-y-4">
+              {items.length === 0 && (
+                <p className="text-sm text-muted-foreground">No preconditions</p>
+              )}
+              {items.map(({ key, precondition }) => (
+                <div key={key} className="space-y-3 rounded-lg border p-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      aria-label="Precondition"
+                      value={precondition.description}
+                      onChange={(e) => updatePrecondition(key, { description: e.target.value })}
+                      placeholder="An order exists for the buyer"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-9 w-9 shrink-0 hover:text-destructive"
+                      onClick={() => setItems(items.filter((item) => item.key !== key))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <HookFields
+                    label="Setup"
+                    hook={precondition.setup}
+                    onChange={(setup) => updatePrecondition(key, { setup })}
+                    fixtureNames={fixtureNames}
+                    stories={stories}
+                    idPrefix={`precondition-${key}-setup`}
+                  />
+                  <HookFields
+                    label="Teardown"
+                    hook={precondition.teardown}
+                    onChange={(teardown) => updatePrecondition(key, { teardown })}
+                    fixtureNames={fixtureNames}
+                    stories={stories}
+                    idPrefix={`precondition-${key}-teardown`}
+                  />
+                  {precondition.setup?.kind === "fixture" && !precondition.teardown && (
+                    <p className="text-xs text-muted-foreground">
+                      The fixture&apos;s own teardown runs after the story
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button variant="ghost" onClick={addPrecondition} disabled={loading}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add precondition
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || loading || items.some((item) => !item.precondition.description.trim())}
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save"
+              )}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,202 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { updateStory } from "@/app/actions/stories"
+import {
+  MAX_PARAMETER_ROWS,
+  LABEL_COLUMN,
+  formatParameterTable,
+  getParameterRowLabel,
+  parseParameterTable,
+} from "@/lib/story-parameters"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Loader2, Upload } from "lucide-react"
+import type { Story, StoryParameters } from "@/lib/types"
+
+interface StoryParametersDialogProps {
+  story: Pick<Story, "id" | "title" | "parameters" | "execution_mode"> | null
+  onClose: () => void
+}
+
+// Rows shown in the preview; the rest are summarized
+const PREVIEW_ROWS = 10
+
+export function StoryParametersDialog({ story, onClose }: StoryParametersDialogProps) {
+  const [text, setText] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!story) return
+    setText(story.parameters ? formatParameterTable(story.parameters) : "")
+    setError(null)
+  }, [story])
+
+  const parsed = useMemo((): { table?: StoryParameters; error?: string } => {
+    if (!text.trim()) return {}
+    try {
+      return { table: parseParameterTable(text) }
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) }
+    }
+  }, [text])
+
+  const handleUpload = async (file: File | undefined) => {
+    if (file) {
+      setText(await file.text())
+    }
+  }
+
+  const handleSave = async (parameters: StoryParameters | null) => {
+    if (!story) return
+    setSaving(true)
+    setError(null)
+
+    const result = await updateStory({ storyId: story.id, parameters })
+    if (result?.error) {
+      setError(result.error)
+      setSaving(false)
+      return
+    }
+
+    setSaving(false)
+    onClose()
+  }
+
+  return (
+    <Dialog open={!!story} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Parameters</DialogTitle>
+          <DialogDescription>
+            Run &quot;{story?.title}&quot; once per row, with each column available as{" "}
+            <code>{"{{param.column}}"}</code> in steps and verifications
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {story?.execution_mode === "code" && (
+            <Alert>
+              <AlertDescription>
+                This story runs from generated code, which ignores parameters. Switch it back to
+                steps to run each row.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="parameterTable">CSV with a header row, or a JSON array of objects</Label>
+            <Button variant="outline" size="sm" asChild>
+              <label className="cursor-pointer">
+                <Upload className="h-4 w-4 mr-2" />
+                Import file
+                <input
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    handleUpload(e.target.files?.[0])
+                    e.target.value = ""
+                  }}
+                />
+              </label>
+            </Button>
+          </div>
+          <Textarea
+            id="parameterTable"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={"label,card,locale\nVisa,4242424242424242,en-US\nMastercard,5555555555554444,de-DE"}
+            className="font-mono text-xs min-h-[120px]"
+          />
+          <p className="text-xs text-muted-foreground">
+            Up to {MAX_PARAMETER_ROWS} rows. A &quot;{LABEL_COLUMN}&quot; column names each row in
+            test results.
+          </p>
+
+          {parsed.error && <p className="text-sm text-destructive">{parsed.error}</p>}
+          {parsed.table && (
+            <ScrollArea className="max-h-56 rounded-md border">
+              <table className="w-full text-xs">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-2 py-1.5 text-left font-medium">Row</th>
+                    {parsed.table.columns.map((column) => (
+                      <th key={column} className="px-2 py-1.5 text-left font-mono font-medium">
+                        {column}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {parsed.table.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                    <tr key={i} className="border-t">
+                      <td className="px-2 py-1.5 text-muted-foreground">
+                        {getParameterRowLabel(parsed.table!, i)}
+                      </td>
+                      {parsed.table!.columns.map((column) => (
+                        <td key={column} className="px-2 py-1.5 font-mono">
+                          {row[column]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {parsed.table.rows.length > PREVIEW_ROWS && (
+                <p className="px-2 py-1.5 text-xs text-muted-foreground border-t">
+                  and {parsed.table.rows.length - PREVIEW_ROWS} more rows
+                </p>
+              )}
+            </ScrollArea>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button
+            variant="ghost"
+            onClick={() => handleSave(null)}
+            disabled={saving || !story?.parameters}
+          >
+            Remove parameters
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => parsed.table && handleSave(parsed.table)}
+              disabled={saving || !parsed.table}
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                `Save ${parsed.table?.rows.length ?? 0} rows`
+              )}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
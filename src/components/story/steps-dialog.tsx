@@ -0,0 +1,127 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { updateStory } from "@/app/actions/stories"
+import { createClient } from "@/lib/supabase/client"
+import { StepsEditor, getCallTargets } from "@/components/story/steps-editor"
+import type { CallTargetOption } from "@/components/story/steps-editor"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Loader2 } from "lucide-react"
+import type { Story, StoryStep } from "@/lib/types"
+
+interface StoryStepsDialogProps {
+  story: Pick<Story, "id" | "title" | "steps" | "execution_mode"> | null
+  appId: string
+  onClose: () => void
+}
+
+export function StoryStepsDialog({ story, appId, onClose }: StoryStepsDialogProps) {
+  const [steps, setSteps] = useState<StoryStep[]>([])
+  const [targets, setTargets] = useState<CallTargetOption[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!story) return
+    setSteps(story.steps ?? [])
+    setError(null)
+
+    async function loadTargets() {
+      setLoading(true)
+      const supabase = createClient()
+      const [{ data: blocks }, { data: stories }] = await Promise.all([
+        supabase.from("step_blocks").select("id, name, steps").eq("app_id", appId).order("name"),
+        supabase
+          .from("stories")
+          .select("id, title, steps, journeys!inner(app_id)")
+          .eq("journeys.app_id", appId)
+          .neq("id", story!.id)
+          .order("title"),
+      ])
+      setTargets(getCallTargets(blocks || [], stories || []))
+      setLoading(false)
+    }
+
+    loadTargets()
+  }, [story, appId])
+
+  const handleSave = async () => {
+    if (!story) return
+    setSaving(true)
+    setError(null)
+
+    const result = await updateStory({ storyId: story.id, steps })
+    if (result?.error) {
+      setError(result.error)
+      setSaving(false)
+      return
+    }
+
+    setSaving(false)
+    onClose()
+  }
+
+  return (
+    <Dialog open={!!story} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Steps</DialogTitle>
+          <DialogDescription>
+            Edit the steps of &quot;{story?.title}&quot;. A call step runs a step block or another
+            story in its place.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {story?.execution_mode === "code" && (
+          <Alert>
+            <AlertDescription>
+              This story runs from generated code. Regenerate it to pick up step changes.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <StepsEditor steps={steps} onChange={setSteps} targets={targets} />
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading}>
+            {saving ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,209 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { ArrowDown, ArrowUp, Blocks, Plus, Trash2 } from "lucide-react"
+import { CALL_ACTION, getArgNames } from "@/lib/step-blocks"
+import type { StepCall, StoryStep } from "@/lib/types"
+
+// A step block or story that call steps can run
+export interface CallTargetOption {
+  kind: StepCall["kind"]
+  id: string
+  name: string
+  // {{args.name}} the target's steps use
+  args: string[]
+}
+
+// Options for call steps from an app's blocks and stories
+export function getCallTargets(
+  blocks: { id: string; name: string; steps: StoryStep[] }[],
+  stories: { id: string; title: string; steps: StoryStep[] }[]
+): CallTargetOption[] {
+  return [
+    ...blocks.map((b) => ({ kind: "block" as const, id: b.id, name: b.name, args: getArgNames(b.steps) })),
+    ...stories.map((s) => ({ kind: "story" as const, id: s.id, name: s.title, args: getArgNames(s.steps) })),
+  ]
+}
+
+interface StepsEditorProps {
+  steps: StoryStep[]
+  onChange: (steps: StoryStep[]) => void
+  targets: CallTargetOption[]
+}
+
+function targetValue(call: Pick<StepCall, "kind" | "id">): string {
+  return `${call.kind}:${call.id}`
+}
+
+// Editor for a story's or block's steps, including call steps
+export function StepsEditor({ steps, onChange, targets }: StepsEditorProps) {
+  const update = (index: number, patch: Partial<StoryStep>) =>
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...patch } : step)))
+
+  const move = (index: number, offset: number) => {
+    const moved = [...steps]
+    const [step] = moved.splice(index, 1)
+    moved.splice(index + offset, 0, step)
+    onChange(moved)
+  }
+
+  const setCallTarget = (index: number, value: string) => {
+    const target = targets.find((t) => targetValue(t) === value)
+    if (!target) return
+    const previousArgs = steps[index].call?.args ?? {}
+    update(index, {
+      description: `Run ${target.name}`,
+      call: {
+        kind: target.kind,
+        id: target.id,
+        args: Object.fromEntries(target.args.map((name) => [name, previousArgs[name] ?? ""])),
+      },
+    })
+  }
+
+  const blocks = targets.filter((t) => t.kind === "block")
+  const stories = targets.filter((t) => t.kind === "story")
+
+  return (
+    <div className="space-y-2">
+      {steps.length === 0 && (
+        <p className="text-sm text-muted-foreground">No steps yet</p>
+      )}
+
+      {steps.map((step, index) => {
+        const call = step.call
+        const target = call && targets.find((t) => targetValue(t) === targetValue(call))
+
+        return (
+          <div key={index} className="flex items-start gap-2 rounded-lg border p-2">
+            <span className="w-6 pt-2 text-right text-sm text-muted-foreground">{index + 1}.</span>
+
+            {call ? (
+              <div className="flex-1 space-y-2">
+                <Select value={target ? targetValue(call) : ""} onValueChange={(v) => setCallTarget(index, v)}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue placeholder="Choose a step block or story" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {blocks.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Step blocks</SelectLabel>
+                        {blocks.map((t) => (
+                          <SelectItem key={targetValue(t)} value={targetValue(t)}>
+                            {t.name}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                    {stories.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Stories</SelectLabel>
+                        {stories.map((t) => (
+                          <SelectItem key={targetValue(t)} value={targetValue(t)}>
+                            {t.name}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                  </SelectContent>
+                </Select>
+                {Object.keys(call.args ?? {}).map((name) => (
+                  <div key={name} className="flex items-center gap-2">
+                    <Label className="w-28 shrink-0 truncate font-mono text-xs">{name}</Label>
+                    <Input
+                      value={call.args?.[name] ?? ""}
+                      onChange={(e) =>
+                        update(index, { call: { ...call, args: { ...call.args, [name]: e.target.value } } })
+                      }
+                      className="h-8 text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="grid flex-1 gap-2 sm:grid-cols-[8rem_1fr_1fr]">
+                <Input
+                  aria-label="Action"
+                  value={step.action}
+                  onChange={(e) => update(index, { action: e.target.value })}
+                  placeholder="click"
+                  className="h-9"
+                />
+                <Input
+                  aria-label="Element"
+                  value={step.element ?? ""}
+                  onChange={(e) => update(index, { element: e.target.value || undefined })}
+                  placeholder="Element"
+                  className="h-9"
+                />
+                <Input
+                  aria-label="Value"
+                  value={step.value ?? ""}
+                  onChange={(e) => update(index, { value: e.target.value || undefined })}
+                  placeholder="Value"
+                  className="h-9"
+                />
+              </div>
+            )}
+
+            <div className="flex">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-9 w-8"
+                disabled={index === 0}
+                onClick={() => move(index, -1)}
+              >
+                <ArrowUp className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-9 w-8"
+                disabled={index === steps.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ArrowDown className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-9 w-8 hover:text-destructive"
+                onClick={() => onChange(steps.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+        )
+      })}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => onChange([...steps, { action: "" }])}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add step
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={targets.length === 0}
+          onClick={() => onChange([...steps, { action: CALL_ACTION, call: { kind: "block", id: "" } }])}
+        >
+          <Blocks className="h-4 w-4 mr-1" />
+          Add call
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { updateStory } from "@/app/actions/stories"
+import { diffLines, type DiffLine, type DiffRow } from "@/lib/diff"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Code, Loader2 } from "lucide-react"
+
+interface TestCodeDialogProps {
+  storyId: string | null
+  storyTitle?: string
+  fromLastFailure: boolean
+  onClose: () => void
+}
+
+const ROW_STYLES: Record<DiffRow["type"], { left: string; right: string }> = {
+  same: { left: "", right: "" },
+  added: { left: "bg-muted/40", right: "bg-green-50" },
+  removed: { left: "bg-red-50", right: "bg-muted/40" },
+  changed: { left: "bg-red-50", right: "bg-green-50" },
+}
+
+export function TestCodeDialog({
+  storyId,
+  storyTitle,
+  fromLastFailure,
+  onClose,
+}: TestCodeDialogProps) {
+  const [code, setCode] = useState<string | null>(null)
+  const [previousCode, setPreviousCode] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!storyId) return
+
+    async function generate() {
+      setLoading(true)
+      setError(null)
+      setCode(null)
+
+      try {
+        const response = await fetch("/api/v1/ai/generate-test", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ storyId, fromLastFailure }),
+        })
+
+        const data = await response.json().catch(() => ({}))
+        if (!response.ok || data.error) {
+          setError(data.error || "Failed to generate test code")
+        } else {
+          setCode(data.code)
+          setPreviousCode(data.previousCode)
+        }
+      } catch {
+        setError("Failed to generate test code")
+      }
+      setLoading(false)
+    }
+
+    generate()
+  }, [storyId, fromLastFailure])
+
+  const rows = useMemo(
+    () => (code === null ? [] : diffLines(previousCode, code)),
+    [previousCode, code]
+  )
+  const changedRows = rows.filter((row) => row.type !== "same").length
+
+  const handleSave = async () => {
+    if (!storyId || code === null) return
+    setSaving(true)
+    setError(null)
+
+    const result = await updateStory({ storyId, generated_test_code: code })
+
+    if (result?.error) {
+      setError(result.error)
+      setSaving(false)
+      return
+    }
+
+    setSaving(false)
+    onClose()
+  }
+
+  return (
+    <Dialog open={!!storyId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-6xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Code className="h-5 w-5" />
+            {fromLastFailure ? "Regenerate Test Code" : "Generate Test Code"}
+          </DialogTitle>
+          <DialogDescription>
+            {fromLastFailure
+              ? `Review code for "${storyTitle}" regenerated from its last failure`
+              : `Review generated Playwright code for "${storyTitle}"`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex flex-col items-center justify-center py-12 gap-3">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">Generating test code...</p>
+          </div>
+        ) : code !== null && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <div className="grid grid-cols-2 flex-1">
+                <span className="font-medium text-red-600">
+                  {previousCode ? "Current" : "No saved code"}
+                </span>
+                <span className="font-medium text-green-600">Generated</span>
+              </div>
+              <Badge variant="secondary">
+                {changedRows === 0 ? "No changes" : `${changedRows} changed lines`}
+              </Badge>
+            </div>
+            <ScrollArea className="h-[60vh] border rounded-lg">
+              <table className="w-full table-fixed text-xs font-mono">
+                <tbody>
+                  {rows.map((row, i) => (
+                    <tr key={i}>
+                      <DiffCell line={row.left} className={ROW_STYLES[row.type].left} />
+                      <DiffCell line={row.right} className={ROW_STYLES[row.type].right} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </ScrollArea>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Discard
+          </Button>
+          <Button onClick={handleSave} disabled={loading || saving || code === null}>
+            {saving ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save Code"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function DiffCell({ line, className }: { line?: DiffLine; className: string }) {
+  return (
+    <>
+      <td className={`w-10 select-none text-right pr-2 align-top text-muted-foreground border-r ${className}`}>
+        {line?.number}
+      </td>
+      <td className={`px-2 align-top whitespace-pre-wrap break-all border-r ${className}`}>
+        {line?.text}
+      </td>
+    </>
+  )
+}
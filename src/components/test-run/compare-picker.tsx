@@ -0,0 +1,81 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { ArrowRight } from "lucide-react"
+
+export interface CompareRunOption {
+  id: string
+  status: string
+  created_at: string
+  stories_failed: number
+  environment?: { name: string } | null
+}
+
+interface ComparePickerProps {
+  orgId: string
+  appId: string
+  runs: CompareRunOption[]
+  baseId?: string
+  headId: string
+}
+
+function runLabel(run: CompareRunOption): string {
+  const failed = run.status === "completed" ? ` • ${run.stories_failed} failed` : ` • ${run.status}`
+  return `${run.environment?.name || "Unknown"} • ${new Date(run.created_at).toLocaleString()}${failed}`
+}
+
+export function ComparePicker({ orgId, appId, runs, baseId, headId }: ComparePickerProps) {
+  const router = useRouter()
+
+  const navigate = (base: string | undefined, head: string) => {
+    const params = new URLSearchParams({ head })
+    if (base) params.set("base", base)
+    router.push(`/org/${orgId}/apps/${appId}/runs/compare?${params}`)
+  }
+
+  return (
+    <div className="flex flex-col gap-3 md:flex-row md:items-end">
+      <div className="flex-1 space-y-2">
+        <Label>Base run</Label>
+        <Select value={baseId ?? ""} onValueChange={(v) => navigate(v, headId)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select a run to compare against" />
+          </SelectTrigger>
+          <SelectContent>
+            {runs
+              .filter((run) => run.id !== headId)
+              .map((run) => (
+                <SelectItem key={run.id} value={run.id}>
+                  {runLabel(run)}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <ArrowRight className="hidden md:block h-5 w-5 mb-2.5 text-muted-foreground" />
+      <div className="flex-1 space-y-2">
+        <Label>Compared run</Label>
+        <Select value={headId} onValueChange={(v) => navigate(baseId === v ? undefined : baseId, v)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {runs.map((run) => (
+              <SelectItem key={run.id} value={run.id}>
+                {runLabel(run)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  )
+}
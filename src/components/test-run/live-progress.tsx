@@ -42,7 +42,11 @@ export function TestRunProgress({
   if (!testRun) return null
 
   const total = testRun.stories_total || 1
-  const completed = testRun.stories_passed + testRun.stories_failed + (testRun.stories_skipped || 0)
+  const completed =
+    testRun.stories_passed +
+    testRun.stories_failed +
+    (testRun.stories_skipped || 0) +
+    (testRun.stories_quarantined || 0)
   const progress = (completed / total) * 100
 
   // Use current_story_name from test run (real-time) or fall back to last result
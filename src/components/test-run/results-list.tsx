@@ -5,21 +5,34 @@ import Image from "next/image"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { HealActions } from "@/components/heal/heal-actions"
 import { formatDuration } from "@/lib/utils"
 import {
   CheckCircle,
   XCircle,
+  MinusCircle,
   Clock,
   ChevronDown,
   ChevronUp,
   Image as ImageIcon,
   AlertTriangle,
   Wrench,
+  Eye,
 } from "lucide-react"
-import type { TestResult, StepResult, HealProposal } from "@/lib/types"
+import type {
+  ResultStatus,
+  TestResult,
+  StepResult,
+  HealProposal,
+  HealStatus,
+  VerificationResult,
+} from "@/lib/types"
 
 interface ResultsListProps {
-  results: (TestResult & { story?: { title: string; journey_id: string } })[]
+  results: (TestResult & {
+    story?: { title: string; journey_id: string }
+    heals?: { id: string; status: HealStatus }[]
+  })[]
   orgId: string
   appId: string
   runId: string
@@ -34,14 +47,13 @@ export function ResultsList({
   isInProgress,
 }: ResultsListProps) {
   const [expandedId, setExpandedId] = useState<string | null>(null)
-  const [filter, setFilter] = useState<"all" | "passed" | "failed">("all")
+  const [filter, setFilter] = useState<"all" | ResultStatus>("all")
 
-  const filteredResults = results.filter((r) => {
-    if (filter === "all") return true
-    if (filter === "passed") return r.passed
-    if (filter === "failed") return !r.passed
-    return true
-  })
+  const filteredResults = results.filter(
+    (r) => filter === "all" || r.status === filter
+  )
+  const countByStatus = (status: ResultStatus) =>
+    results.filter((r) => r.status === status).length
 
   if (results.length === 0) {
     return (
@@ -80,7 +92,7 @@ export function ResultsList({
           onClick={() => setFilter("passed")}
           className={filter === "passed" ? "" : "text-green-600"}
         >
-          Passed ({results.filter((r) => r.passed).length})
+          Passed ({countByStatus("passed")})
         </Button>
         <Button
           variant={filter === "failed" ? "default" : "outline"}
@@ -88,7 +100,15 @@ export function ResultsList({
           onClick={() => setFilter("failed")}
           className={filter === "failed" ? "" : "text-red-600"}
         >
-          Failed ({results.filter((r) => !r.passed).length})
+          Failed ({countByStatus("failed")})
+        </Button>
+        <Button
+          variant={filter === "skipped" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setFilter("skipped")}
+          className={filter === "skipped" ? "" : "text-muted-foreground"}
+        >
+          Skipped ({countByStatus("skipped")})
         </Button>
       </div>
 
@@ -107,14 +127,31 @@ export function ResultsList({
               }
             >
               <div className="flex items-center gap-3">
-                {result.passed ? (
+                {result.status === "passed" ? (
                   <CheckCircle className="h-5 w-5 text-green-500" />
+                ) : result.status === "skipped" ? (
+                  <MinusCircle className="h-5 w-5 text-muted-foreground" />
                 ) : (
                   <XCircle className="h-5 w-5 text-red-500" />
                 )}
                 <div className="text-left">
                   <p className="font-medium">
                     {result.story?.title || result.story_name}
+                    {result.parameter_label && (
+                      <Badge variant="outline" className="ml-2 text-xs font-normal align-middle">
+                        {result.parameter_label}
+                      </Badge>
+                    )}
+                    {result.quarantined && (
+                      <Badge variant="warning" className="ml-2 text-xs font-normal align-middle">
+                        Quarantined
+                      </Badge>
+                    )}
+                    {result.rerun_of && (
+                      <Badge variant="secondary" className="ml-2 text-xs font-normal align-middle">
+                        Auto-heal rerun
+                      </Badge>
+                    )}
                   </p>
                   <p className="text-sm text-muted-foreground">
                     {result.journey_name}
@@ -123,6 +160,12 @@ export function ResultsList({
               </div>
 
               <div className="flex items-center gap-4">
+                {result.verifications?.some((v) => v.warning) && (
+                  <Badge variant="warning" className="gap-1">
+                    <Eye className="h-3 w-3" />
+                    Needs Review
+                  </Badge>
+                )}
                 {result.heal_proposal && (
                   <Badge variant="warning" className="gap-1">
                     <Wrench className="h-3 w-3" />
@@ -149,6 +192,9 @@ export function ResultsList({
                 <Tabs defaultValue="steps">
                   <TabsList>
                     <TabsTrigger value="steps">Steps</TabsTrigger>
+                    {result.verifications && result.verifications.length > 0 && (
+                      <TabsTrigger value="verifications">Verifications</TabsTrigger>
+                    )}
                     {result.error && (
                       <TabsTrigger value="error">Error</TabsTrigger>
                     )}
@@ -169,6 +215,12 @@ export function ResultsList({
                     <StepTimeline steps={result.steps || []} />
                   </TabsContent>
 
+                  {result.verifications && result.verifications.length > 0 && (
+                    <TabsContent value="verifications" className="mt-4">
+                      <VerificationList verifications={result.verifications} />
+                    </TabsContent>
+                  )}
+
                   {result.error && (
                     <TabsContent value="error" className="mt-4">
                       <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -213,7 +265,10 @@ export function ResultsList({
 
                   {result.heal_proposal && (
                     <TabsContent value="heal" className="mt-4">
-                      <HealProposalView proposal={result.heal_proposal} />
+                      <HealProposalView
+                        proposal={result.heal_proposal}
+                        heal={result.heals?.[0]}
+                      />
                     </TabsContent>
                   )}
                 </Tabs>
@@ -255,6 +310,11 @@ function StepTimeline({ steps }: { steps: StepResult[] }) {
             <p className="font-medium">
               Step {step.step + 1}: {step.action}
             </p>
+            {step.origin && step.origin.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-0.5">
+                {step.origin.map((o) => `${o.name} step ${o.step + 1}`).join(" › ")}
+              </p>
+            )}
             {step.error && (
               <p className="text-sm text-red-600 mt-1">{step.error}</p>
             )}
@@ -268,7 +328,67 @@ function StepTimeline({ steps }: { steps: StepResult[] }) {
   )
 }
 
-function HealProposalView({ proposal }: { proposal: HealProposal }) {
+function VerificationList({ verifications }: { verifications: VerificationResult[] }) {
+  return (
+    <div className="space-y-2">
+      {verifications.map((verification) => (
+        <div
+          key={verification.index}
+          className={`flex items-start gap-3 p-3 rounded-lg border ${
+            verification.warning
+              ? "border-yellow-200 bg-yellow-50/50"
+              : verification.passed
+              ? "border-green-200 bg-green-50/50"
+              : "border-red-200 bg-red-50/50"
+          }`}
+        >
+          <div className="flex items-center justify-center w-6 h-6 rounded-full bg-white border">
+            {verification.warning ? (
+              <AlertTriangle className="h-4 w-4 text-yellow-600" />
+            ) : verification.passed ? (
+              <CheckCircle className="h-4 w-4 text-green-500" />
+            ) : (
+              <XCircle className="h-4 w-4 text-red-500" />
+            )}
+          </div>
+          <div className="flex-1 space-y-1">
+            <p className="font-medium">
+              <span className="capitalize">{verification.type}</span>: {verification.expected}
+            </p>
+            {verification.observation && (
+              <p className="text-sm text-muted-foreground">
+                Observed: {verification.observation}
+              </p>
+            )}
+            {verification.issues && verification.issues.length > 0 && (
+              <ul className="text-sm text-muted-foreground list-disc pl-5">
+                {verification.issues.map((issue, i) => (
+                  <li key={i}>{issue}</li>
+                ))}
+              </ul>
+            )}
+            {verification.error && (
+              <p className="text-sm text-red-600">{verification.error}</p>
+            )}
+          </div>
+          {verification.confidence && (
+            <Badge variant={verification.confidence === "low" ? "warning" : "secondary"}>
+              {verification.confidence} confidence
+            </Badge>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function HealProposalView({
+  proposal,
+  heal,
+}: {
+  proposal: HealProposal
+  heal?: { id: string; status: HealStatus }
+}) {
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
@@ -287,6 +407,12 @@ function HealProposalView({ proposal }: { proposal: HealProposal }) {
           <Badge variant="outline" className="ml-2">
             {proposal.type}
           </Badge>
+          {proposal.target && (
+            <Badge variant="secondary" className="ml-2">
+              {proposal.target.kind === "step" ? "Step" : "Verification"}{" "}
+              {proposal.target.index + 1}
+            </Badge>
+          )}
         </div>
       </div>
 
@@ -307,14 +433,7 @@ function HealProposalView({ proposal }: { proposal: HealProposal }) {
         </div>
       </div>
 
-      <div className="flex gap-2">
-        <Button variant="default" size="sm">
-          Apply Fix
-        </Button>
-        <Button variant="outline" size="sm">
-          Dismiss
-        </Button>
-      </div>
+      {heal && <HealActions healId={heal.id} status={heal.status} />}
     </div>
   )
 }
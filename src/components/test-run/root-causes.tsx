@@ -0,0 +1,133 @@
+"use client"
+
+import { useState } from "react"
+import Image from "next/image"
+import { summarizeFailures } from "@/app/actions/failure-clusters"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Loader2, Wand2, Layers } from "lucide-react"
+import { MIN_CLUSTER_SIZE } from "@/lib/failure-clusters"
+import type { FailureCluster } from "@/lib/failure-clusters"
+
+// Stories named on a card before the rest are counted
+const STORIES_SHOWN = 5
+
+interface RootCausesProps {
+  appId: string
+  clusters: FailureCluster[]
+  title: string
+  description: string
+}
+
+function RootCauseCard({ appId, cluster }: { appId: string; cluster: FailureCluster }) {
+  const [summary, setSummary] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSummarize = async () => {
+    setLoading(true)
+    setError(null)
+
+    const result = await summarizeFailures(appId, cluster.resultIds)
+    if (result.error) {
+      setError(result.error)
+    } else if (result.data) {
+      setSummary(result.data.summary)
+    }
+    setLoading(false)
+  }
+
+  return (
+    <div className="flex gap-4 p-4 rounded-lg border">
+      {cluster.screenshotUrl && (
+        <a
+          href={cluster.screenshotUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="hidden sm:block w-48 shrink-0 border rounded overflow-hidden self-start"
+        >
+          <Image
+            src={cluster.screenshotUrl}
+            alt="Representative screenshot"
+            width={1280}
+            height={720}
+            className="w-full"
+          />
+        </a>
+      )}
+      <div className="flex-1 min-w-0 space-y-2">
+        <div className="flex items-center gap-2">
+          <Badge variant="destructive">{cluster.count} failures</Badge>
+          <span className="text-sm text-muted-foreground">
+            {cluster.stories.length} {cluster.stories.length === 1 ? "story" : "stories"}
+            {cluster.runs > 1 && ` across ${cluster.runs} runs`}
+          </span>
+        </div>
+        <p className="text-sm font-mono break-words">{cluster.example.split("\n")[0]}</p>
+        {cluster.action && (
+          <p className="text-xs text-muted-foreground">
+            At step &quot;{cluster.action}&quot;
+            {cluster.selector && (
+              <>
+                {" on "}
+                <code className="bg-muted px-1 rounded">{cluster.selector}</code>
+              </>
+            )}
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {cluster.stories
+            .slice(0, STORIES_SHOWN)
+            .map((s) => `${s.journeyName} › ${s.name}`)
+            .join(", ")}
+          {cluster.stories.length > STORIES_SHOWN &&
+            ` and ${cluster.stories.length - STORIES_SHOWN} more`}
+        </p>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {summary ? (
+          <div className="bg-muted/50 rounded-lg p-3 text-sm">{summary}</div>
+        ) : (
+          <Button variant="outline" size="sm" onClick={handleSummarize} disabled={loading}>
+            {loading ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Wand2 className="h-4 w-4 mr-2" />
+            )}
+            Summarize with AI
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Failures grouped by likely root cause; single failures are left to the
+// results list
+export function RootCauses({ appId, clusters, title, description }: RootCausesProps) {
+  const shown = clusters.filter((c) => c.count >= MIN_CLUSTER_SIZE)
+  if (shown.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          {title}
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {shown.map((cluster) => (
+          <RootCauseCard key={cluster.key} appId={appId} cluster={cluster} />
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,17 +5,23 @@ let client: Anthropic | null = null
 
 function getClient(): Anthropic {
   if (!client) {
-    client = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    })
+    const apiKey = process.env.ANTHROPIC_API_KEY
+    if (!apiKey) {
+      throw new Error("ANTHROPIC_API_KEY environment variable is not set")
+    }
+    client = new Anthropic({ apiKey })
   }
   return client
 }
 
 const HEALING_PROMPT = `You are an expert at diagnosing and fixing failing Playwright tests.
 
+The test is a story made of numbered steps and verifications. Steps are executed
+in order with Playwright; an element is located by its selector if present,
+otherwise by its human-readable element description.
+
 Given:
-1. The failing test code
+1. The story steps, with the failing line marked
 2. The error message
 3. The current page HTML (partial)
 4. A screenshot of the current state (if provided)
@@ -26,11 +32,15 @@ Analyze the failure and propose a fix. Common issues:
 - Content changed (text different)
 - Flow changed (navigation different)
 
+For "selector" fixes, "original" and "proposed" must be bare Playwright selectors
+(e.g. button:has-text("Save"), [data-testid="save"], role=button[name="Save"]),
+not full statements. For "content" fixes they must be the old and new text.
+
 Respond in JSON format:
 {
   "type": "selector|flow|content",
-  "original": "the original code that failed",
-  "proposed": "the proposed fix",
+  "original": "the original selector, text or step that failed",
+  "proposed": "the proposed replacement",
   "line": line_number,
   "confidence": 0.0-1.0,
   "reasoning": "explanation of the fix"
@@ -57,6 +67,15 @@ export interface InspectionResult {
   issues?: string[]
 }
 
+function parseJsonResponse(responseText: string): unknown {
+  const jsonMatch =
+    responseText.match(/```json\s*([\s\S]*?)\s*```/) ||
+    responseText.match(/```\s*([\s\S]*?)\s*```/) ||
+    [null, responseText]
+  const jsonStr = jsonMatch[1] || responseText
+  return JSON.parse(jsonStr.trim())
+}
+
 export async function proposeHeal(
   failingCode: string,
   errorMessage: string,
@@ -65,8 +84,8 @@ export async function proposeHeal(
 ): Promise<HealProposal | null> {
   const anthropic = getClient()
 
-  const textPrompt = `Failing test code:
-\`\`\`typescript
+  const textPrompt = `Failing story:
+\`\`\`
 ${failingCode}
 \`\`\`
 
@@ -104,19 +123,17 @@ ${pageHtml.slice(0, 5000)}
   const responseText = textContent ? textContent.text : ""
 
   try {
-    const jsonMatch =
-      responseText.match(/```json\s*([\s\S]*?)\s*```/) ||
-      responseText.match(/```\s*([\s\S]*?)\s*```/) ||
-      [null, responseText]
-    const jsonStr = jsonMatch[1] || responseText
-    const result = JSON.parse(jsonStr.trim())
+    const result = parseJsonResponse(responseText) as Record<string, unknown>
+    if (typeof result.original !== "string" || typeof result.proposed !== "string") {
+      return null
+    }
     return {
       type: result.type as HealProposalType,
       original: result.original,
       proposed: result.proposed,
-      confidence: result.confidence,
-      reasoning: result.reasoning,
-      line: result.line,
+      confidence: Number(result.confidence) || 0,
+      reasoning: String(result.reasoning ?? ""),
+      line: typeof result.line === "number" ? result.line : undefined,
     }
   } catch {
     return null
@@ -159,21 +176,34 @@ export async function inspectScreenshot(
   const textContent = response.content.find((c) => c.type === "text")
   const responseText = textContent ? textContent.text : ""
 
+  let result: Record<string, unknown> | null = null
   try {
-    const jsonMatch =
-      responseText.match(/```json\s*([\s\S]*?)\s*```/) ||
-      responseText.match(/```\s*([\s\S]*?)\s*```/) ||
-      [null, responseText]
-    const jsonStr = jsonMatch[1] || responseText
-    return JSON.parse(jsonStr.trim())
+    const parsed = parseJsonResponse(responseText)
+    result = parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : null
   } catch {
+    // Reported as inconclusive below
+  }
+
+  // A verdict without a clear pass or fail and confidence is inconclusive
+  if (
+    !result ||
+    typeof result.passed !== "boolean" ||
+    !["high", "medium", "low"].includes(result.confidence as string)
+  ) {
     return {
       passed: false,
       confidence: "low",
-      observation: "Unable to analyze screenshot",
+      observation: typeof result?.observation === "string" ? result.observation : "Unable to analyze screenshot",
       issues: ["Failed to parse inspection result"],
     }
   }
+
+  return {
+    passed: result.passed,
+    confidence: result.confidence as InspectionResult["confidence"],
+    observation: typeof result.observation === "string" ? result.observation : "",
+    issues: Array.isArray(result.issues) ? result.issues.map(String) : undefined,
+  }
 }
 
 export function categorizeFailure(
@@ -0,0 +1,30 @@
+import { chat } from "@/lib/ai/story-analyzer"
+import type { FailureCluster } from "@/lib/failure-clusters"
+
+const SUMMARY_PROMPT = `You are a QA engineer triaging a group of failing end-to-end tests that failed the same way.
+
+Given the shared error, the failing step and the affected stories, explain in 2-3 sentences the most likely root cause and where to look first. Say whether it looks like an application bug, a changed UI the tests need updating for, or an environment problem.
+
+Respond with plain text only, no headings or lists.`
+
+// Stories listed in the prompt; the rest are only counted
+const MAX_STORIES = 20
+
+export async function summarizeFailureCluster(cluster: FailureCluster): Promise<string> {
+  const stories = cluster.stories
+    .slice(0, MAX_STORIES)
+    .map((s) => `- ${s.journeyName} › ${s.name}`)
+    .join("\n")
+  const more = cluster.stories.length > MAX_STORIES ? `\n- and ${cluster.stories.length - MAX_STORIES} more` : ""
+
+  const prompt = `Error (${cluster.count} failures across ${cluster.runs} runs):
+${cluster.example.slice(0, 2000)}
+
+Failing step: ${cluster.action || "(before any step, e.g. sign-in)"}${cluster.selector ? `\nSelector: ${cluster.selector}` : ""}
+
+Affected stories:
+${stories}${more}`
+
+  const summary = await chat([{ role: "user", content: prompt }], SUMMARY_PROMPT)
+  return summary.trim()
+}
@@ -0,0 +1,195 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { getNextRun, getNextRuns, parseCron, validateCron } from "@/lib/cron"
+
+// Next runs as ISO strings, for readable assertions
+function next(expression: string, from: string, count: number, timezone = "UTC"): string[] {
+  return getNextRuns(expression, timezone, count, new Date(from)).map((d) => d.toISOString())
+}
+
+describe("parseCron", () => {
+  it("parses lists", () => {
+    assert.deepEqual(parseCron("0,15,30 * * * *").minutes, [0, 15, 30])
+    assert.deepEqual(
+      next("0 9 * * 1,3,5", "2026-01-05T00:00:00Z", 3),
+      ["2026-01-05T09:00:00.000Z", "2026-01-07T09:00:00.000Z", "2026-01-09T09:00:00.000Z"]
+    )
+  })
+
+  it("parses ranges", () => {
+    assert.deepEqual(parseCron("* 9-11 * * *").hours, [9, 10, 11])
+    assert.deepEqual(
+      next("0 9-11 * * *", "2026-01-05T10:30:00Z", 3),
+      ["2026-01-05T11:00:00.000Z", "2026-01-06T09:00:00.000Z", "2026-01-06T10:00:00.000Z"]
+    )
+  })
+
+  it("parses steps over wildcards, ranges and start values", () => {
+    assert.deepEqual(parseCron("*/15 * * * *").minutes, [0, 15, 30, 45])
+    assert.deepEqual(parseCron("* 8-18/4 * * *").hours, [8, 12, 16])
+    assert.deepEqual(parseCron("5/20 * * * *").minutes, [5, 25, 45])
+    assert.deepEqual(
+      next("*/15 * * * *", "2026-01-05T10:07:00Z", 4),
+      [
+        "2026-01-05T10:15:00.000Z",
+        "2026-01-05T10:30:00.000Z",
+        "2026-01-05T10:45:00.000Z",
+        "2026-01-05T11:00:00.000Z",
+      ]
+    )
+  })
+
+  it("parses month and weekday names in any case", () => {
+    const schedule = parseCron("0 0 * jan,Jul MON-FRI")
+    assert.deepEqual([...schedule.months].sort((a, b) => a - b), [1, 7])
+    assert.deepEqual([...schedule.daysOfWeek].sort((a, b) => a - b), [1, 2, 3, 4, 5])
+    assert.deepEqual(next("0 12 * * SAT", "2026-01-05T00:00:00Z", 1), ["2026-01-10T12:00:00.000Z"])
+  })
+
+  it("treats 7 as Sunday", () => {
+    assert.deepEqual([...parseCron("0 0 * * 7").daysOfWeek], [0])
+    assert.deepEqual([...parseCron("0 0 * * 5-7").daysOfWeek].sort((a, b) => a - b), [0, 5, 6])
+    // 2026-01-11 is a Sunday
+    assert.deepEqual(next("0 0 * * 7", "2026-01-05T00:00:00Z", 1), ["2026-01-11T00:00:00.000Z"])
+  })
+
+  it("expands macros", () => {
+    const from = "2026-01-05T10:30:00Z"
+    assert.deepEqual(next("@hourly", from, 1), ["2026-01-05T11:00:00.000Z"])
+    assert.deepEqual(next("@daily", from, 1), ["2026-01-06T00:00:00.000Z"])
+    assert.deepEqual(next("@midnight", from, 1), ["2026-01-06T00:00:00.000Z"])
+    assert.deepEqual(next("@weekly", from, 1), ["2026-01-11T00:00:00.000Z"])
+    assert.deepEqual(next("@monthly", from, 1), ["2026-02-01T00:00:00.000Z"])
+    assert.deepEqual(next("@yearly", from, 1), ["2027-01-01T00:00:00.000Z"])
+    assert.deepEqual(next("@annually", from, 1), ["2027-01-01T00:00:00.000Z"])
+  })
+
+  it("rejects invalid expressions", () => {
+    assert.match(validateCron("* * * *")!, /5 fields/)
+    assert.match(validateCron("60 * * * *")!, /out of range/)
+    assert.match(validateCron("* * * * 8")!, /out of range/)
+    assert.match(validateCron("5-1 * * * *")!, /Invalid minute range/)
+    assert.match(validateCron("*/0 * * * *")!, /Invalid minute step/)
+    assert.match(validateCron("* * * FOO *")!, /Invalid month value/)
+    assert.match(validateCron("0 0 * * *", "Mars/Olympus")!, /Unknown timezone/)
+    assert.equal(validateCron("0 9 * * MON-FRI", "Europe/Berlin"), null)
+  })
+})
+
+describe("getNextRuns", () => {
+  it("runs on days matching either day of month or day of week when both are set", () => {
+    // The 13th, and every Friday; 2026-01-02 is a Friday and the 13th a Tuesday
+    assert.deepEqual(
+      next("0 0 13 * FRI", "2026-01-01T00:00:00Z", 4),
+      [
+        "2026-01-02T00:00:00.000Z",
+        "2026-01-09T00:00:00.000Z",
+        "2026-01-13T00:00:00.000Z",
+        "2026-01-16T00:00:00.000Z",
+      ]
+    )
+  })
+
+  it("uses only the restricted field when the other is a wildcard", () => {
+    assert.deepEqual(
+      next("0 0 13 * *", "2026-01-01T00:00:00Z", 2),
+      ["2026-01-13T00:00:00.000Z", "2026-02-13T00:00:00.000Z"]
+    )
+    assert.deepEqual(
+      next("0 0 * * FRI", "2026-01-01T00:00:00Z", 2),
+      ["2026-01-02T00:00:00.000Z", "2026-01-09T00:00:00.000Z"]
+    )
+  })
+
+  it("returns runs strictly after the start", () => {
+    assert.deepEqual(next("0 9 * * *", "2026-01-05T09:00:00Z", 1), ["2026-01-06T09:00:00.000Z"])
+  })
+
+  it("finds leap days years ahead", () => {
+    assert.deepEqual(next("0 0 29 2 *", "2026-01-01T00:00:00Z", 1), ["2028-02-29T00:00:00.000Z"])
+  })
+
+  it("returns null for a date that never occurs", () => {
+    assert.equal(getNextRun("0 0 30 2 *", "UTC", new Date("2026-01-01T00:00:00Z")), null)
+    assert.equal(getNextRun("0 0 31 4,6,9,11 *", "UTC", new Date("2026-01-01T00:00:00Z")), null)
+  })
+
+  it("evaluates the expression in the timezone", () => {
+    // 09:00 in Berlin is 08:00 UTC in winter and 07:00 UTC in summer
+    assert.deepEqual(
+      next("0 9 * * *", "2026-01-05T00:00:00Z", 1, "Europe/Berlin"),
+      ["2026-01-05T08:00:00.000Z"]
+    )
+    assert.deepEqual(
+      next("0 9 * * *", "2026-07-06T00:00:00Z", 1, "Europe/Berlin"),
+      ["2026-07-06T07:00:00.000Z"]
+    )
+  })
+
+  // New York springs forward on 2026-03-08 (02:00 EST -> 03:00 EDT) and falls
+  // back on 2026-11-01 (02:00 EDT -> 01:00 EST)
+  describe("across DST transitions", () => {
+    const timezone = "America/New_York"
+
+    it("runs a fixed-hour job in a spring-forward gap once, shifted by the gap", () => {
+      assert.deepEqual(
+        next("30 2 * * *", "2026-03-07T12:00:00Z", 2, timezone),
+        [
+          // 02:30 doesn't exist, so 03:30 EDT
+          "2026-03-08T07:30:00.000Z",
+          // 02:30 EDT
+          "2026-03-09T06:30:00.000Z",
+        ]
+      )
+    })
+
+    it("skips the missing hour for a wildcard-hour job when clocks spring forward", () => {
+      assert.deepEqual(
+        next("30 * * * *", "2026-03-08T06:00:00Z", 3, timezone),
+        [
+          // 01:30 EST
+          "2026-03-08T06:30:00.000Z",
+          // 03:30 EDT; 02:30 never happens
+          "2026-03-08T07:30:00.000Z",
+          // 04:30 EDT
+          "2026-03-08T08:30:00.000Z",
+        ]
+      )
+    })
+
+    it("runs a fixed-hour job in a repeated hour only once when clocks fall back", () => {
+      assert.deepEqual(
+        next("30 1 * * *", "2026-10-31T12:00:00Z", 2, timezone),
+        [
+          // 01:30 EDT, the first of the two
+          "2026-11-01T05:30:00.000Z",
+          // 01:30 EST the next day
+          "2026-11-02T06:30:00.000Z",
+        ]
+      )
+    })
+
+    it("runs a wildcard-hour job twice in the repeated hour when clocks fall back", () => {
+      assert.deepEqual(
+        next("30 * * * *", "2026-11-01T04:00:00Z", 4, timezone),
+        [
+          // 00:30 EDT
+          "2026-11-01T04:30:00.000Z",
+          // 01:30 EDT
+          "2026-11-01T05:30:00.000Z",
+          // 01:30 EST
+          "2026-11-01T06:30:00.000Z",
+          // 02:30 EST
+          "2026-11-01T07:30:00.000Z",
+        ]
+      )
+    })
+
+    it("keeps a fixed-hour job on local time across the transition", () => {
+      assert.deepEqual(
+        next("0 9 * * *", "2026-03-07T00:00:00Z", 2, timezone),
+        ["2026-03-07T14:00:00.000Z", "2026-03-08T13:00:00.000Z"]
+      )
+    })
+  })
+})
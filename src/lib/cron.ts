@@ -0,0 +1,345 @@
+// Standard 5-field cron expressions evaluated in an IANA timezone.
+// Shared by the schedule actions, the schedule dialog preview and the worker.
+//
+// Supports *, lists (1,15), ranges (1-5), steps (*/6, 8-18/2, 5/15),
+// month and weekday names (JAN, MON), 7 as Sunday and the @hourly,
+// @daily, @weekly, @monthly and @yearly macros. As in Vixie cron, when
+// both day-of-month and day-of-week are restricted a day matching either
+// one runs.
+//
+// DST: a fixed-hour job whose local time is skipped by a spring-forward
+// transition runs that many minutes later (02:30 becomes 03:30); when
+// clocks fall back it runs only on the first occurrence. Jobs with a
+// wildcard hour follow real time instead: skipped times are skipped and
+// repeated times run twice.
+
+export interface CronSchedule {
+  minutes: number[]
+  hours: number[]
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  dayOfMonthRestricted: boolean
+  dayOfWeekRestricted: boolean
+  hourRestricted: boolean
+}
+
+interface FieldSpec {
+  name: string
+  min: number
+  max: number
+  names?: string[]
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"],
+  },
+  // 7 is accepted as Sunday and folded into 0
+  { name: "day of week", min: 0, max: 7, names: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"] },
+]
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+}
+
+// Leap-day schedules can be up to 8 years apart (2096 -> 2104)
+const MAX_SEARCH_DAYS = 366 * 8 + 2
+
+// DST gaps are at most an hour or two; wall times earlier than this
+// before the start can never map to a later instant
+const SEARCH_LOOKBACK_MINUTES = 180
+
+function parseValue(value: string, field: FieldSpec): number {
+  const nameIndex = field.names?.indexOf(value.toUpperCase()) ?? -1
+  if (nameIndex >= 0) {
+    return field.min === 0 ? nameIndex : nameIndex + 1
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${field.name} value "${value}"`)
+  }
+  const number = parseInt(value, 10)
+  if (number < field.min || number > field.max) {
+    throw new Error(`${field.name} value ${number} is out of range (${field.min}-${field.max})`)
+  }
+  return number
+}
+
+function parseField(source: string, field: FieldSpec): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of source.split(",")) {
+    const [range, stepSource, ...rest] = part.split("/")
+    if (rest.length > 0 || range === "") {
+      throw new Error(`Invalid ${field.name} "${part}"`)
+    }
+
+    let step = 1
+    if (stepSource !== undefined) {
+      if (!/^\d+$/.test(stepSource) || parseInt(stepSource, 10) === 0) {
+        throw new Error(`Invalid ${field.name} step "${stepSource}"`)
+      }
+      step = parseInt(stepSource, 10)
+    }
+
+    let start: number
+    let end: number
+    if (range === "*") {
+      start = field.min
+      end = field.max
+    } else if (range.includes("-")) {
+      const [from, to, ...extra] = range.split("-")
+      if (extra.length > 0) {
+        throw new Error(`Invalid ${field.name} range "${range}"`)
+      }
+      start = parseValue(from, field)
+      end = parseValue(to, field)
+      if (start > end) {
+        throw new Error(`Invalid ${field.name} range "${range}"`)
+      }
+    } else {
+      start = parseValue(range, field)
+      // "5/15" means every 15 starting at 5
+      end = stepSource !== undefined ? field.max : start
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim()
+  const source = MACROS[trimmed.toLowerCase()] ?? trimmed
+  const parts = source.split(/\s+/)
+
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${parts.length}`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+    parseField(part, FIELDS[i])
+  )
+
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7)
+    daysOfWeek.add(0)
+  }
+
+  return {
+    minutes: [...minutes].sort((a, b) => a - b),
+    hours: [...hours].sort((a, b) => a - b),
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !parts[2].startsWith("*"),
+    dayOfWeekRestricted: !parts[4].startsWith("*"),
+    hourRestricted: !parts[1].startsWith("*"),
+  }
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Returns an error message, or null when the expression and timezone are valid
+export function validateCron(expression: string, timezone = "UTC"): string | null {
+  if (!isValidTimezone(timezone)) {
+    return `Unknown timezone "${timezone}"`
+  }
+  try {
+    parseCron(expression)
+    return null
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e)
+  }
+}
+
+interface WallTime {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    })
+    formatters.set(timezone, formatter)
+  }
+  return formatter
+}
+
+function toWallTime(time: number, timezone: string): WallTime {
+  const parts: Record<string, number> = {}
+  for (const part of getFormatter(timezone).formatToParts(new Date(time))) {
+    if (part.type !== "literal") {
+      parts[part.type] = parseInt(part.value, 10)
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  }
+}
+
+function wallTimeValue(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second)
+}
+
+// Milliseconds the timezone is ahead of UTC at the given instant
+function getOffset(time: number, timezone: string): number {
+  const wholeSeconds = Math.floor(time / 1000) * 1000
+  return wallTimeValue(toWallTime(wholeSeconds, timezone)) - wholeSeconds
+}
+
+// Instants at which the local wall time occurs: none when a DST gap skips
+// it, two when clocks fall back over it
+function resolveWallTime(wallValue: number, timezone: string): {
+  instants: number[]
+  gapInstant?: number
+} {
+  // Offsets either side of any nearby transition
+  const offsetBefore = getOffset(wallValue - 86400000, timezone)
+  const offsetAfter = getOffset(wallValue + 86400000, timezone)
+
+  const instants = [...new Set([wallValue - offsetBefore, wallValue - offsetAfter])]
+    .filter((instant) => wallValue - getOffset(instant, timezone) === instant)
+    .sort((a, b) => a - b)
+
+  if (instants.length > 0) {
+    return { instants }
+  }
+  // Shift forward by the length of the gap
+  return { instants, gapInstant: wallValue - offsetBefore }
+}
+
+function matchesDay(schedule: CronSchedule, year: number, month: number, day: number): boolean {
+  if (!schedule.months.has(month)) {
+    return false
+  }
+
+  const matchesDayOfMonth = schedule.daysOfMonth.has(day)
+  const matchesDayOfWeek = schedule.daysOfWeek.has(
+    new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+  )
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return matchesDayOfMonth || matchesDayOfWeek
+  }
+  if (schedule.dayOfMonthRestricted) {
+    return matchesDayOfMonth
+  }
+  if (schedule.dayOfWeekRestricted) {
+    return matchesDayOfWeek
+  }
+  return true
+}
+
+// Next `count` run times strictly after `from`, in ascending order.
+// Throws if the expression or timezone is invalid.
+export function getNextRuns(
+  expression: string,
+  timezone = "UTC",
+  count = 1,
+  from: Date = new Date()
+): Date[] {
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Unknown timezone "${timezone}"`)
+  }
+  const schedule = parseCron(expression)
+
+  const start = from.getTime()
+  const startWall = toWallTime(start, timezone)
+  const earliestWall = wallTimeValue({ ...startWall, second: 0 }) - SEARCH_LOOKBACK_MINUTES * 60000
+
+  const runs: number[] = []
+  let last = start
+
+  for (let dayOffset = -1; dayOffset <= MAX_SEARCH_DAYS && runs.length < count; dayOffset++) {
+    const date = new Date(Date.UTC(startWall.year, startWall.month - 1, startWall.day + dayOffset))
+    const year = date.getUTCFullYear()
+    const month = date.getUTCMonth() + 1
+    const day = date.getUTCDate()
+
+    if (!matchesDay(schedule, year, month, day)) {
+      continue
+    }
+
+    // Repeated and shifted times can land out of wall-clock order
+    const candidates: number[] = []
+    for (const hour of schedule.hours) {
+      for (const minute of schedule.minutes) {
+        const wallValue = Date.UTC(year, month - 1, day, hour, minute)
+        if (wallValue < earliestWall) {
+          continue
+        }
+
+        const { instants, gapInstant } = resolveWallTime(wallValue, timezone)
+        if (!schedule.hourRestricted) {
+          candidates.push(...instants)
+        } else {
+          candidates.push(instants.length > 0 ? instants[0] : gapInstant!)
+        }
+      }
+    }
+
+    for (const instant of candidates.sort((a, b) => a - b)) {
+      if (instant > last && runs.length < count) {
+        runs.push(instant)
+        last = instant
+      }
+    }
+  }
+
+  return runs.map((time) => new Date(time))
+}
+
+// Next run time strictly after `from`, or null if the schedule never fires
+// (e.g. February 30th)
+export function getNextRun(
+  expression: string,
+  timezone = "UTC",
+  from: Date = new Date()
+): Date | null {
+  return getNextRuns(expression, timezone, 1, from)[0] ?? null
+}
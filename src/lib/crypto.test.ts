@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { createCipheriv, randomBytes, scryptSync } from "crypto"
+import {
+  decrypt,
+  encrypt,
+  getCiphertextKeyId,
+  getPrimaryKeyId,
+  needsReencryption,
+  reencrypt,
+} from "@/lib/crypto"
+
+const OLD_SECRET = "old-secret-for-tests"
+const NEW_SECRET = "new-secret-for-tests"
+
+// salt:iv:tag:encrypted, as written before key ids
+function encryptLegacy(plaintext: string, secret: string): string {
+  const salt = randomBytes(32)
+  const iv = randomBytes(16)
+  const cipher = createCipheriv("aes-256-gcm", scryptSync(secret, salt, 32), iv)
+  const encrypted = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()])
+  return [salt, iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64")).join(":")
+}
+
+const ENV_KEYS = ["ENCRYPTION_KEYS", "ENCRYPTION_KEY_ID", "ENCRYPTION_KEY"] as const
+let savedEnv: Partial<Record<(typeof ENV_KEYS)[number], string>>
+
+function setKeys(env: Partial<Record<(typeof ENV_KEYS)[number], string>>) {
+  for (const key of ENV_KEYS) delete process.env[key]
+  Object.assign(process.env, env)
+}
+
+beforeEach(() => {
+  savedEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]))
+})
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key]
+    else process.env[key] = savedEnv[key]
+  }
+})
+
+describe("encrypt and decrypt", () => {
+  it("round-trips under the primary key with a v2 key id", async () => {
+    setKeys({ ENCRYPTION_KEYS: `2026-01:${OLD_SECRET}` })
+    const ciphertext = await encrypt("hunter2 ✓")
+    assert.match(ciphertext, /^v2:2026-01:/)
+    assert.equal(getCiphertextKeyId(ciphertext), "2026-01")
+    assert.equal(await decrypt(ciphertext), "hunter2 ✓")
+  })
+
+  it("uses ENCRYPTION_KEY_ID, or else the first key, as the primary key", () => {
+    setKeys({ ENCRYPTION_KEYS: `2026-07:${NEW_SECRET}, 2026-01:${OLD_SECRET}` })
+    assert.equal(getPrimaryKeyId(), "2026-07")
+    setKeys({ ENCRYPTION_KEYS: `2026-07:${NEW_SECRET},2026-01:${OLD_SECRET}`, ENCRYPTION_KEY_ID: "2026-01" })
+    assert.equal(getPrimaryKeyId(), "2026-01")
+    setKeys({ ENCRYPTION_KEYS: `2026-07:${NEW_SECRET}`, ENCRYPTION_KEY_ID: "2025-01" })
+    assert.throws(() => getPrimaryKeyId(), /not in ENCRYPTION_KEYS/)
+  })
+
+  it("decrypts values under older keys that are still configured", async () => {
+    setKeys({ ENCRYPTION_KEYS: `2026-01:${OLD_SECRET}` })
+    const ciphertext = await encrypt("secret")
+    setKeys({ ENCRYPTION_KEYS: `2026-07:${NEW_SECRET},2026-01:${OLD_SECRET}` })
+    assert.equal(await decrypt(ciphertext), "secret")
+    setKeys({ ENCRYPTION_KEYS: `2026-07:${NEW_SECRET}` })
+    await assert.rejects(decrypt(ciphertext), /"2026-01" is not configured/)
+  })
+
+  it("decrypts v1 values with ENCRYPTION_KEY as the legacy key", async () => {
+    const ciphertext = encryptLegacy("secret", OLD_SECRET)
+    assert.equal(getCiphertextKeyId(ciphertext), "legacy")
+    setKeys({ ENCRYPTION_KEYS: `2026-07:${NEW_SECRET}`, ENCRYPTION_KEY: OLD_SECRET })
+    assert.equal(await decrypt(ciphertext), "secret")
+    // Or listed under its id
+    setKeys({ ENCRYPTION_KEYS: `legacy:${OLD_SECRET}` })
+    assert.equal(await decrypt(ciphertext), "secret")
+  })
+
+  it("fails on a tampered value or an unknown format", async () => {
+    setKeys({ ENCRYPTION_KEYS: `2026-01:${OLD_SECRET}` })
+    const parts = (await encrypt("secret")).split(":")
+    parts[5] = Buffer.from("tampered").toString("base64")
+    await assert.rejects(decrypt(parts.join(":")))
+    await assert.rejects(decrypt("not-a-ciphertext"), /Invalid ciphertext format/)
+  })
+
+  it("rejects malformed ENCRYPTION_KEYS", async () => {
+    setKeys({ ENCRYPTION_KEYS: "no-separator" })
+    await assert.rejects(encrypt("secret"), /must look like id:secret/)
+    setKeys({})
+    await assert.rejects(encrypt("secret"), /not set/)
+  })
+})
+
+describe("reencrypt", () => {
+  it("moves v1 and v2 values onto the primary key", async () => {
+    setKeys({ ENCRYPTION_KEYS: `2026-01:${OLD_SECRET}` })
+    const v2 = await encrypt("v2 secret")
+    const v1 = encryptLegacy("v1 secret", OLD_SECRET)
+
+    setKeys({
+      ENCRYPTION_KEYS: `2026-07:${NEW_SECRET},2026-01:${OLD_SECRET}`,
+      ENCRYPTION_KEY: OLD_SECRET,
+    })
+    assert.equal(needsReencryption(v2), true)
+    assert.equal(needsReencryption(v1), true)
+
+    const movedV2 = await reencrypt(v2)
+    const movedV1 = await reencrypt(v1)
+    assert.equal(getCiphertextKeyId(movedV2), "2026-07")
+    assert.equal(getCiphertextKeyId(movedV1), "2026-07")
+    assert.equal(needsReencryption(movedV2), false)
+
+    // Still readable once the old key is gone
+    setKeys({ ENCRYPTION_KEYS: `2026-07:${NEW_SECRET}` })
+    assert.equal(await decrypt(movedV2), "v2 secret")
+    assert.equal(await decrypt(movedV1), "v1 secret")
+  })
+})
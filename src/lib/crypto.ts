@@ -1,3 +1,11 @@
+// Encryption for stored credentials. Shared by the dashboard, which
+// encrypts what users enter, and the worker, which decrypts at run time.
+//
+// Keys are named so they can be rotated: ENCRYPTION_KEYS lists every key
+// that may still be needed for decryption as "id:secret" pairs, and
+// ENCRYPTION_KEY_ID picks the one new ciphertext is written with. The
+// original single ENCRYPTION_KEY is still read as the key "legacy".
+
 import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "crypto"
 import { promisify } from "util"
 
@@ -8,33 +16,90 @@ const IV_LENGTH = 16
 const TAG_LENGTH = 16
 const SALT_LENGTH = 32
 
-function getEncryptionKey(): string {
-  const key = process.env.ENCRYPTION_KEY
-  if (!key) {
-    throw new Error("ENCRYPTION_KEY environment variable is not set")
+// Format: v2:keyId:salt:iv:tag:encrypted (binary parts base64). Ciphertext
+// from before key ids is salt:iv:tag:encrypted under the legacy key.
+const VERSION = "v2"
+const LEGACY_KEY_ID = "legacy"
+
+function getKeyring(): Map<string, string> {
+  const keys = new Map<string, string>()
+
+  for (const entry of (process.env.ENCRYPTION_KEYS || "").split(",")) {
+    const trimmed = entry.trim()
+    if (!trimmed) continue
+
+    const separator = trimmed.indexOf(":")
+    if (separator <= 0 || separator === trimmed.length - 1) {
+      throw new Error("ENCRYPTION_KEYS entries must look like id:secret")
+    }
+    keys.set(trimmed.slice(0, separator), trimmed.slice(separator + 1))
   }
-  return key
+
+  if (process.env.ENCRYPTION_KEY && !keys.has(LEGACY_KEY_ID)) {
+    keys.set(LEGACY_KEY_ID, process.env.ENCRYPTION_KEY)
+  }
+
+  if (keys.size === 0) {
+    throw new Error("ENCRYPTION_KEYS (or ENCRYPTION_KEY) environment variable is not set")
+  }
+  return keys
+}
+
+// The key new ciphertext is written with
+export function getPrimaryKeyId(): string {
+  const keys = getKeyring()
+  const keyId = process.env.ENCRYPTION_KEY_ID || keys.keys().next().value!
+  if (!keys.has(keyId)) {
+    throw new Error(`ENCRYPTION_KEY_ID "${keyId}" is not in ENCRYPTION_KEYS`)
+  }
+  return keyId
 }
 
-async function deriveKey(salt: Buffer): Promise<Buffer> {
-  const key = getEncryptionKey()
-  return (await scryptAsync(key, salt, 32)) as Buffer
+async function deriveKey(keyId: string, salt: Buffer): Promise<Buffer> {
+  const secret = getKeyring().get(keyId)
+  if (!secret) {
+    throw new Error(`Encryption key "${keyId}" is not configured`)
+  }
+  return (await scryptAsync(secret, salt, 32)) as Buffer
+}
+
+function parseCiphertext(ciphertext: string): { keyId: string; parts: string[] } {
+  const parts = ciphertext.split(":")
+  if (parts.length === 6 && parts[0] === VERSION) {
+    return { keyId: parts[1], parts: parts.slice(2) }
+  }
+  if (parts.length === 4) {
+    return { keyId: LEGACY_KEY_ID, parts }
+  }
+  throw new Error("Invalid ciphertext format")
+}
+
+// The id of the key a value was encrypted with
+export function getCiphertextKeyId(ciphertext: string): string {
+  return parseCiphertext(ciphertext).keyId
+}
+
+// True when a value is not yet encrypted with the primary key
+export function needsReencryption(ciphertext: string): boolean {
+  return getCiphertextKeyId(ciphertext) !== getPrimaryKeyId()
 }
 
 export async function encrypt(plaintext: string): Promise<string> {
+  const keyId = getPrimaryKeyId()
   const salt = randomBytes(SALT_LENGTH)
-  const key = await deriveKey(salt)
+  const key = await deriveKey(keyId, salt)
   const iv = randomBytes(IV_LENGTH)
 
-  const cipher = createCipheriv(ALGORITHM, key, iv)
+  const cipher = createCipheriv(ALGORITHM, key, iv, { authTagLength: TAG_LENGTH })
   const encrypted = Buffer.concat([
     cipher.update(plaintext, "utf8"),
     cipher.final(),
   ])
   const tag = cipher.getAuthTag()
 
-  // Format: salt:iv:tag:encrypted (all base64)
   return [
+    VERSION,
+    keyId,
     salt.toString("base64"),
     iv.toString("base64"),
     tag.toString("base64"),
@@ -43,10 +108,7 @@ export async function encrypt(plaintext: string): Promise<string> {
 }
 
 export async function decrypt(ciphertext: string): Promise<string> {
-  const parts = ciphertext.split(":")
-  if (parts.length !== 4) {
-    throw new Error("Invalid ciphertext format")
-  }
+  const { keyId, parts } = parseCiphertext(ciphertext)
 
   const [saltB64, ivB64, tagB64, encryptedB64] = parts
   const salt = Buffer.from(saltB64, "base64")
@@ -54,8 +116,8 @@ export async function decrypt(ciphertext: string): Promise<string> {
   const tag = Buffer.from(tagB64, "base64")
   const encrypted = Buffer.from(encryptedB64, "base64")
 
-  const key = await deriveKey(salt)
-  const decipher = createDecipheriv(ALGORITHM, key, iv)
+  const key = await deriveKey(keyId, salt)
+  const decipher = createDecipheriv(ALGORITHM, key, iv, { authTagLength: TAG_LENGTH })
   decipher.setAuthTag(tag)
 
   const decrypted = Buffer.concat([
@@ -65,3 +127,8 @@ export async function decrypt(ciphertext: string): Promise<string> {
 
   return decrypted.toString("utf8")
 }
+
+// Decrypt with whichever key a value uses and encrypt it with the primary key
+export async function reencrypt(ciphertext: string): Promise<string> {
+  return encrypt(await decrypt(ciphertext))
+}
@@ -0,0 +1,91 @@
+export interface DiffLine {
+  number: number
+  text: string
+}
+
+export interface DiffRow {
+  type: 'same' | 'added' | 'removed' | 'changed'
+  left?: DiffLine
+  right?: DiffLine
+}
+
+type DiffOp =
+  | { type: 'same'; left: number; right: number }
+  | { type: 'removed'; left: number }
+  | { type: 'added'; right: number }
+
+// Line diff from the longest common subsequence of both texts
+function diffOps(a: string[], b: string[]): DiffOp[] {
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  )
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const ops: DiffOp[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'same', left: i++, right: j++ })
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'removed', left: i++ })
+    } else {
+      ops.push({ type: 'added', right: j++ })
+    }
+  }
+  while (i < a.length) ops.push({ type: 'removed', left: i++ })
+  while (j < b.length) ops.push({ type: 'added', right: j++ })
+  return ops
+}
+
+// Side-by-side rows; a run of removed lines followed by added lines is
+// paired up row by row as changed lines
+export function diffLines(original: string, updated: string): DiffRow[] {
+  const a = original ? original.split('\n') : []
+  const b = updated ? updated.split('\n') : []
+  const ops = diffOps(a, b)
+  const rows: DiffRow[] = []
+
+  let k = 0
+  while (k < ops.length) {
+    const op = ops[k]
+    if (op.type === 'same') {
+      rows.push({
+        type: 'same',
+        left: { number: op.left + 1, text: a[op.left] },
+        right: { number: op.right + 1, text: b[op.right] },
+      })
+      k++
+      continue
+    }
+
+    const removed: number[] = []
+    const added: number[] = []
+    while (k < ops.length && ops[k].type !== 'same') {
+      const change = ops[k]
+      if (change.type === 'removed') removed.push(change.left)
+      if (change.type === 'added') added.push(change.right)
+      k++
+    }
+
+    for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+      const left = removed[r]
+      const right = added[r]
+      rows.push({
+        type: left !== undefined && right !== undefined
+          ? 'changed'
+          : left !== undefined ? 'removed' : 'added',
+        left: left !== undefined ? { number: left + 1, text: a[left] } : undefined,
+        right: right !== undefined ? { number: right + 1, text: b[right] } : undefined,
+      })
+    }
+  }
+
+  return rows
+}
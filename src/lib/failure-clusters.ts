@@ -0,0 +1,107 @@
+// Groups failed results that likely share a root cause: the same normalized
+// error at the same step action and selector. When a deploy breaks a shared
+// element, the stories using it fail together and land in one cluster.
+
+import { normalizeErrorMessage } from "@/lib/story-history"
+import type { ResultStatus, StepResult } from "@/lib/types"
+
+// Fewer failures than this aren't worth a root-cause card
+export const MIN_CLUSTER_SIZE = 2
+
+// Completed runs clustered together on the runs page
+export const RECENT_RUNS_WINDOW = 10
+
+export interface FailureSample {
+  id: string
+  test_run_id: string
+  story_id: string
+  story_name: string
+  journey_name: string
+  status: ResultStatus
+  error?: string | null
+  steps?: StepResult[] | null
+  screenshot_url?: string | null
+  parameter_index?: number | null
+  created_at: string
+}
+
+export interface FailureCluster {
+  key: string
+  // Normalized error shared by the cluster
+  signature: string
+  // Action and selector of the failing step, when the failure was in a step
+  action?: string
+  selector?: string
+  count: number
+  runs: number
+  stories: { id: string; name: string; journeyName: string }[]
+  resultIds: string[]
+  // Most recent error of the cluster, as recorded
+  example: string
+  screenshotUrl?: string
+  firstSeen: string
+  lastSeen: string
+}
+
+function getFailedStep(sample: FailureSample): StepResult | undefined {
+  return [...(sample.steps || [])].reverse().find((s) => !s.passed)
+}
+
+// Failed results; skipped results never reached the app
+export function isClusterableFailure(sample: FailureSample): boolean {
+  return sample.status === "failed" && !!sample.error
+}
+
+// Clusters, largest first. An auto-heal rerun adds a second result for the
+// same story in a run, so only the last result per story and row is counted.
+export function clusterFailures(samples: FailureSample[]): FailureCluster[] {
+  const latest = new Map<string, FailureSample>()
+  for (const sample of [...samples].sort((a, b) => a.created_at.localeCompare(b.created_at))) {
+    latest.set(`${sample.test_run_id}:${sample.story_id}:${sample.parameter_index ?? ""}`, sample)
+  }
+
+  const clusters = new Map<string, FailureCluster & { runIds: Set<string> }>()
+  const newestFirst = [...latest.values()]
+    .filter(isClusterableFailure)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+
+  for (const sample of newestFirst) {
+    const step = getFailedStep(sample)
+    const signature = normalizeErrorMessage(step?.error || sample.error!)
+    const action = step?.action.trim().toLowerCase()
+    const selector = step?.selector
+    const key = [signature, action ?? "", selector ?? ""].join("\n")
+
+    let cluster = clusters.get(key)
+    if (!cluster) {
+      cluster = {
+        key,
+        signature,
+        action: step?.action,
+        selector,
+        count: 0,
+        runs: 0,
+        stories: [],
+        resultIds: [],
+        example: sample.error!,
+        firstSeen: sample.created_at,
+        lastSeen: sample.created_at,
+        runIds: new Set(),
+      }
+      clusters.set(key, cluster)
+    }
+
+    cluster.count++
+    cluster.resultIds.push(sample.id)
+    cluster.runIds.add(sample.test_run_id)
+    cluster.firstSeen = sample.created_at
+    cluster.screenshotUrl ??= sample.screenshot_url || undefined
+    if (!cluster.stories.some((s) => s.id === sample.story_id)) {
+      cluster.stories.push({ id: sample.story_id, name: sample.story_name, journeyName: sample.journey_name })
+    }
+  }
+
+  return [...clusters.values()]
+    .map(({ runIds, ...cluster }) => ({ ...cluster, runs: runIds.size }))
+    .sort((a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen))
+}
@@ -0,0 +1,92 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { computeFlakiness, FLAKINESS_WINDOW, formatFlakiness } from "@/lib/flakiness"
+import type { FlakinessSample } from "@/lib/flakiness"
+
+// One result in run number `run`, runs an hour apart
+function result(
+  run: number,
+  status: FlakinessSample["status"],
+  overrides: Partial<FlakinessSample> = {}
+): FlakinessSample {
+  return {
+    test_run_id: `run-${run}`,
+    passed: status === "passed",
+    status,
+    retries: 0,
+    created_at: new Date(Date.UTC(2026, 0, 1, run)).toISOString(),
+    ...overrides,
+  }
+}
+
+function series(statuses: FlakinessSample["status"][]): FlakinessSample[] {
+  return statuses.map((status, i) => result(i, status))
+}
+
+describe("computeFlakiness", () => {
+  it("gives no score until there are enough runs", () => {
+    assert.equal(computeFlakiness(series(["passed", "failed", "passed", "failed"])), null)
+  })
+
+  it("scores a story that keeps failing as stable, not flaky", () => {
+    assert.deepEqual(
+      computeFlakiness(series(["failed", "failed", "failed", "failed", "failed"])),
+      { score: 0, runs: 5, retryPasses: 0, flips: 0 }
+    )
+  })
+
+  it("scores outcomes flipping between runs", () => {
+    assert.deepEqual(
+      computeFlakiness(series(["passed", "failed", "passed", "failed", "passed", "failed"])),
+      { score: 1, runs: 6, retryPasses: 0, flips: 5 }
+    )
+    assert.deepEqual(
+      computeFlakiness(series(["passed", "passed", "failed", "failed", "failed"])),
+      { score: 0.25, runs: 5, retryPasses: 0, flips: 1 }
+    )
+  })
+
+  it("counts runs that only passed after retrying a step", () => {
+    const samples = series(["passed", "passed", "passed", "passed", "passed"])
+    samples[2].retries = 2
+    assert.deepEqual(computeFlakiness(samples), { score: 0.2, runs: 5, retryPasses: 1, flips: 0 })
+  })
+
+  it("counts an auto-heal rerun that passed as a pass after retry", () => {
+    const samples = [
+      ...series(["passed", "passed", "passed", "passed", "passed"]),
+      // The first try of run 4, before its rerun
+      result(4, "failed", { created_at: "2026-01-01T03:30:00.000Z" }),
+    ]
+    assert.deepEqual(computeFlakiness(samples), { score: 0.2, runs: 5, retryPasses: 1, flips: 0 })
+  })
+
+  it("leaves skipped results out", () => {
+    const samples = series(["passed", "skipped", "passed", "skipped", "passed", "passed", "skipped", "passed"])
+    assert.deepEqual(computeFlakiness(samples), { score: 0, runs: 5, retryPasses: 0, flips: 0 })
+    assert.equal(computeFlakiness(series(["passed", "skipped", "skipped", "skipped", "passed"])), null)
+  })
+
+  it("only looks at the most recent runs", () => {
+    const samples = series([
+      ...Array<FlakinessSample["status"]>(5).fill("failed"),
+      ...Array<FlakinessSample["status"]>(FLAKINESS_WINDOW).fill("passed"),
+    ])
+    assert.deepEqual(computeFlakiness(samples), { score: 0, runs: FLAKINESS_WINDOW, retryPasses: 0, flips: 0 })
+  })
+
+  it("compares parameter rows only with themselves", () => {
+    const samples = [0, 1, 2].flatMap((run) => [
+      result(run, "passed", { parameter_index: 0 }),
+      result(run, "failed", { parameter_index: 1 }),
+    ])
+    assert.deepEqual(computeFlakiness(samples), { score: 0, runs: 6, retryPasses: 0, flips: 0 })
+  })
+})
+
+describe("formatFlakiness", () => {
+  it("formats the score as a percentage", () => {
+    assert.equal(formatFlakiness(0.256), "26%")
+    assert.equal(formatFlakiness(1), "100%")
+  })
+})
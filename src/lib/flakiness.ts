@@ -0,0 +1,105 @@
+// Flakiness of a story from its recent results. A story is flaky when it
+// only passes after retries, or when its outcome keeps flipping between runs
+// with nothing changed. A story that fails every time is broken, not flaky.
+
+import type { ResultStatus } from "@/lib/types"
+
+// Most recent runs considered
+export const FLAKINESS_WINDOW = 20
+
+// Fewer runs than this give no score
+export const MIN_FLAKINESS_RUNS = 5
+
+// Score at or above which auto-quarantine kicks in, unless the app sets one
+export const DEFAULT_QUARANTINE_THRESHOLD = 0.3
+
+export interface FlakinessSample {
+  test_run_id: string
+  passed: boolean
+  status: ResultStatus
+  retries: number
+  parameter_index?: number | null
+  created_at: string
+}
+
+export interface Flakiness {
+  // 0 (stable) to 1 (flaky)
+  score: number
+  runs: number
+  // Runs that only passed after retrying a step or an auto-heal rerun
+  retryPasses: number
+  // Outcome changes from one run to the next
+  flips: number
+}
+
+interface RunOutcome {
+  passed: boolean
+  passedAfterRetry: boolean
+  at: string
+}
+
+// Null until the story has enough runs to judge
+export function computeFlakiness(samples: FlakinessSample[]): Flakiness | null {
+  // Skipped results never ran the steps, so they say nothing
+  const ran = samples
+    .filter((s) => s.status !== "skipped")
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+
+  // One outcome per run and parameter row; an auto-heal rerun adds a second
+  // result to the same run, and its outcome is the one that counts
+  const series = new Map<string, Map<string, RunOutcome>>()
+  for (const sample of ran) {
+    const row = String(sample.parameter_index ?? "")
+    let runs = series.get(row)
+    if (!runs) {
+      runs = new Map()
+      series.set(row, runs)
+    }
+    const earlier = runs.get(sample.test_run_id)
+    runs.set(sample.test_run_id, {
+      passed: sample.passed,
+      passedAfterRetry: sample.passed && (sample.retries > 0 || (!!earlier && !earlier.passed)),
+      at: sample.created_at,
+    })
+  }
+
+  // Keep the most recent runs across all rows
+  const recent = [...series.values()]
+    .flatMap((runs) => [...runs.values()])
+    .sort((a, b) => b.at.localeCompare(a.at))
+    .slice(0, FLAKINESS_WINDOW)
+  if (recent.length < MIN_FLAKINESS_RUNS) {
+    return null
+  }
+  const cutoff = recent[recent.length - 1].at
+
+  let runs = 0
+  let retryPasses = 0
+  let flips = 0
+  let comparisons = 0
+  for (const rowRuns of series.values()) {
+    // Flips only count within a row; different rows use different data
+    const outcomes = [...rowRuns.values()].filter((o) => o.at >= cutoff)
+    for (let i = 0; i < outcomes.length; i++) {
+      runs++
+      if (outcomes[i].passedAfterRetry) retryPasses++
+      if (i > 0) {
+        comparisons++
+        if (outcomes[i].passed !== outcomes[i - 1].passed) flips++
+      }
+    }
+  }
+
+  const retryRate = retryPasses / runs
+  const flipRate = comparisons > 0 ? flips / comparisons : 0
+  return {
+    score: Math.min(1, retryRate + flipRate),
+    runs,
+    retryPasses,
+    flips,
+  }
+}
+
+export function formatFlakiness(score: number): string {
+  return `${Math.round(score * 100)}%`
+}
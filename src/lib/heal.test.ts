@@ -0,0 +1,119 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { applyHealToStory } from "@/lib/heal"
+import type { StoryOutcome, StoryStep } from "@/lib/types"
+
+const story: { steps: StoryStep[]; outcome: StoryOutcome } = {
+  steps: [
+    { action: "click", element: "Save button", selector: "#save" },
+    { action: "fill", element: "Email", selector: "#email", value: "old@example.com" },
+    { action: "fill", element: "Password", selector: "{{env.PASSWORD_FIELD}}", value: "{{secrets.PASSWORD}}" },
+    { action: "click", element: "Sign in button" },
+  ],
+  outcome: {
+    description: "Signed in",
+    verifications: [
+      { type: "content", target: "h1", expected: "Welcome" },
+      { type: "content", target: "{{vars.GREETING_SELECTOR}}", expected: "Hello {{param.name}}" },
+    ],
+  },
+}
+
+describe("applyHealToStory", () => {
+  it("replaces a step selector and leaves the story untouched", () => {
+    const result = applyHealToStory(story, {
+      proposal_type: "selector",
+      original_code: "#save",
+      proposed_code: '[data-testid="save"]',
+      target_kind: "step",
+      target_index: 0,
+    })
+    assert.equal(result.error, undefined)
+    if (result.error !== undefined) return
+    assert.equal(result.steps[0].selector, '[data-testid="save"]')
+    assert.equal(story.steps[0].selector, "#save")
+  })
+
+  it("replaces the element description of a step without a selector", () => {
+    const result = applyHealToStory(story, {
+      proposal_type: "selector",
+      original_code: "Sign in button",
+      proposed_code: 'button:has-text("Log in")',
+      target_kind: "step",
+      target_index: 3,
+    })
+    assert.equal(result.error, undefined)
+    if (result.error !== undefined) return
+    assert.equal(result.steps[3].selector, 'button:has-text("Log in")')
+  })
+
+  it("replaces step values and verification expectations", () => {
+    const value = applyHealToStory(story, {
+      proposal_type: "content",
+      original_code: "old@example.com",
+      proposed_code: "new@example.com",
+      target_kind: "step",
+      target_index: 1,
+    })
+    assert.equal(value.error === undefined && value.steps[1].value, "new@example.com")
+
+    const expected = applyHealToStory(story, {
+      proposal_type: "content",
+      original_code: "Welcome",
+      proposed_code: "Welcome back",
+      target_kind: "verification",
+      target_index: 0,
+    })
+    assert.equal(expected.error === undefined && expected.outcome.verifications[0].expected, "Welcome back")
+  })
+
+  it("marks the proposal stale when the value changed or is gone", () => {
+    assert.deepEqual(
+      applyHealToStory(story, {
+        proposal_type: "selector",
+        original_code: "#old-save",
+        proposed_code: "#new-save",
+        target_kind: "step",
+        target_index: 0,
+      }),
+      { error: "The story changed since this fix was proposed", stale: true }
+    )
+    const missing = applyHealToStory(story, {
+      proposal_type: "selector",
+      original_code: "#save",
+      proposed_code: "#new-save",
+      target_kind: "step",
+      target_index: 9,
+    })
+    assert.equal("stale" in missing && missing.stale, true)
+  })
+
+  it("refuses selector and content heals on templated values", () => {
+    for (const heal of [
+      { proposal_type: "selector", original_code: "{{env.PASSWORD_FIELD}}", target_kind: "step", target_index: 2 },
+      { proposal_type: "content", original_code: "{{secrets.PASSWORD}}", target_kind: "step", target_index: 2 },
+      { proposal_type: "selector", original_code: "{{vars.GREETING_SELECTOR}}", target_kind: "verification", target_index: 1 },
+      { proposal_type: "content", original_code: "Hello {{param.name}}", target_kind: "verification", target_index: 1 },
+    ] as const) {
+      const result = applyHealToStory(story, { ...heal, proposed_code: "literal" })
+      assert.match(result.error ?? "", /uses a template/)
+    }
+  })
+
+  it("leaves flow heals and unlinked proposals to the user", () => {
+    assert.match(
+      applyHealToStory(story, {
+        proposal_type: "flow",
+        original_code: "",
+        proposed_code: "",
+        target_kind: "step",
+        target_index: 0,
+      }).error ?? "",
+      /editing the story steps/
+    )
+    assert.match(
+      applyHealToStory(story, { proposal_type: "selector", original_code: "#save", proposed_code: "#x" }).error ?? "",
+      /not linked to a story step/
+    )
+  })
+})
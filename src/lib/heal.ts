@@ -0,0 +1,103 @@
+import type { HealHistory, HealProposalType, HealTarget, StoryOutcome, StoryStep } from "@/lib/types"
+
+type HealPatch = Pick<
+  HealHistory,
+  "proposal_type" | "original_code" | "proposed_code" | "target_kind" | "target_index"
+>
+
+type HealPatchResult =
+  | { steps: StoryStep[]; outcome: StoryOutcome; error?: undefined }
+  // stale: the story no longer has the value the proposal replaces
+  | { error: string; stale?: boolean }
+
+const STALE_ERROR = "The story changed since this fix was proposed"
+
+// A value with {{...}} is filled in per run, from variables, secrets or data
+// rows. The healer only saw the filled-in text, so replacing the template with
+// it would drop the variable and could write a secret into the story.
+const TEMPLATED_VALUE_ERROR = "The value uses a template; edit the story to change it"
+
+function isTemplated(value?: string): boolean {
+  return !!value?.includes("{{")
+}
+
+// The text a heal replaces: the selector (or, before the step had one, its
+// element description) or the value. Undefined for flow heals and targets
+// the story no longer has.
+export function getHealTargetValue(
+  story: { steps: StoryStep[]; outcome: Pick<StoryOutcome, "verifications"> },
+  target: HealTarget,
+  type: HealProposalType
+): string | undefined {
+  if (type === "flow") return undefined
+
+  if (target.kind === "step") {
+    const step = story.steps[target.index]
+    if (!step) return undefined
+    return type === "selector" ? step.selector ?? step.element ?? "" : step.value ?? ""
+  }
+
+  const verification = story.outcome?.verifications?.[target.index]
+  if (!verification) return undefined
+  return type === "selector" ? verification.target ?? "" : verification.expected
+}
+
+// Apply a heal proposal to a copy of the story's steps and outcome.
+// Selector heals replace the step selector (or verification target),
+// content heals replace the step value (or expected verification value).
+// Neither applies to a templated value. The value replaced must still be the
+// proposal's original, otherwise the proposal is stale.
+export function applyHealToStory(
+  story: { steps: StoryStep[]; outcome: StoryOutcome },
+  heal: HealPatch
+): HealPatchResult {
+  if (heal.proposal_type === "flow") {
+    return { error: "Flow changes must be applied by editing the story steps" }
+  }
+
+  if (!heal.target_kind || heal.target_index === undefined || heal.target_index === null) {
+    return { error: "Heal proposal is not linked to a story step" }
+  }
+
+  const current = getHealTargetValue(
+    story,
+    { kind: heal.target_kind, index: heal.target_index },
+    heal.proposal_type
+  )
+  if (current !== undefined && current !== heal.original_code) {
+    return { error: STALE_ERROR, stale: true }
+  }
+  if (isTemplated(current)) {
+    return { error: TEMPLATED_VALUE_ERROR }
+  }
+
+  const steps = story.steps.map((step) => ({ ...step }))
+  const outcome = {
+    ...story.outcome,
+    verifications: (story.outcome?.verifications || []).map((v) => ({ ...v })),
+  }
+
+  if (heal.target_kind === "step") {
+    const step = steps[heal.target_index]
+    if (!step) {
+      return { error: `Story no longer has step ${heal.target_index + 1}`, stale: true }
+    }
+    if (heal.proposal_type === "selector") {
+      step.selector = heal.proposed_code
+    } else {
+      step.value = heal.proposed_code
+    }
+  } else {
+    const verification = outcome.verifications[heal.target_index]
+    if (!verification) {
+      return { error: `Story no longer has verification ${heal.target_index + 1}`, stale: true }
+    }
+    if (heal.proposal_type === "selector") {
+      verification.target = heal.proposed_code
+    } else {
+      verification.expected = heal.proposed_code
+    }
+  }
+
+  return { steps, outcome }
+}
@@ -0,0 +1,75 @@
+// Shapes the daily rollups (see 019_quality_rollups.sql) into chart series
+// for the app overview. Days are UTC, like the rollups.
+
+// Days covered by the trend charts
+export const TREND_DAYS = 30
+
+export interface DailyStatsRow {
+  environment_id: string
+  day: string
+  passed: number
+  failed: number
+}
+
+export interface DailyRunStatsRow {
+  day: string
+  runs: number
+  mean_duration_ms: number | null
+}
+
+export interface TrendSeries {
+  name: string
+  // One value per day; null where there's nothing to show
+  values: (number | null)[]
+}
+
+// The last `count` days as YYYY-MM-DD, oldest first
+export function getTrendDays(count = TREND_DAYS, today = new Date()): string[] {
+  const end = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate())
+  return Array.from({ length: count }, (_, i) =>
+    new Date(end - (count - 1 - i) * 86400000).toISOString().slice(0, 10)
+  )
+}
+
+// Share of passing results per day, one series per environment with results
+export function getPassRateSeries(
+  rows: DailyStatsRow[],
+  environments: { id: string; name: string }[],
+  days: string[]
+): TrendSeries[] {
+  return environments
+    .map((env) => {
+      const byDay = new Map(
+        rows.filter((r) => r.environment_id === env.id).map((r) => [r.day, r])
+      )
+      return {
+        name: env.name,
+        values: days.map((day) => {
+          const row = byDay.get(day)
+          const ran = row ? row.passed + row.failed : 0
+          return ran > 0 ? row!.passed / ran : null
+        }),
+      }
+    })
+    .filter((series) => series.values.some((v) => v != null))
+}
+
+// Mean duration of finished runs per day, across environments
+export function getMeanDurationSeries(rows: DailyRunStatsRow[], days: string[]): TrendSeries {
+  const totals = new Map<string, { runs: number; duration: number }>()
+  for (const row of rows) {
+    if (row.mean_duration_ms == null) continue
+    const total = totals.get(row.day) ?? { runs: 0, duration: 0 }
+    total.runs += row.runs
+    total.duration += row.mean_duration_ms * row.runs
+    totals.set(row.day, total)
+  }
+
+  return {
+    name: "Mean duration",
+    values: days.map((day) => {
+      const total = totals.get(day)
+      return total ? Math.round(total.duration / total.runs) : null
+    }),
+  }
+}
@@ -1,5 +1,6 @@
 import { Queue, QueueEvents, Job } from "bullmq"
 import type { ConnectionOptions } from "bullmq"
+import type { RunSettings } from "@/lib/types"
 
 let testRunQueue: Queue | null = null
 let queueEvents: QueueEvents | null = null
@@ -46,6 +47,8 @@ export interface TestRunJobData {
   environmentId: string
   storyIds?: string[]
   journeyIds?: string[]
+  // Per-run overrides of the app settings
+  settings?: RunSettings
 }
 
 export async function enqueueTestRun(data: TestRunJobData): Promise<Job> {
@@ -55,6 +58,77 @@ export async function enqueueTestRun(data: TestRunJobData): Promise<Job> {
   })
 }
 
+// Signs in to an environment as a role to check its auth config
+export interface TestLoginJobData {
+  environmentId: string
+  role: string
+}
+
+export interface TestLoginResult {
+  success: boolean
+  error?: string
+  url?: string
+}
+
+// Runs a test login on the worker and waits for its result
+export async function runTestLogin(
+  data: TestLoginJobData,
+  timeoutMs = 90000
+): Promise<TestLoginResult> {
+  const queue = getTestRunQueue()
+  const job = await queue.add("test-login", data, {
+    priority: 1,
+  })
+  return job.waitUntilFinished(getQueueEvents(), timeoutMs)
+}
+
+// Moves stored credentials onto the primary encryption key
+export interface ReencryptJobData {
+  // Omitted to cover every app in the deployment
+  appId?: string
+}
+
+export interface ReencryptResult {
+  total: number
+  reencrypted: number
+  // Edited or deleted while the job ran, so nothing to rewrite
+  skipped: number
+  failed: number
+  errors: string[]
+}
+
+export async function enqueueReencryption(data: ReencryptJobData): Promise<Job> {
+  const queue = getTestRunQueue()
+  return queue.add("reencrypt-credentials", data)
+}
+
+// Must match the key written by the worker in worker/user-pool.ts
+const TEST_USER_LEASE_PREFIX = "qay:test-user-lease:"
+
+export interface TestUserLease {
+  testRunId?: string
+  storyId?: string
+  acquiredAt: string
+}
+
+// Current leases on test user accounts, keyed by test user id
+export async function getTestUserLeases(
+  testUserIds: string[]
+): Promise<Record<string, TestUserLease>> {
+  if (testUserIds.length === 0) return {}
+
+  const redis = await getTestRunQueue().client
+  const values = await redis.mget(testUserIds.map((id) => `${TEST_USER_LEASE_PREFIX}${id}`))
+
+  const leases: Record<string, TestUserLease> = {}
+  values.forEach((value, i) => {
+    if (value) {
+      leases[testUserIds[i]] = JSON.parse(value) as TestUserLease
+    }
+  })
+  return leases
+}
+
 export async function getJobStatus(jobId: string) {
   const queue = getTestRunQueue()
   const job = await queue.getJob(jobId)
@@ -68,6 +142,7 @@ export async function getJobStatus(jobId: string) {
     state,
     progress,
     data: job.data,
+    returnValue: job.returnvalue,
     failedReason: job.failedReason,
     finishedOn: job.finishedOn,
     processedOn: job.processedOn,
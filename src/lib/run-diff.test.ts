@@ -0,0 +1,134 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { diffRuns, formatRunDiffSummary, isDurationRegression } from "@/lib/run-diff"
+import type { DiffSample } from "@/lib/run-diff"
+
+function sample(storyId: string, overrides: Partial<DiffSample> = {}): DiffSample {
+  return {
+    story_id: storyId,
+    story_name: `Story ${storyId}`,
+    journey_name: "Checkout",
+    status: "passed",
+    duration_ms: 1000,
+    created_at: "2026-01-05T10:00:00Z",
+    ...overrides,
+  }
+}
+
+function ids(entries: { storyId: string }[]): string[] {
+  return entries.map((e) => e.storyId)
+}
+
+describe("diffRuns", () => {
+  it("sorts stories into what changed between the runs", () => {
+    const diff = diffRuns(
+      [
+        sample("a"),
+        sample("b", { status: "failed" }),
+        sample("c", { status: "failed" }),
+        sample("d"),
+        sample("removed"),
+      ],
+      [
+        sample("a", { status: "failed", error: "Timeout" }),
+        sample("b"),
+        sample("c", { status: "failed" }),
+        sample("d"),
+        sample("added"),
+      ]
+    )
+    assert.deepEqual(ids(diff.newlyFailing), ["a"])
+    assert.deepEqual(ids(diff.newlyPassing), ["b"])
+    assert.deepEqual(ids(diff.stillFailing), ["c"])
+    assert.deepEqual(ids(diff.added), ["added"])
+    assert.deepEqual(ids(diff.removed), ["removed"])
+    assert.equal(diff.unchanged, 1)
+  })
+
+  it("does not count skipped results as failing or passing", () => {
+    const diff = diffRuns(
+      [sample("a"), sample("b", { status: "skipped" }), sample("c", { status: "failed" })],
+      [sample("a", { status: "skipped" }), sample("b"), sample("c", { status: "skipped" })]
+    )
+    assert.deepEqual(diff.newlyFailing, [])
+    assert.deepEqual(diff.newlyPassing, [])
+    assert.deepEqual(diff.stillFailing, [])
+    assert.equal(diff.unchanged, 3)
+  })
+
+  it("uses the auto-heal rerun instead of the first try", () => {
+    const diff = diffRuns(
+      [sample("a")],
+      [
+        sample("a", { status: "passed", created_at: "2026-01-06T10:01:00Z" }),
+        sample("a", { status: "failed", created_at: "2026-01-06T10:00:00Z" }),
+      ]
+    )
+    assert.deepEqual(diff.newlyFailing, [])
+    assert.equal(diff.unchanged, 1)
+  })
+
+  it("matches parameter rows separately", () => {
+    const diff = diffRuns(
+      [sample("a", { parameter_index: 0 }), sample("a", { parameter_index: 1 })],
+      [
+        sample("a", { parameter_index: 0 }),
+        sample("a", { parameter_index: 1, parameter_label: "admin", status: "failed" }),
+      ]
+    )
+    assert.equal(diff.newlyFailing.length, 1)
+    assert.equal(diff.newlyFailing[0].parameterLabel, "admin")
+    assert.equal(diff.unchanged, 1)
+  })
+
+  it("lists passing stories that got slower, slowest change first", () => {
+    const diff = diffRuns(
+      [sample("a"), sample("b"), sample("c")],
+      [
+        sample("a", { duration_ms: 2500 }),
+        sample("b", { duration_ms: 4000 }),
+        // 50% slower but under the minimum
+        sample("c", { duration_ms: 1500 }),
+      ]
+    )
+    assert.deepEqual(ids(diff.durationRegressions), ["b", "a"])
+    assert.equal(diff.unchanged, 1)
+  })
+})
+
+describe("isDurationRegression", () => {
+  it("needs both the ratio and the minimum", () => {
+    assert.equal(isDurationRegression({ status: "passed", durationMs: 10000 }, { status: "passed", durationMs: 11500 }), false)
+    assert.equal(isDurationRegression({ status: "passed", durationMs: 10000 }, { status: "passed", durationMs: 12500 }), true)
+    assert.equal(isDurationRegression({ status: "passed", durationMs: 100 }, { status: "passed", durationMs: 900 }), false)
+  })
+})
+
+describe("formatRunDiffSummary", () => {
+  it("summarizes the changes with the first line of new errors", () => {
+    const diff = diffRuns(
+      [sample("a"), sample("b", { status: "failed" })],
+      [sample("a", { status: "failed", error: "Element not found\n  at step 2" }), sample("b")]
+    )
+    assert.equal(
+      formatRunDiffSummary(diff),
+      [
+        "**1 newly failing, 1 newly passing, 0 still failing, 0 slower**",
+        "",
+        "Newly failing:",
+        "- Checkout › Story a: Element not found",
+        "",
+        "Newly passing:",
+        "- Checkout › Story b",
+      ].join("\n")
+    )
+  })
+
+  it("cuts long sections short", () => {
+    const base = Array.from({ length: 12 }, (_, i) => sample(`s${i}`))
+    const head = base.map((s) => ({ ...s, status: "failed" as const }))
+    const lines = formatRunDiffSummary(diffRuns(base, head)).split("\n")
+    assert.equal(lines.filter((l) => l.startsWith("- Checkout")).length, 10)
+    assert.equal(lines[lines.length - 1], "- and 2 more")
+  })
+})
@@ -0,0 +1,233 @@
+// Compares two test runs of an app story by story, for the compare page and
+// the public API. Each story (or parameter row) is matched across the runs
+// and sorted into what changed.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { formatDuration } from "@/lib/utils"
+import type { ResultStatus, TestRun } from "@/lib/types"
+
+// A story that got this much slower, and by at least the minimum, regressed
+export const DURATION_REGRESSION_RATIO = 0.2
+export const MIN_DURATION_REGRESSION_MS = 1000
+
+// Changes listed in the summary before it's cut short
+const SUMMARY_LIMIT = 10
+
+export interface DiffSample {
+  story_id: string
+  story_name: string
+  journey_name: string
+  status: ResultStatus
+  duration_ms: number
+  error?: string | null
+  parameter_index?: number | null
+  parameter_label?: string | null
+  created_at: string
+}
+
+export type DiffStatus = ResultStatus
+
+export interface DiffSide {
+  status: DiffStatus
+  durationMs: number
+  error?: string | null
+}
+
+export interface StoryDiff {
+  storyId: string
+  storyName: string
+  journeyName: string
+  parameterLabel?: string | null
+  base?: DiffSide
+  head?: DiffSide
+}
+
+export interface RunDiff {
+  newlyFailing: StoryDiff[]
+  newlyPassing: StoryDiff[]
+  stillFailing: StoryDiff[]
+  durationRegressions: StoryDiff[]
+  // Only in one of the runs, e.g. stories added or filtered out
+  added: StoryDiff[]
+  removed: StoryDiff[]
+  unchanged: number
+}
+
+function toSide(sample: DiffSample): DiffSide {
+  return { status: sample.status, durationMs: sample.duration_ms, error: sample.error }
+}
+
+// The last result per story and row; an auto-heal rerun replaces the first
+function latestByKey(samples: DiffSample[]): Map<string, DiffSample> {
+  const latest = new Map<string, DiffSample>()
+  for (const sample of [...samples].sort((a, b) => a.created_at.localeCompare(b.created_at))) {
+    latest.set(`${sample.story_id}:${sample.parameter_index ?? ""}`, sample)
+  }
+  return latest
+}
+
+export function isDurationRegression(base: DiffSide, head: DiffSide): boolean {
+  const delta = head.durationMs - base.durationMs
+  return delta >= MIN_DURATION_REGRESSION_MS && delta > base.durationMs * DURATION_REGRESSION_RATIO
+}
+
+export function diffRuns(baseResults: DiffSample[], headResults: DiffSample[]): RunDiff {
+  const base = latestByKey(baseResults)
+  const head = latestByKey(headResults)
+  const diff: RunDiff = {
+    newlyFailing: [],
+    newlyPassing: [],
+    stillFailing: [],
+    durationRegressions: [],
+    added: [],
+    removed: [],
+    unchanged: 0,
+  }
+
+  for (const key of new Set([...base.keys(), ...head.keys()])) {
+    const baseSample = base.get(key)
+    const headSample = head.get(key)
+    const sample = (headSample ?? baseSample)!
+    const entry: StoryDiff = {
+      storyId: sample.story_id,
+      storyName: sample.story_name,
+      journeyName: sample.journey_name,
+      parameterLabel: sample.parameter_label,
+      base: baseSample && toSide(baseSample),
+      head: headSample && toSide(headSample),
+    }
+
+    if (!entry.base) {
+      diff.added.push(entry)
+    } else if (!entry.head) {
+      diff.removed.push(entry)
+    } else if (entry.base.status === "passed" && entry.head.status === "failed") {
+      diff.newlyFailing.push(entry)
+    } else if (entry.base.status === "failed" && entry.head.status === "passed") {
+      diff.newlyPassing.push(entry)
+    } else if (entry.base.status === "failed" && entry.head.status === "failed") {
+      diff.stillFailing.push(entry)
+    } else if (
+      entry.base.status === "passed" &&
+      entry.head.status === "passed" &&
+      isDurationRegression(entry.base, entry.head)
+    ) {
+      diff.durationRegressions.push(entry)
+    } else {
+      diff.unchanged++
+    }
+  }
+
+  diff.durationRegressions.sort(
+    (a, b) => (b.head!.durationMs - b.base!.durationMs) - (a.head!.durationMs - a.base!.durationMs)
+  )
+  return diff
+}
+
+function storyLabel(entry: StoryDiff): string {
+  return `${entry.journeyName} › ${entry.storyName}${entry.parameterLabel ? ` [${entry.parameterLabel}]` : ""}`
+}
+
+// Markdown for CI comments, e.g. "regressions vs main"
+export function formatRunDiffSummary(diff: RunDiff): string {
+  const sections: [string, StoryDiff[], (entry: StoryDiff) => string][] = [
+    ["Newly failing", diff.newlyFailing, (e) => (e.head?.error ? `: ${e.head.error.split("\n")[0]}` : "")],
+    ["Newly passing", diff.newlyPassing, () => ""],
+    ["Still failing", diff.stillFailing, () => ""],
+    [
+      "Slower",
+      diff.durationRegressions,
+      (e) => ` (${formatDuration(e.base!.durationMs)} → ${formatDuration(e.head!.durationMs)})`,
+    ],
+  ]
+
+  const lines = [
+    `**${diff.newlyFailing.length} newly failing, ${diff.newlyPassing.length} newly passing, ` +
+      `${diff.stillFailing.length} still failing, ${diff.durationRegressions.length} slower**`,
+  ]
+  for (const [title, entries, detail] of sections) {
+    if (entries.length === 0) continue
+    lines.push("", `${title}:`)
+    for (const entry of entries.slice(0, SUMMARY_LIMIT)) {
+      lines.push(`- ${storyLabel(entry)}${detail(entry)}`)
+    }
+    if (entries.length > SUMMARY_LIMIT) {
+      lines.push(`- and ${entries.length - SUMMARY_LIMIT} more`)
+    }
+  }
+  return lines.join("\n")
+}
+
+export type RunSummary = Pick<
+  TestRun,
+  | "id"
+  | "environment_id"
+  | "status"
+  | "trigger_type"
+  | "stories_total"
+  | "stories_passed"
+  | "stories_failed"
+  | "stories_skipped"
+  | "duration_ms"
+  | "created_at"
+>
+
+const RUN_SUMMARY_COLUMNS =
+  "id, environment_id, status, trigger_type, stories_total, stories_passed, stories_failed, stories_skipped, duration_ms, created_at"
+
+const DIFF_SAMPLE_COLUMNS =
+  "story_id, story_name, journey_name, status, duration_ms, error, parameter_index, parameter_label, created_at"
+
+// The latest finished run on the same environment before the given one
+export async function getPreviousRunId(
+  supabase: SupabaseClient,
+  run: Pick<RunSummary, "id" | "environment_id" | "created_at">,
+  appId: string
+): Promise<string | null> {
+  const { data } = await supabase
+    .from("test_runs")
+    .select("id")
+    .eq("app_id", appId)
+    .eq("environment_id", run.environment_id)
+    .eq("status", "completed")
+    .lt("created_at", run.created_at)
+    .neq("id", run.id)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  return data?.id ?? null
+}
+
+// Loads both runs, which must belong to the app, and diffs their results
+export async function compareRuns(
+  supabase: SupabaseClient,
+  appId: string,
+  baseRunId: string,
+  headRunId: string
+): Promise<{ error: string } | { base: RunSummary; head: RunSummary; diff: RunDiff }> {
+  const { data: runs } = await supabase
+    .from("test_runs")
+    .select(RUN_SUMMARY_COLUMNS)
+    .eq("app_id", appId)
+    .in("id", [baseRunId, headRunId])
+
+  const base = runs?.find((r) => r.id === baseRunId)
+  const head = runs?.find((r) => r.id === headRunId)
+  if (!base || !head) {
+    return { error: "Both runs must belong to this app" }
+  }
+
+  const [{ data: baseResults, error: baseError }, { data: headResults, error: headError }] = await Promise.all([
+    supabase.from("test_results").select(DIFF_SAMPLE_COLUMNS).eq("test_run_id", baseRunId),
+    supabase.from("test_results").select(DIFF_SAMPLE_COLUMNS).eq("test_run_id", headRunId),
+  ])
+  if (baseError || headError) {
+    return { error: (baseError ?? headError)!.message }
+  }
+
+  return {
+    base: base as RunSummary,
+    head: head as RunSummary,
+    diff: diffRuns(baseResults || [], headResults || []),
+  }
+}
@@ -0,0 +1,94 @@
+// Browser settings for a test run: app-level defaults, optionally
+// overridden when a run is started. Shared with the worker, which resolves them.
+
+import type { NavigationWaitUntil, RunSettings } from "@/lib/types"
+
+export const DEFAULT_RUN_SETTINGS: Required<RunSettings> = {
+  retryCount: 3,
+  screenshotOnFailure: true,
+  stepTimeout: 30000,
+  viewport: { width: 1280, height: 720 },
+  waitUntil: "domcontentloaded",
+}
+
+export const WAIT_UNTIL_OPTIONS: { value: NavigationWaitUntil; label: string }[] = [
+  { value: "commit", label: "Response received (commit)" },
+  { value: "domcontentloaded", label: "DOM ready (domcontentloaded)" },
+  { value: "load", label: "Page loaded (load)" },
+  { value: "networkidle", label: "Network idle (networkidle)" },
+]
+
+export const MAX_RETRY_COUNT = 10
+export const MIN_STEP_TIMEOUT = 1000
+export const MAX_STEP_TIMEOUT = 300000
+export const VIEWPORT_LIMITS = { minWidth: 320, maxWidth: 3840, minHeight: 240, maxHeight: 2160 }
+
+// Fills in defaults for anything the app or run leaves unset
+export function resolveRunSettings(...layers: (RunSettings | undefined)[]): Required<RunSettings> {
+  const resolved = { ...DEFAULT_RUN_SETTINGS }
+  for (const layer of layers) {
+    if (layer) {
+      Object.assign(resolved, pickRunSettings(layer))
+    }
+  }
+  return resolved
+}
+
+function isIntegerBetween(value: unknown, min: number, max: number): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max
+}
+
+// Returns an error message, or null when every provided setting is valid
+export function validateRunSettings(settings: RunSettings): string | null {
+  if (
+    settings.retryCount !== undefined &&
+    !isIntegerBetween(settings.retryCount, 0, MAX_RETRY_COUNT)
+  ) {
+    return `Retries must be a whole number from 0 to ${MAX_RETRY_COUNT}`
+  }
+
+  if (
+    settings.screenshotOnFailure !== undefined &&
+    typeof settings.screenshotOnFailure !== "boolean"
+  ) {
+    return "Screenshot on failure must be true or false"
+  }
+
+  if (
+    settings.stepTimeout !== undefined &&
+    !isIntegerBetween(settings.stepTimeout, MIN_STEP_TIMEOUT, MAX_STEP_TIMEOUT)
+  ) {
+    return `Step timeout must be between ${MIN_STEP_TIMEOUT / 1000} and ${MAX_STEP_TIMEOUT / 1000} seconds`
+  }
+
+  if (settings.viewport !== undefined) {
+    const { width, height } = settings.viewport ?? {}
+    if (
+      !isIntegerBetween(width, VIEWPORT_LIMITS.minWidth, VIEWPORT_LIMITS.maxWidth) ||
+      !isIntegerBetween(height, VIEWPORT_LIMITS.minHeight, VIEWPORT_LIMITS.maxHeight)
+    ) {
+      return `Viewport must be between ${VIEWPORT_LIMITS.minWidth}x${VIEWPORT_LIMITS.minHeight} and ${VIEWPORT_LIMITS.maxWidth}x${VIEWPORT_LIMITS.maxHeight}`
+    }
+  }
+
+  if (
+    settings.waitUntil !== undefined &&
+    !WAIT_UNTIL_OPTIONS.some((option) => option.value === settings.waitUntil)
+  ) {
+    return `Unknown navigation wait strategy "${settings.waitUntil}"`
+  }
+
+  return null
+}
+
+// Keeps only the run settings from untrusted input such as a form field
+export function pickRunSettings(input: object): RunSettings {
+  const settings: Record<string, unknown> = {}
+  for (const key of Object.keys(DEFAULT_RUN_SETTINGS)) {
+    const value = (input as Record<string, unknown>)[key]
+    if (value !== undefined) {
+      settings[key] = value
+    }
+  }
+  return settings as RunSettings
+}
@@ -0,0 +1,156 @@
+// Story composition. A call step runs a step block or another story's steps
+// in its place, with {{args.name}} in the called steps replaced by the call's
+// arguments. Calls are expanded each time a story runs, so editing a block
+// changes every story that uses it.
+
+import { validateVariableName } from "@/lib/variables"
+import type { StepCall, StepOrigin, StoryStep } from "@/lib/types"
+
+// Calls inside calls, e.g. a block that calls another block
+export const MAX_CALL_DEPTH = 5
+
+export const CALL_ACTION = "call"
+
+const ARG_PATTERN = /\{\{\s*args\.([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g
+
+export interface CallTarget {
+  name: string
+  steps: StoryStep[]
+}
+
+// Looks up what a call runs; null when it doesn't exist in the app
+export type CallResolver = (call: StepCall) => Promise<CallTarget | null>
+
+export interface ExpandedStep {
+  step: StoryStep
+  // Index of the story's own step, which is the outermost call for nested steps
+  index: number
+  origin?: StepOrigin[]
+}
+
+function stepTexts(step: StoryStep): string[] {
+  return [step.element, step.selector, step.value, step.description, ...Object.values(step.call?.args ?? {})]
+    .filter((text): text is string => !!text)
+}
+
+// Argument names the steps use, including in the arguments of nested calls
+export function getArgNames(steps: StoryStep[]): string[] {
+  const names = new Set<string>()
+  for (const text of steps.flatMap(stepTexts)) {
+    for (const match of text.matchAll(ARG_PATTERN)) {
+      names.add(match[1])
+    }
+  }
+  return [...names]
+}
+
+function applyArgs(step: StoryStep, args: Record<string, string>): StoryStep {
+  const fill = (text: string | undefined) =>
+    text && text.replace(ARG_PATTERN, (_, name: string) => args[name])
+  return {
+    ...step,
+    element: fill(step.element),
+    selector: fill(step.selector),
+    value: fill(step.value),
+    description: fill(step.description),
+    call: step.call && {
+      ...step.call,
+      args: step.call.args && Object.fromEntries(
+        Object.entries(step.call.args).map(([name, value]) => [name, fill(value) ?? ""])
+      ),
+    },
+  }
+}
+
+function callKey(call: { kind: string; id: string }): string {
+  return `${call.kind}:${call.id}`
+}
+
+async function expandInto(
+  expanded: ExpandedStep[],
+  steps: StoryStep[],
+  resolve: CallResolver,
+  parents: StepOrigin[],
+  callee?: Omit<StepOrigin, "step">,
+  topIndex?: number
+): Promise<void> {
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i]
+    const index = topIndex ?? i
+    const origin = callee ? [...parents, { ...callee, step: i }] : undefined
+    const where = `Step ${i + 1}${callee ? ` of "${callee.name}"` : ""}`
+
+    if (!step.call) {
+      expanded.push(origin ? { step, index, origin } : { step, index })
+      continue
+    }
+
+    const call = step.call
+    const chain = origin ?? []
+    if (chain.length >= MAX_CALL_DEPTH) {
+      throw new Error(`${where} nests calls more than ${MAX_CALL_DEPTH} deep`)
+    }
+    const repeated = chain.find((o) => callKey(o) === callKey(call))
+    if (repeated) {
+      throw new Error(`${where} calls "${repeated.name}" from inside itself`)
+    }
+
+    const target = await resolve(call)
+    if (!target) {
+      throw new Error(`${where} calls a ${call.kind === "block" ? "step block" : "story"} that no longer exists`)
+    }
+
+    const args = call.args ?? {}
+    const missing = getArgNames(target.steps).filter((name) => !Object.prototype.hasOwnProperty.call(args, name))
+    if (missing.length > 0) {
+      throw new Error(`${where} calls "${target.name}" without ${missing.map((name) => `"${name}"`).join(", ")}`)
+    }
+
+    await expandInto(
+      expanded,
+      target.steps.map((s) => applyArgs(s, args)),
+      resolve,
+      chain,
+      { kind: call.kind, id: call.id, name: target.name },
+      index
+    )
+  }
+}
+
+// Replace call steps with the steps they run. Throws with a message for the
+// test result when a call can't be expanded.
+export async function expandSteps(
+  steps: StoryStep[],
+  resolve: CallResolver
+): Promise<ExpandedStep[]> {
+  const expanded: ExpandedStep[] = []
+  await expandInto(expanded, steps, resolve, [])
+  return expanded
+}
+
+// Returns an error message, or null when the steps can be saved
+export function validateSteps(steps: StoryStep[]): string | null {
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i]
+    if (!step.action?.trim()) {
+      return `Step ${i + 1} needs an action`
+    }
+    if (!step.call) continue
+
+    if (!["block", "story"].includes(step.call.kind) || !step.call.id) {
+      return `Step ${i + 1} needs a step block or story to call`
+    }
+    for (const name of Object.keys(step.call.args ?? {})) {
+      const nameError = validateVariableName(name)
+      if (nameError) {
+        return `Step ${i + 1}, argument "${name}": ${nameError}`
+      }
+    }
+  }
+  return null
+}
+
+// Calls made directly by the steps, for checking they exist
+export function getStepCalls(steps: StoryStep[]): StepCall[] {
+  return steps.flatMap((step) => (step.call ? [step.call] : []))
+}
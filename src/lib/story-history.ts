@@ -0,0 +1,125 @@
+// Summaries of a story's results across runs, for the story history page:
+// one outcome per run for the trend lines, and failures grouped by error.
+
+import type { ResultStatus } from "@/lib/types"
+
+export interface HistorySample {
+  test_run_id: string
+  passed: boolean
+  status: ResultStatus
+  duration_ms: number
+  error?: string | null
+  screenshot_url?: string | null
+  parameter_index?: number | null
+  created_at: string
+}
+
+export interface RunPoint {
+  runId: string
+  at: string
+  // Every row of the run passed
+  passed: boolean
+  // Mean over the rows
+  durationMs: number
+}
+
+export interface ErrorCluster {
+  signature: string
+  count: number
+  // Most recent error of the cluster, as recorded
+  example: string
+  firstSeen: string
+  lastSeen: string
+  screenshotUrl?: string
+}
+
+// Runs averaged into each point of the pass-rate line
+export const PASS_RATE_WINDOW = 5
+
+// One point per run, oldest first. Skipped results never ran, so a run with
+// only skipped results is left out; an auto-heal rerun replaces the first try.
+export function getRunPoints(samples: HistorySample[]): RunPoint[] {
+  const runs = new Map<string, { at: string; rows: Map<string, HistorySample> }>()
+  for (const sample of [...samples].sort((a, b) => a.created_at.localeCompare(b.created_at))) {
+    if (sample.status === "skipped") continue
+    let run = runs.get(sample.test_run_id)
+    if (!run) {
+      run = { at: sample.created_at, rows: new Map() }
+      runs.set(sample.test_run_id, run)
+    }
+    run.rows.set(String(sample.parameter_index ?? ""), sample)
+  }
+
+  return [...runs.entries()].map(([runId, { at, rows }]) => {
+    const results = [...rows.values()]
+    return {
+      runId,
+      at,
+      passed: results.every((r) => r.passed),
+      durationMs: Math.round(results.reduce((sum, r) => sum + r.duration_ms, 0) / results.length),
+    }
+  })
+}
+
+// Share of passing runs over a trailing window, one value per run
+export function getRollingPassRate(points: RunPoint[], window = PASS_RATE_WINDOW): number[] {
+  return points.map((_, i) => {
+    const slice = points.slice(Math.max(0, i - window + 1), i + 1)
+    return slice.filter((p) => p.passed).length / slice.length
+  })
+}
+
+export function getMedian(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2)
+}
+
+// Reduces an error to what stays the same between occurrences: the first
+// line, with quoted values, URLs, ids and numbers replaced
+export function normalizeErrorMessage(error: string): string {
+  return error
+    .split("\n")[0]
+    .replace(/https?:\/\/\S+/g, "<url>")
+    .replace(/"[^"]*"|'[^']*'|`[^`]*`/g, "<value>")
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<id>")
+    .replace(/\d+(\.\d+)?/g, "<n>")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+// Failures grouped by normalized error, most frequent first. Only the latest
+// result of each run and parameter row counts, so a failure an auto-heal
+// rerun replaced is left out.
+export function clusterErrors(samples: HistorySample[]): ErrorCluster[] {
+  const latest = new Map<string, HistorySample>()
+  for (const sample of [...samples].sort((a, b) => a.created_at.localeCompare(b.created_at))) {
+    latest.set(`${sample.test_run_id}:${sample.parameter_index ?? ""}`, sample)
+  }
+
+  const clusters = new Map<string, ErrorCluster>()
+  const newestFirst = [...latest.values()].sort((a, b) => b.created_at.localeCompare(a.created_at))
+
+  for (const sample of newestFirst) {
+    if (sample.status !== "failed" || !sample.error) continue
+    const signature = normalizeErrorMessage(sample.error)
+    const cluster = clusters.get(signature)
+    if (!cluster) {
+      clusters.set(signature, {
+        signature,
+        count: 1,
+        example: sample.error,
+        firstSeen: sample.created_at,
+        lastSeen: sample.created_at,
+        screenshotUrl: sample.screenshot_url || undefined,
+      })
+      continue
+    }
+    cluster.count++
+    cluster.firstSeen = sample.created_at
+    cluster.screenshotUrl ??= sample.screenshot_url || undefined
+  }
+
+  return [...clusters.values()].sort((a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen))
+}
@@ -0,0 +1,116 @@
+// Setup and teardown hooks run around a story by its preconditions: an HTTP
+// call, another story, or one of the app's named fixtures. The worker runs
+// them; this validates them and converts their text fields for editing.
+
+import { validateVariableName } from "@/lib/variables"
+import type { Fixture, HttpHookRequest, HttpMethod, StoryHook, StoryPrecondition } from "@/lib/types"
+
+export const HTTP_METHODS: HttpMethod[] = ["GET", "POST", "PUT", "PATCH", "DELETE"]
+
+// Returns an error message, or null when the request can be saved
+export function validateHttpHookRequest(request: HttpHookRequest): string | null {
+  if (!HTTP_METHODS.includes(request.method)) {
+    return `Unknown HTTP method "${request.method}"`
+  }
+  const url = request.url?.trim()
+  if (!url) {
+    return "A URL is required"
+  }
+  // Relative to the environment's base URL, absolute, or built from a variable
+  if (!/^(\/|https?:\/\/|\{\{)/.test(url)) {
+    return `URL "${url}" must start with /, http:// or https://`
+  }
+  for (const name of Object.keys(request.headers ?? {})) {
+    if (!/^[A-Za-z0-9-]+$/.test(name)) {
+      return `Invalid header name "${name}"`
+    }
+  }
+  for (const [name, path] of Object.entries(request.capture ?? {})) {
+    const nameError = validateVariableName(name)
+    if (nameError) {
+      return `Capture "${name}": ${nameError}`
+    }
+    if (!path.trim()) {
+      return `Capture "${name}" needs a response path`
+    }
+  }
+  return null
+}
+
+function validateStoryHook(hook: StoryHook, fixtureNames?: string[]): string | null {
+  switch (hook.kind) {
+    case "http":
+      return validateHttpHookRequest(hook.request)
+    case "story":
+      return hook.storyId ? null : "Choose a story to run"
+    case "fixture":
+      if (!hook.fixture) return "Choose a fixture"
+      if (fixtureNames && !fixtureNames.includes(hook.fixture)) {
+        return `Fixture "${hook.fixture}" is not defined in the app settings`
+      }
+      return null
+    default:
+      return "Unknown hook type"
+  }
+}
+
+export function validatePreconditions(
+  preconditions: StoryPrecondition[],
+  fixtureNames?: string[]
+): string | null {
+  for (const precondition of preconditions) {
+    for (const [phase, hook] of [["Setup", precondition.setup], ["Teardown", precondition.teardown]] as const) {
+      const error = hook && validateStoryHook(hook, fixtureNames)
+      if (error) {
+        return `${phase} for "${precondition.description}": ${error}`
+      }
+    }
+  }
+  return null
+}
+
+export function validateFixtures(fixtures: Fixture[]): string | null {
+  const names = new Set<string>()
+  for (const fixture of fixtures) {
+    if (!fixture.name?.trim()) {
+      return "Every fixture needs a name"
+    }
+    if (names.has(fixture.name)) {
+      return `There is more than one fixture named "${fixture.name}"`
+    }
+    names.add(fixture.name)
+
+    const error =
+      validateHttpHookRequest(fixture.setup) ??
+      (fixture.teardown ? validateHttpHookRequest(fixture.teardown) : null)
+    if (error) {
+      return `Fixture "${fixture.name}": ${error}`
+    }
+  }
+  return null
+}
+
+// Headers and captures are edited as one "key<separator>value" pair per line
+export function parsePairLines(text: string, separator: string): Record<string, string> {
+  const pairs: Record<string, string> = {}
+  for (const line of text.split("\n")) {
+    const at = line.indexOf(separator)
+    if (at > 0) {
+      pairs[line.slice(0, at).trim()] = line.slice(at + separator.length).trim()
+    }
+  }
+  return pairs
+}
+
+export function formatPairLines(pairs: Record<string, string> | undefined, separator: string): string {
+  return Object.entries(pairs ?? {})
+    .map(([key, value]) => `${key}${separator}${value}`)
+    .join("\n")
+}
+
+// Short description of a hook for lists
+export function describeStoryHook(hook: StoryHook, storyTitles?: Record<string, string>): string {
+  if (hook.kind === "http") return `${hook.request.method} ${hook.request.url}`
+  if (hook.kind === "fixture") return `Fixture: ${hook.fixture}`
+  return `Story: ${storyTitles?.[hook.storyId] ?? hook.storyId}`
+}
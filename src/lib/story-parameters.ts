@@ -0,0 +1,155 @@
+// Parameter tables for data-driven stories. Each row runs the story once with
+// its values available as {{param.column}}, and gets its own test result.
+// Tables are imported from CSV (header row first) or JSON (an array of objects).
+
+import { validateVariableName } from "@/lib/variables"
+import type { StoryParameters } from "@/lib/types"
+
+export const MAX_PARAMETER_ROWS = 100
+
+// A column with this name is used as the row's label in results
+export const LABEL_COLUMN = "label"
+
+// Minimal RFC 4180 parsing: quoted fields may contain commas, newlines and
+// doubled quotes
+function parseCsv(text: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true
+    } else if (char === ",") {
+      record.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (quoted) {
+    throw new Error("CSV has an unterminated quoted field")
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  // Skip blank lines
+  return records.filter((r) => r.some((value) => value.trim() !== ""))
+}
+
+function fromCsv(text: string): StoryParameters {
+  const [header, ...records] = parseCsv(text)
+  if (!header) {
+    throw new Error("CSV is empty")
+  }
+
+  const columns = header.map((column) => column.trim())
+  const rows = records.map((record, i) => {
+    if (record.length !== columns.length) {
+      throw new Error(`CSV row ${i + 2} has ${record.length} fields, expected ${columns.length}`)
+    }
+    return Object.fromEntries(columns.map((column, c) => [column, record[c]]))
+  })
+  return { columns, rows }
+}
+
+function fromJson(text: string): StoryParameters {
+  const parsed: unknown = JSON.parse(text)
+  if (!Array.isArray(parsed) || parsed.some((row) => !row || typeof row !== "object" || Array.isArray(row))) {
+    throw new Error("JSON must be an array of objects, one per row")
+  }
+
+  const columns: string[] = []
+  for (const row of parsed as Record<string, unknown>[]) {
+    for (const column of Object.keys(row)) {
+      if (!columns.includes(column)) columns.push(column)
+    }
+  }
+
+  const rows = (parsed as Record<string, unknown>[]).map((row) =>
+    Object.fromEntries(
+      columns.map((column) => [column, row[column] === undefined || row[column] === null ? "" : String(row[column])])
+    )
+  )
+  return { columns, rows }
+}
+
+// Parse a pasted or uploaded table; throws with a message for the user
+export function parseParameterTable(text: string): StoryParameters {
+  const trimmed = text.trim()
+  const parameters = trimmed.startsWith("[") ? fromJson(trimmed) : fromCsv(trimmed)
+
+  const error = validateStoryParameters(parameters)
+  if (error) {
+    throw new Error(error)
+  }
+  return parameters
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// CSV text of a saved table, for editing it again
+export function formatParameterTable(parameters: StoryParameters): string {
+  return [
+    parameters.columns.map(csvField).join(","),
+    ...parameters.rows.map((row) => parameters.columns.map((column) => csvField(row[column] ?? "")).join(",")),
+  ].join("\n")
+}
+
+// Returns an error message, or null when the table can be saved
+export function validateStoryParameters(parameters: StoryParameters): string | null {
+  if (parameters.columns.length === 0) {
+    return "The parameter table needs at least one column"
+  }
+  for (const column of parameters.columns) {
+    const nameError = validateVariableName(column)
+    if (nameError) {
+      return `Column "${column}": ${nameError}`
+    }
+  }
+  if (new Set(parameters.columns).size !== parameters.columns.length) {
+    return "Column names must be unique"
+  }
+  if (parameters.rows.length === 0) {
+    return "The parameter table needs at least one row"
+  }
+  if (parameters.rows.length > MAX_PARAMETER_ROWS) {
+    return `The parameter table can have at most ${MAX_PARAMETER_ROWS} rows`
+  }
+  return null
+}
+
+// How a row is named in results: its label column, or its first values
+export function getParameterRowLabel(parameters: StoryParameters, index: number): string {
+  const row = parameters.rows[index]
+  if (row[LABEL_COLUMN]) {
+    return row[LABEL_COLUMN]
+  }
+  const label = parameters.columns
+    .slice(0, 2)
+    .map((column) => `${column}=${row[column]}`)
+    .join(", ")
+  return label || `Row ${index + 1}`
+}
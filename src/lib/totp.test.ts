@@ -0,0 +1,69 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { generateTotp, parseTotpSecret, totpSecondsRemaining, validateTotpSecret } from "@/lib/totp"
+
+// The RFC 6238 test keys: "1234567890" repeated to 20, 32 and 64 bytes
+const SHA1_KEY = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ"
+const SHA256_KEY = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZA"
+const SHA512_KEY =
+  "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNA"
+
+function uri(params: string): string {
+  return `otpauth://totp/Qay:tester@example.com?${params}`
+}
+
+describe("generateTotp", () => {
+  it("matches the RFC 6238 test vectors", () => {
+    const sha1 = uri(`secret=${SHA1_KEY}&digits=8`)
+    assert.equal(generateTotp(sha1, 59 * 1000), "94287082")
+    assert.equal(generateTotp(sha1, 1111111109 * 1000), "07081804")
+    assert.equal(generateTotp(sha1, 20000000000 * 1000), "65353130")
+    assert.equal(generateTotp(uri(`secret=${SHA256_KEY}&digits=8&algorithm=SHA256`), 59 * 1000), "46119246")
+    assert.equal(generateTotp(uri(`secret=${SHA512_KEY}&digits=8&algorithm=SHA512`), 59 * 1000), "90693936")
+  })
+
+  it("defaults a bare base32 key to 6 digits every 30 seconds", () => {
+    assert.equal(generateTotp(SHA1_KEY, 59 * 1000), "287082")
+    // Same 30 second step
+    assert.equal(generateTotp(SHA1_KEY, 31 * 1000), generateTotp(SHA1_KEY, 59 * 1000))
+  })
+
+  it("accepts keys with spaces, dashes, padding and lower case", () => {
+    assert.equal(generateTotp("gezd gnbv-gy3t qojq gezd gnbv gy3t qojq====", 59 * 1000), "287082")
+  })
+
+  it("uses the period from the URI", () => {
+    const secret = uri(`secret=${SHA1_KEY}&period=60`)
+    assert.equal(generateTotp(secret, 0), generateTotp(secret, 59 * 1000))
+    assert.notEqual(generateTotp(secret, 59 * 1000), generateTotp(secret, 60 * 1000))
+    assert.equal(totpSecondsRemaining(secret, 45 * 1000), 15)
+  })
+})
+
+describe("parseTotpSecret", () => {
+  it("reads digits, period and algorithm from an otpauth URI", () => {
+    const params = parseTotpSecret(uri(`secret=${SHA1_KEY}&digits=8&period=60&algorithm=sha256`))
+    assert.equal(params.digits, 8)
+    assert.equal(params.period, 60)
+    assert.equal(params.algorithm, "sha256")
+    assert.equal(params.key.toString(), "12345678901234567890")
+  })
+
+  it("rejects digits and periods that are not whole numbers in range", () => {
+    for (const digits of ["abc", "5", "9", "6.5", "7x"]) {
+      assert.match(validateTotpSecret(uri(`secret=${SHA1_KEY}&digits=${digits}`))!, /digits must be 6 to 8/)
+    }
+    for (const period of ["abc", "0", "-30", "30s", "1.5"]) {
+      assert.match(validateTotpSecret(uri(`secret=${SHA1_KEY}&period=${period}`))!, /period must be a positive/)
+    }
+  })
+
+  it("rejects other invalid secrets", () => {
+    assert.match(validateTotpSecret("")!, /empty/)
+    assert.match(validateTotpSecret("NOT-BASE32!")!, /not valid base32/)
+    assert.match(validateTotpSecret(`otpauth://hotp/Qay?secret=${SHA1_KEY}`)!, /Only time-based/)
+    assert.match(validateTotpSecret(uri("digits=6"))!, /no secret/)
+    assert.match(validateTotpSecret(uri(`secret=${SHA1_KEY}&algorithm=MD5`))!, /Unsupported otpauth algorithm/)
+    assert.equal(validateTotpSecret(uri(`secret=${SHA1_KEY}`)), null)
+  })
+})
@@ -0,0 +1,111 @@
+// Time-based one-time passwords (RFC 6238) for test users behind 2FA.
+// Shared by the test user actions, which validate secrets, and the worker,
+// which answers one-time code prompts at login.
+//
+// A secret is either the base32 key an authenticator app is given, or the
+// otpauth:// URI from the setup QR code, which may also set the digits,
+// period and algorithm.
+
+import { createHmac } from "crypto"
+
+export interface TotpParams {
+  key: Buffer
+  digits: number
+  period: number
+  algorithm: "sha1" | "sha256" | "sha512"
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+
+function decodeBase32(input: string): Buffer {
+  const clean = input.replace(/[\s-]/g, "").replace(/=+$/, "").toUpperCase()
+  if (clean.length === 0) {
+    throw new Error("Secret is empty")
+  }
+
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (const char of clean) {
+    const value = BASE32_ALPHABET.indexOf(char)
+    if (value < 0) {
+      throw new Error(`Secret is not valid base32 (unexpected "${char}")`)
+    }
+    buffer = (buffer << 5) | value
+    bits += 5
+    if (bits >= 8) {
+      bits -= 8
+      bytes.push((buffer >> bits) & 0xff)
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+// A whole number, or null for anything else (e.g. "abc", "7.5" or "30s")
+function parseIntegerParam(url: URL, name: string, fallback: number): number | null {
+  const raw = url.searchParams.get(name)
+  if (raw === null || raw === "") return fallback
+  const value = /^\d+$/.test(raw) ? Number(raw) : NaN
+  return Number.isInteger(value) ? value : null
+}
+
+export function parseTotpSecret(secret: string): TotpParams {
+  const trimmed = secret.trim()
+  if (!trimmed.toLowerCase().startsWith("otpauth://")) {
+    return { key: decodeBase32(trimmed), digits: 6, period: 30, algorithm: "sha1" }
+  }
+
+  const url = new URL(trimmed)
+  if (url.host.toLowerCase() !== "totp") {
+    throw new Error("Only time-based (totp) otpauth URIs are supported")
+  }
+
+  const keySource = url.searchParams.get("secret")
+  if (!keySource) {
+    throw new Error("otpauth URI has no secret")
+  }
+
+  const digits = parseIntegerParam(url, "digits", 6)
+  const period = parseIntegerParam(url, "period", 30)
+  const algorithm = (url.searchParams.get("algorithm") || "SHA1").toLowerCase()
+  if (digits === null || digits < 6 || digits > 8) {
+    throw new Error("otpauth URI digits must be 6 to 8")
+  }
+  if (period === null || period <= 0) {
+    throw new Error("otpauth URI period must be a positive number of seconds")
+  }
+  if (algorithm !== "sha1" && algorithm !== "sha256" && algorithm !== "sha512") {
+    throw new Error(`Unsupported otpauth algorithm "${algorithm}"`)
+  }
+
+  return { key: decodeBase32(keySource), digits, period, algorithm }
+}
+
+// Returns an error message, or null when the secret can generate codes
+export function validateTotpSecret(secret: string): string | null {
+  try {
+    parseTotpSecret(secret)
+    return null
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e)
+  }
+}
+
+export function generateTotp(secret: string, time: number = Date.now()): string {
+  const { key, digits, period, algorithm } = parseTotpSecret(secret)
+
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(Math.floor(time / 1000 / period)))
+
+  const hmac = createHmac(algorithm, key).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits
+
+  return code.toString().padStart(digits, "0")
+}
+
+// Seconds until the current code stops being valid
+export function totpSecondsRemaining(secret: string, time: number = Date.now()): number {
+  const { period } = parseTotpSecret(secret)
+  return period - ((time / 1000) % period)
+}
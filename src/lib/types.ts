@@ -3,8 +3,11 @@
 export type Plan = 'free' | 'pro' | 'enterprise'
 export type Role = 'owner' | 'admin' | 'member' | 'viewer'
 export type TestStatus = 'pending' | 'running' | 'passed' | 'failed' | 'skipped'
+
+// Outcome of a single story result; skipped stories never ran
+export type ResultStatus = 'passed' | 'failed' | 'skipped'
 export type TriggerType = 'manual' | 'scheduled' | 'api' | 'ci'
-export type HealStatus = 'proposed' | 'approved' | 'rejected' | 'applied'
+export type HealStatus = 'proposed' | 'approved' | 'rejected' | 'applied' | 'stale'
 export type HealProposalType = 'selector' | 'flow' | 'content'
 
 // Organization
@@ -47,8 +50,50 @@ export interface AppSettings {
   defaultEnvironmentId?: string
   retryCount?: number
   screenshotOnFailure?: boolean
+  healPolicy?: HealPolicy
+  autoHealThreshold?: number
+  visualLowConfidencePolicy?: LowConfidencePolicy
+  // Stories run at once within a test run
+  parallelism?: number
+  // Milliseconds each action and navigation may take
+  stepTimeout?: number
+  viewport?: Viewport
+  waitUntil?: NavigationWaitUntil
+  sessionReuse?: SessionReuse
+  // How long a signed-in session is reused when sessionReuse is 'ttl'
+  sessionTtlMinutes?: number
+  fixtures?: Fixture[]
+  // Quarantine stories whose flakiness score reaches quarantineThreshold
+  autoQuarantine?: boolean
+  quarantineThreshold?: number
 }
 
+// off: sign in for every story; run: reuse a role's session within a test
+// run; ttl: reuse it across runs until it is sessionTtlMinutes old
+export type SessionReuse = 'off' | 'run' | 'ttl'
+
+export interface Viewport {
+  width: number
+  height: number
+}
+
+// Page load event a navigation waits for before the next step runs
+export type NavigationWaitUntil = 'load' | 'domcontentloaded' | 'networkidle' | 'commit'
+
+// App settings that a single test run can override
+export type RunSettings = Pick<
+  AppSettings,
+  'retryCount' | 'screenshotOnFailure' | 'stepTimeout' | 'viewport' | 'waitUntil'
+>
+
+// off: never ask the healer; propose: record proposals for review;
+// auto-apply: patch the story when a verifying rerun passes
+export type HealPolicy = 'off' | 'propose' | 'auto-apply'
+
+// How to score a visual verification the inspector has low confidence in:
+// fail it, pass it with a warning, or trust the inspector's verdict
+export type LowConfidencePolicy = 'fail' | 'warn' | 'trust'
+
 // Environment
 export interface Environment {
   id: string
@@ -62,12 +107,43 @@ export interface Environment {
 
 export interface AuthConfig {
   type: 'none' | 'basic' | 'form' | 'oauth'
+  // HTTP basic auth sent with every request, e.g. for a staging site behind
+  // basic auth. With type 'basic' a story's role credentials replace these.
   username?: string
-  password?: string
+  password_encrypted?: string
   loginUrl?: string
   usernameSelector?: string
   passwordSelector?: string
   submitSelector?: string
+  successIndicator?: string
+  // One-time code field shown after sign-in to users with a TOTP secret
+  otpSelector?: string
+  // Defaults to pressing Enter in the code field
+  otpSubmitSelector?: string
+  oauth?: OAuthConfig
+}
+
+// idp: sign in on the identity provider's login page with the role's test
+// user. token: skip the login page and inject the role's test user password
+// as a token.
+export type OAuthMode = 'idp' | 'token'
+
+export type TokenTarget = 'header' | 'cookie' | 'localStorage'
+
+export interface OAuthConfig {
+  mode: OAuthMode
+  // idp mode; loginUrl is the app page that starts the sign-in
+  startSelector?: string
+  idpUsernameSelector?: string
+  idpNextSelector?: string
+  idpPasswordSelector?: string
+  idpSubmitSelector?: string
+  // token mode
+  tokenTarget?: TokenTarget
+  // Header name, cookie name or localStorage key
+  tokenName?: string
+  // Prepended to the token, e.g. "Bearer "
+  tokenPrefix?: string
 }
 
 // Journey
@@ -79,6 +155,8 @@ export interface Journey {
   description?: string
   preconditions?: string[]
   position: number
+  // Stories in a serial journey run one at a time in position order
+  is_serial: boolean
   created_at: string
 }
 
@@ -95,15 +173,66 @@ export interface Story {
   position: number
   is_enabled: boolean
   generated_test_code?: string
+  execution_mode?: ExecutionMode
+  // Generated code only runs once an owner or admin approved it
+  code_approved_at?: string | null
+  code_approved_by?: string | null
   last_run_at?: string
   last_result?: TestStatus
   required_role?: string
+  parameters?: StoryParameters | null
+  // 0 (stable) to 1 (flaky); null until there are enough runs
+  flakiness_score?: number | null
+  // Quarantined stories run, but their failures don't fail the run
+  quarantined_at?: string | null
+  quarantine_reason?: string | null
   created_at: string
 }
 
+// Rows of a data-driven story; each row runs the story once with its values
+// as {{param.column}}
+export interface StoryParameters {
+  columns: string[]
+  rows: Record<string, string>[]
+}
+
+// steps: interpret the story steps; code: run generated_test_code with Playwright Test
+export type ExecutionMode = 'steps' | 'code'
+
 export interface StoryPrecondition {
   description: string
   type?: 'auth' | 'data' | 'state'
+  // Run before the story; a failure skips it
+  setup?: StoryHook
+  // Run after the story whether it passed or not. A fixture setup cleans up
+  // with the fixture's own teardown unless one is set here.
+  teardown?: StoryHook
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+// HTTP call made around a story, e.g. to a seeding endpoint. The URL,
+// headers and body are templates; relative URLs use the environment's base URL.
+export interface HttpHookRequest {
+  method: HttpMethod
+  url: string
+  headers?: Record<string, string>
+  body?: string
+  // Response JSON values to keep as {{vars.name}}, by dot path
+  capture?: Record<string, string>
+}
+
+// What a precondition runs: an HTTP call, another story, or a named fixture
+export type StoryHook =
+  | { kind: 'http'; request: HttpHookRequest }
+  | { kind: 'story'; storyId: string }
+  | { kind: 'fixture'; fixture: string }
+
+// Named HTTP setup shared by an app's stories, with its own cleanup call
+export interface Fixture {
+  name: string
+  setup: HttpHookRequest
+  teardown?: HttpHookRequest
 }
 
 export interface StoryStep {
@@ -112,6 +241,15 @@ export interface StoryStep {
   value?: string
   description?: string
   selector?: string
+  // Set on "call" steps, which run a step block or another story in their place
+  call?: StepCall
+}
+
+export interface StepCall {
+  kind: 'block' | 'story'
+  id: string
+  // Values for {{args.name}} in the called steps
+  args?: Record<string, string>
 }
 
 export interface StoryOutcome {
@@ -138,12 +276,16 @@ export interface TestRun {
   stories_passed: number
   stories_failed: number
   stories_skipped: number
+  // Failed stories that were quarantined, not counted in stories_failed
+  stories_quarantined?: number
   duration_ms?: number
   started_at?: string
   completed_at?: string
   created_at: string
   current_story_id?: string | null
   current_story_name?: string | null
+  scheduled_job_id?: string | null
+  scheduled_for?: string | null
 }
 
 // Test Result
@@ -154,16 +296,37 @@ export interface TestResult {
   journey_name: string
   story_name: string
   passed: boolean
+  status: ResultStatus
   duration_ms: number
   steps?: StepResult[]
   error?: string
   screenshot_url?: string
   console_errors?: string[]
   heal_proposal?: HealProposal
+  verifications?: VerificationResult[]
   retries: number
+  // Set for rows of a data-driven story
+  parameter_index?: number | null
+  parameter_label?: string | null
+  quarantined?: boolean
+  // Set on an auto-heal verification rerun: the failed result it supersedes
+  rerun_of?: string | null
   created_at: string
 }
 
+export interface VerificationResult {
+  index: number
+  type: StoryVerification['type']
+  expected: string
+  passed: boolean
+  error?: string
+  // Visual verifications only
+  observation?: string
+  confidence?: 'high' | 'medium' | 'low'
+  issues?: string[]
+  warning?: boolean
+}
+
 export interface StepResult {
   step: number
   action: string
@@ -171,6 +334,20 @@ export interface StepResult {
   duration_ms: number
   error?: string
   screenshot?: string
+  // Element a failed step targeted, as written in the step
+  selector?: string
+  // For steps run by a call: the calls that led to it, outermost first.
+  // step is then the index of the story's own call step.
+  origin?: StepOrigin[]
+}
+
+// Where a step that ran inside a call came from
+export interface StepOrigin {
+  kind: 'block' | 'story'
+  id: string
+  name: string
+  // Index of the step within the block or story
+  step: number
 }
 
 // Scheduled Job
@@ -183,10 +360,15 @@ export interface ScheduledJob {
   timezone: string
   journey_ids?: string[]
   is_enabled: boolean
+  misfire_policy: MisfirePolicy
   next_run_at?: string
+  last_run_at?: string
   created_at: string
 }
 
+// What to do with runs missed while no worker was running
+export type MisfirePolicy = 'skip' | 'run_once' | 'run_all'
+
 // Heal History
 export interface HealHistory {
   id: string
@@ -197,6 +379,12 @@ export interface HealHistory {
   proposed_code: string
   confidence: number
   status: HealStatus
+  reasoning?: string
+  target_kind?: HealTarget["kind"]
+  target_index?: number
+  applied_by?: string
+  applied_at?: string
+  verification_result_id?: string
   created_at: string
 }
 
@@ -208,6 +396,13 @@ export interface HealProposal {
   line?: number
   confidence: number
   reasoning: string
+  target?: HealTarget
+}
+
+// The story step or outcome verification a heal proposal applies to
+export interface HealTarget {
+  kind: 'step' | 'verification'
+  index: number
 }
 
 // API Response types
@@ -247,6 +442,8 @@ export interface TestUser {
   username: string
   description?: string
   is_enabled: boolean
+  // An authenticator secret is saved for one-time code prompts
+  has_totp?: boolean
   created_at: string
   updated_at: string
 }
@@ -257,6 +454,56 @@ export interface TestUserInput {
   username: string
   password: string
   description?: string
+  // Base32 secret or otpauth:// URI from the app's 2FA setup
+  totpSecret?: string
+}
+
+// Variable used as {{env.NAME}} in step values and verifications. Secret
+// values are only stored encrypted and never sent to the client.
+export interface Variable {
+  id: string
+  app_id: string
+  // Null for app-level variables, which every environment inherits
+  environment_id: string | null
+  name: string
+  value: string | null
+  is_secret: boolean
+  description?: string
+  created_at: string
+  updated_at: string
+}
+
+// Steps shared by an app's stories through call steps
+export interface StepBlock {
+  id: string
+  app_id: string
+  name: string
+  description?: string
+  steps: StoryStep[]
+  created_at: string
+  updated_at: string
+}
+
+export interface StepBlockInput {
+  name: string
+  description?: string
+  steps: StoryStep[]
+}
+
+export interface VariableInput {
+  appId: string
+  environmentId?: string | null
+  name: string
+  // For secrets, leave out on update to keep the saved value
+  value?: string
+  isSecret: boolean
+  description?: string
+}
+
+// Auth config as edited in the dashboard: the basic auth password is sent in
+// plain text and encrypted by the server. Leave it out to keep the saved one.
+export type AuthConfigInput = Omit<AuthConfig, 'password_encrypted'> & {
+  password?: string
 }
 
 export interface TestUserCredentials {
@@ -0,0 +1,138 @@
+// Templating for story step values and verification expectations. Shared by
+// the variable actions, which validate names, and the worker, which fills in
+// templates as a story runs.
+//
+//   {{env.NAME}}   app or environment variable (environment wins)
+//   {{gen.email}}  generated value; the same within one story run, with
+//                  {{gen.email.label}} for another independent value
+//   {{vars.name}}  value captured from the page by an earlier step
+//   {{param.col}}  column of the parameter table row being run
+//
+// Uses the global Web Crypto API so the dashboard can import it client-side.
+
+export interface TemplateContext {
+  env: Record<string, string>
+  vars: Record<string, string>
+  params: Record<string, string>
+  // Generated values so far, keyed by generator and label
+  generated: Record<string, string>
+  people: Record<string, Person>
+}
+
+interface Person {
+  firstName: string
+  lastName: string
+}
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+// Other namespaces are left untouched so they can be filled in elsewhere
+const TEMPLATE_PATTERN = /\{\{\s*(env|gen|vars|param)\.([A-Za-z0-9_.]+)\s*\}\}/g
+
+const FIRST_NAMES = [
+  "Alex", "Sam", "Jordan", "Taylor", "Morgan", "Casey", "Riley", "Jamie",
+  "Avery", "Quinn", "Priya", "Mateo", "Aiko", "Noah", "Lena", "Omar",
+]
+
+const LAST_NAMES = [
+  "Smith", "Garcia", "Chen", "Okafor", "Müller", "Rossi", "Kowalski", "Silva",
+  "Nguyen", "Patel", "Johansson", "Haddad", "Kim", "Dubois", "Novak", "Reyes",
+]
+
+function pick<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)]
+}
+
+function randomDigits(length: number): string {
+  let digits = ""
+  while (digits.length < length) {
+    digits += Math.floor(Math.random() * 10)
+  }
+  return digits
+}
+
+// Strips accents so generated emails stay ASCII
+function asciiSlug(value: string): string {
+  return value.normalize("NFD").replace(/[^A-Za-z]/g, "").toLowerCase()
+}
+
+// Name generators share one person per label, so {{gen.name}} and
+// {{gen.email}} in the same story describe the same person
+const GENERATORS: Record<string, (person: Person) => string> = {
+  uuid: () => crypto.randomUUID(),
+  timestamp: () => String(Date.now()),
+  date: () => new Date().toISOString().slice(0, 10),
+  datetime: () => new Date().toISOString(),
+  number: () => randomDigits(6),
+  string: () =>
+    Array.from(crypto.getRandomValues(new Uint8Array(6)), (b) => b.toString(16).padStart(2, "0")).join(""),
+  firstName: (person) => person.firstName,
+  lastName: (person) => person.lastName,
+  name: (person) => `${person.firstName} ${person.lastName}`,
+  email: (person) =>
+    `${asciiSlug(person.firstName)}.${asciiSlug(person.lastName)}.${randomDigits(6)}@example.com`,
+  phone: () => `+1555${randomDigits(7)}`,
+}
+
+export const GENERATOR_NAMES = Object.keys(GENERATORS)
+
+function getPerson(context: TemplateContext, label: string): Person {
+  if (!context.people[label]) {
+    context.people[label] = { firstName: pick(FIRST_NAMES), lastName: pick(LAST_NAMES) }
+  }
+  return context.people[label]
+}
+
+export function createTemplateContext(
+  env: Record<string, string> = {},
+  params: Record<string, string> = {}
+): TemplateContext {
+  return { env, vars: {}, params, generated: {}, people: {} }
+}
+
+// Returns an error message, or null when the name can be used in templates
+export function validateVariableName(name: string): string | null {
+  if (!VARIABLE_NAME_PATTERN.test(name)) {
+    return "Variable names may only use letters, digits and underscores, and cannot start with a digit"
+  }
+  return null
+}
+
+// Fill in every {{env.*}}, {{gen.*}}, {{vars.*}} and {{param.*}} reference. Throws on
+// references that cannot be resolved so a typo fails the step clearly.
+export function interpolate(template: string, context: TemplateContext): string {
+  return template.replace(TEMPLATE_PATTERN, (match, namespace: string, path: string) => {
+    if (namespace === "gen") {
+      const [generator, ...labelParts] = path.split(".")
+      const create = GENERATORS[generator]
+      if (!create) {
+        throw new Error(`Unknown generator in ${match}; use one of ${GENERATOR_NAMES.join(", ")}`)
+      }
+      if (!Object.prototype.hasOwnProperty.call(context.generated, path)) {
+        context.generated[path] = create(getPerson(context, labelParts.join(".")))
+      }
+      return context.generated[path]
+    }
+
+    const values =
+      namespace === "env" ? context.env : namespace === "param" ? context.params : context.vars
+    if (!Object.prototype.hasOwnProperty.call(values, path)) {
+      throw new Error(
+        namespace === "env"
+          ? `Unknown variable in ${match}; add it in the app's variables`
+          : namespace === "param"
+          ? `Unknown parameter in ${match}; add the column to the story's parameter table`
+          : `${match} has not been captured by an earlier step`
+      )
+    }
+    return values[path]
+  })
+}
+
+// Replace secret values in text that is stored or shown, e.g. step errors
+export function maskSecrets(text: string, secrets: string[]): string {
+  return secrets.reduce(
+    (masked, secret) => (secret ? masked.split(secret).join("••••••") : masked),
+    text
+  )
+}
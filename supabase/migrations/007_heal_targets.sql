@@ -0,0 +1,12 @@
+-- Link heal proposals to the story step or verification they patch
+-- Populated by the worker when a failed story produces a heal proposal
+
+ALTER TABLE heal_history
+ADD COLUMN reasoning TEXT,
+ADD COLUMN target_kind VARCHAR(20) CHECK (target_kind IN ('step', 'verification')),
+ADD COLUMN target_index INTEGER;
+
+CREATE INDEX idx_heal_history_test_result ON heal_history(test_result_id);
+
+COMMENT ON COLUMN heal_history.target_kind IS 'Whether the proposal patches a story step or an outcome verification';
+COMMENT ON COLUMN heal_history.target_index IS 'Zero-based index into stories.steps or stories.outcome.verifications';
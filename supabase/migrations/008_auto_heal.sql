@@ -0,0 +1,7 @@
+-- Auto-applied heals are verified by re-running the patched story
+-- Links the applied heal to the passing result that verified it
+
+ALTER TABLE heal_history
+ADD COLUMN verification_result_id UUID REFERENCES test_results(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN heal_history.verification_result_id IS 'Result of the rerun that verified an auto-applied heal';
@@ -0,0 +1,7 @@
+-- Per-verification outcomes, including the AI inspector's observation
+-- and confidence for visual verifications
+
+ALTER TABLE test_results
+ADD COLUMN verifications JSONB;
+
+COMMENT ON COLUMN test_results.verifications IS 'Outcome of each story verification, in story order';
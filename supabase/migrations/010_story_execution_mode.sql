@@ -0,0 +1,7 @@
+-- Stories can run from their generated Playwright spec instead of their steps
+
+ALTER TABLE stories
+ADD COLUMN execution_mode VARCHAR(20) NOT NULL DEFAULT 'steps'
+  CHECK (execution_mode IN ('steps', 'code'));
+
+COMMENT ON COLUMN stories.execution_mode IS 'steps: interpret story steps; code: run generated_test_code with Playwright Test';
@@ -0,0 +1,18 @@
+-- Misfire handling for scheduled jobs and idempotent scheduled runs
+
+ALTER TABLE scheduled_jobs
+ADD COLUMN misfire_policy VARCHAR(20) NOT NULL DEFAULT 'run_once'
+  CHECK (misfire_policy IN ('skip', 'run_once', 'run_all'));
+
+COMMENT ON COLUMN scheduled_jobs.misfire_policy IS 'What to do with runs missed while no worker was running: skip, run_once or run_all';
+
+ALTER TABLE test_runs
+ADD COLUMN scheduled_job_id UUID REFERENCES scheduled_jobs(id) ON DELETE SET NULL,
+ADD COLUMN scheduled_for TIMESTAMPTZ;
+
+-- A schedule triggers at most one run per scheduled time
+CREATE UNIQUE INDEX idx_test_runs_schedule_time
+  ON test_runs(scheduled_job_id, scheduled_for)
+  WHERE scheduled_job_id IS NOT NULL;
+
+COMMENT ON COLUMN test_runs.scheduled_for IS 'The cron time this scheduled run was triggered for';
@@ -0,0 +1,26 @@
+-- Parallel story execution within a test run
+
+-- Serial journeys keep their stories in position order on one runner
+ALTER TABLE journeys
+ADD COLUMN is_serial BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN journeys.is_serial IS 'Run this journey''s stories one at a time in position order';
+
+-- Atomic counter updates for stories finishing concurrently
+CREATE OR REPLACE FUNCTION increment_test_run_counts(
+  run_id UUID,
+  passed_delta INTEGER DEFAULT 0,
+  failed_delta INTEGER DEFAULT 0,
+  skipped_delta INTEGER DEFAULT 0
+)
+RETURNS VOID AS $$
+  UPDATE test_runs
+  SET
+    stories_passed = stories_passed + passed_delta,
+    stories_failed = stories_failed + failed_delta,
+    stories_skipped = stories_skipped + skipped_delta
+  WHERE id = run_id;
+$$ LANGUAGE sql;
+
+-- Only the worker (service role) updates run counts
+REVOKE EXECUTE ON FUNCTION increment_test_run_counts FROM PUBLIC, anon, authenticated;
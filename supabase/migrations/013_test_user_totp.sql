@@ -0,0 +1,10 @@
+-- Two-factor auth for test users
+
+ALTER TABLE test_users
+ADD COLUMN totp_secret_encrypted TEXT;
+
+-- Lets the dashboard show which users have 2FA without selecting the secret
+ALTER TABLE test_users
+ADD COLUMN has_totp BOOLEAN GENERATED ALWAYS AS (totp_secret_encrypted IS NOT NULL) STORED;
+
+COMMENT ON COLUMN test_users.totp_secret_encrypted IS 'Encrypted base32 TOTP secret used to answer one-time code prompts at login';
@@ -0,0 +1,7 @@
+-- A role can have a pool of test users; the worker leases one per story
+
+ALTER TABLE test_users
+DROP CONSTRAINT IF EXISTS test_users_environment_id_role_key;
+
+ALTER TABLE test_users
+ADD CONSTRAINT test_users_environment_role_username_key UNIQUE (environment_id, role, username);
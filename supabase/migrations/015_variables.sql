@@ -0,0 +1,74 @@
+-- Variables for templated step values: {{env.NAME}} in steps and verifications
+-- App-level variables apply to every environment; environment-level ones override them
+
+-- =============================================================================
+-- VARIABLES TABLE
+-- =============================================================================
+
+CREATE TABLE variables (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  app_id UUID NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+  environment_id UUID REFERENCES environments(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  value TEXT,
+  value_encrypted TEXT,
+  is_secret BOOLEAN NOT NULL DEFAULT FALSE,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Secrets are only stored encrypted
+  CHECK (
+    (is_secret AND value IS NULL AND value_encrypted IS NOT NULL) OR
+    (NOT is_secret AND value IS NOT NULL AND value_encrypted IS NULL)
+  )
+);
+
+COMMENT ON COLUMN variables.environment_id IS 'NULL for app-level variables';
+COMMENT ON COLUMN variables.value_encrypted IS 'Secret value, encrypted like test user passwords';
+
+-- One variable per name per scope; app-level rows have no environment
+CREATE UNIQUE INDEX idx_variables_scope_name
+  ON variables(app_id, COALESCE(environment_id, '00000000-0000-0000-0000-000000000000'::uuid), name);
+CREATE INDEX idx_variables_environment ON variables(environment_id);
+
+CREATE TRIGGER update_variables_updated_at
+  BEFORE UPDATE ON variables
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- ROW LEVEL SECURITY POLICIES FOR VARIABLES
+-- =============================================================================
+
+ALTER TABLE variables ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view variables"
+  ON variables FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM apps
+    WHERE apps.id = variables.app_id
+    AND is_org_member(apps.organization_id)
+  ));
+
+CREATE POLICY "Members can create variables"
+  ON variables FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM apps
+    WHERE apps.id = variables.app_id
+    AND get_org_role(apps.organization_id) IN ('owner', 'admin', 'member')
+  ));
+
+CREATE POLICY "Members can update variables"
+  ON variables FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM apps
+    WHERE apps.id = variables.app_id
+    AND get_org_role(apps.organization_id) IN ('owner', 'admin', 'member')
+  ));
+
+CREATE POLICY "Admins can delete variables"
+  ON variables FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM apps
+    WHERE apps.id = variables.app_id
+    AND get_org_role(apps.organization_id) IN ('owner', 'admin')
+  ));
@@ -0,0 +1,13 @@
+-- Data-driven stories: a parameter table whose rows each run the story once
+
+ALTER TABLE stories
+ADD COLUMN parameters JSONB;
+
+COMMENT ON COLUMN stories.parameters IS 'Parameter table {columns, rows}; each row runs the story with {{param.column}} filled in';
+
+ALTER TABLE test_results
+ADD COLUMN parameter_index INTEGER,
+ADD COLUMN parameter_label TEXT;
+
+COMMENT ON COLUMN test_results.parameter_index IS 'Row of the story parameter table this result ran, if any';
+COMMENT ON COLUMN test_results.parameter_label IS 'Row label shown with the result';
@@ -0,0 +1,62 @@
+-- Reusable step blocks shared by an app's stories
+-- A story step with a call runs a block's steps in its place; blocks are
+-- expanded when the story runs, so editing one changes every story using it
+
+-- =============================================================================
+-- STEP BLOCKS TABLE
+-- =============================================================================
+
+CREATE TABLE step_blocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  app_id UUID NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  steps JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(app_id, name)
+);
+
+COMMENT ON COLUMN step_blocks.steps IS 'Story steps; {{args.name}} is filled in from the calling step';
+
+CREATE TRIGGER update_step_blocks_updated_at
+  BEFORE UPDATE ON step_blocks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- ROW LEVEL SECURITY POLICIES FOR STEP BLOCKS
+-- =============================================================================
+
+ALTER TABLE step_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view step blocks"
+  ON step_blocks FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM apps
+    WHERE apps.id = step_blocks.app_id
+    AND is_org_member(apps.organization_id)
+  ));
+
+CREATE POLICY "Members can create step blocks"
+  ON step_blocks FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM apps
+    WHERE apps.id = step_blocks.app_id
+    AND get_org_role(apps.organization_id) IN ('owner', 'admin', 'member')
+  ));
+
+CREATE POLICY "Members can update step blocks"
+  ON step_blocks FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM apps
+    WHERE apps.id = step_blocks.app_id
+    AND get_org_role(apps.organization_id) IN ('owner', 'admin', 'member')
+  ));
+
+CREATE POLICY "Admins can delete step blocks"
+  ON step_blocks FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM apps
+    WHERE apps.id = step_blocks.app_id
+    AND get_org_role(apps.organization_id) IN ('owner', 'admin')
+  ));
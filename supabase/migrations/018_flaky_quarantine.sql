@@ -0,0 +1,66 @@
+-- Flaky story detection and quarantine, and an explicit outcome on results
+-- Quarantined stories still run, but their failures are counted apart from
+-- stories_failed so they don't fail the run
+
+ALTER TABLE stories
+ADD COLUMN flakiness_score REAL,
+ADD COLUMN quarantined_at TIMESTAMPTZ,
+ADD COLUMN quarantine_reason TEXT;
+
+COMMENT ON COLUMN stories.flakiness_score IS 'From 0 (stable) to 1 (flaky) over recent runs; NULL until there are enough runs';
+COMMENT ON COLUMN stories.quarantined_at IS 'Set while the story is quarantined';
+
+ALTER TABLE test_results
+ADD COLUMN quarantined BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN test_results.quarantined IS 'The story was quarantined when this result was recorded';
+
+-- Skipped stories were only told apart by a zero duration, which errors that
+-- stop a story before it runs also have
+ALTER TABLE test_results
+ADD COLUMN status VARCHAR(20) CHECK (status IN ('passed', 'failed', 'skipped'));
+
+-- Older results: the worker's skip reasons are the only reliable signal
+UPDATE test_results
+SET status = CASE
+  WHEN passed THEN 'passed'
+  WHEN duration_ms = 0 AND (
+    error LIKE 'Story requires role %'
+    OR error LIKE 'Missing test user for required role:%'
+    OR error LIKE 'All % test users for role %'
+    OR error LIKE 'Setup "%'
+  ) THEN 'skipped'
+  ELSE 'failed'
+END;
+
+ALTER TABLE test_results ALTER COLUMN status SET NOT NULL;
+
+COMMENT ON COLUMN test_results.status IS 'passed, failed, or skipped when the story could not run (missing test user, failed setup)';
+
+ALTER TABLE test_runs
+ADD COLUMN stories_quarantined INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN test_runs.stories_quarantined IS 'Quarantined stories that failed; not included in stories_failed';
+
+-- Adds a quarantined count to the atomic counter update
+DROP FUNCTION increment_test_run_counts(UUID, INTEGER, INTEGER, INTEGER);
+
+CREATE FUNCTION increment_test_run_counts(
+  run_id UUID,
+  passed_delta INTEGER DEFAULT 0,
+  failed_delta INTEGER DEFAULT 0,
+  skipped_delta INTEGER DEFAULT 0,
+  quarantined_delta INTEGER DEFAULT 0
+)
+RETURNS VOID AS $$
+  UPDATE test_runs
+  SET
+    stories_passed = stories_passed + passed_delta,
+    stories_failed = stories_failed + failed_delta,
+    stories_skipped = stories_skipped + skipped_delta,
+    stories_quarantined = stories_quarantined + quarantined_delta
+  WHERE id = run_id;
+$$ LANGUAGE sql;
+
+-- Only the worker (service role) updates run counts
+REVOKE EXECUTE ON FUNCTION increment_test_run_counts FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,160 @@
+-- Rollups behind the app quality dashboard
+-- Results are counted into one row per story, environment and day as they're
+-- recorded, so trends read a few hundred rows instead of every test result
+
+-- =============================================================================
+-- STORY DAILY STATS TABLE
+-- =============================================================================
+
+CREATE TABLE story_daily_stats (
+  story_id UUID NOT NULL REFERENCES stories(id) ON DELETE CASCADE,
+  environment_id UUID NOT NULL REFERENCES environments(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  app_id UUID NOT NULL REFERENCES apps(id) ON DELETE CASCADE,
+  journey_id UUID NOT NULL REFERENCES journeys(id) ON DELETE CASCADE,
+  passed INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  skipped INTEGER NOT NULL DEFAULT 0,
+  duration_ms_total BIGINT NOT NULL DEFAULT 0,
+  PRIMARY KEY (story_id, environment_id, day)
+);
+
+CREATE INDEX idx_story_daily_stats_app_day ON story_daily_stats(app_id, day);
+
+COMMENT ON TABLE story_daily_stats IS 'Test results per story, environment and UTC day; an auto-heal rerun counts as a second result';
+COMMENT ON COLUMN story_daily_stats.skipped IS 'Results that never ran (no test user, failed setup); not in passed or failed';
+COMMENT ON COLUMN story_daily_stats.duration_ms_total IS 'Sum over passed and failed results';
+
+-- Counts each new result into its day; runs as owner since only the worker
+-- inserts results and members can't write rollups
+CREATE OR REPLACE FUNCTION record_story_daily_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO story_daily_stats (
+    story_id, environment_id, day, app_id, journey_id,
+    passed, failed, skipped, duration_ms_total
+  )
+  SELECT
+    NEW.story_id,
+    test_runs.environment_id,
+    (NEW.created_at AT TIME ZONE 'UTC')::DATE,
+    test_runs.app_id,
+    stories.journey_id,
+    CASE WHEN NEW.status = 'passed' THEN 1 ELSE 0 END,
+    CASE WHEN NEW.status = 'failed' THEN 1 ELSE 0 END,
+    CASE WHEN NEW.status = 'skipped' THEN 1 ELSE 0 END,
+    NEW.duration_ms
+  FROM test_runs, stories
+  WHERE test_runs.id = NEW.test_run_id
+  AND stories.id = NEW.story_id
+  ON CONFLICT (story_id, environment_id, day) DO UPDATE SET
+    passed = story_daily_stats.passed + EXCLUDED.passed,
+    failed = story_daily_stats.failed + EXCLUDED.failed,
+    skipped = story_daily_stats.skipped + EXCLUDED.skipped,
+    duration_ms_total = story_daily_stats.duration_ms_total + EXCLUDED.duration_ms_total;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER record_test_result_daily_stats
+  AFTER INSERT ON test_results
+  FOR EACH ROW EXECUTE FUNCTION record_story_daily_stats();
+
+-- Backfill from existing results
+INSERT INTO story_daily_stats (
+  story_id, environment_id, day, app_id, journey_id,
+  passed, failed, skipped, duration_ms_total
+)
+SELECT
+  test_results.story_id,
+  test_runs.environment_id,
+  (test_results.created_at AT TIME ZONE 'UTC')::DATE,
+  test_runs.app_id,
+  stories.journey_id,
+  COUNT(*) FILTER (WHERE test_results.status = 'passed'),
+  COUNT(*) FILTER (WHERE test_results.status = 'failed'),
+  COUNT(*) FILTER (WHERE test_results.status = 'skipped'),
+  SUM(test_results.duration_ms)
+FROM test_results
+JOIN test_runs ON test_runs.id = test_results.test_run_id
+JOIN stories ON stories.id = test_results.story_id
+GROUP BY 1, 2, 3, 4, 5;
+
+-- =============================================================================
+-- DASHBOARD VIEWS
+-- =============================================================================
+
+-- Views run with the caller's permissions, so the tables' policies apply
+
+-- Story results per environment and day
+CREATE VIEW app_daily_stats
+WITH (security_invoker = true) AS
+SELECT
+  app_id,
+  environment_id,
+  day,
+  SUM(passed)::INTEGER AS passed,
+  SUM(failed)::INTEGER AS failed,
+  SUM(skipped)::INTEGER AS skipped
+FROM story_daily_stats
+GROUP BY app_id, environment_id, day;
+
+CREATE INDEX idx_test_runs_app_created ON test_runs(app_id, created_at);
+
+-- Finished runs per environment and day
+CREATE VIEW app_daily_run_stats
+WITH (security_invoker = true) AS
+SELECT
+  app_id,
+  environment_id,
+  (created_at AT TIME ZONE 'UTC')::DATE AS day,
+  COUNT(*)::INTEGER AS runs,
+  ROUND(AVG(duration_ms))::INTEGER AS mean_duration_ms
+FROM test_runs
+WHERE status = 'completed'
+GROUP BY app_id, environment_id, (created_at AT TIME ZONE 'UTC')::DATE;
+
+-- Enabled and disabled stories per journey
+CREATE VIEW journey_coverage
+WITH (security_invoker = true) AS
+SELECT
+  journeys.id AS journey_id,
+  journeys.app_id,
+  journeys.title,
+  journeys.position,
+  COUNT(stories.id) FILTER (WHERE stories.is_enabled)::INTEGER AS enabled,
+  COUNT(stories.id) FILTER (WHERE NOT stories.is_enabled)::INTEGER AS disabled
+FROM journeys
+LEFT JOIN stories ON stories.journey_id = journeys.id
+GROUP BY journeys.id;
+
+-- Journeys by failed results since a day, most failures first
+CREATE OR REPLACE FUNCTION get_journey_failures(p_app_id UUID, p_since DATE)
+RETURNS TABLE (journey_id UUID, title VARCHAR, passed INTEGER, failed INTEGER) AS $$
+  SELECT
+    journeys.id,
+    journeys.title,
+    SUM(story_daily_stats.passed)::INTEGER,
+    SUM(story_daily_stats.failed)::INTEGER
+  FROM story_daily_stats
+  JOIN journeys ON journeys.id = story_daily_stats.journey_id
+  WHERE story_daily_stats.app_id = p_app_id
+  AND story_daily_stats.day >= p_since
+  GROUP BY journeys.id, journeys.title
+  HAVING SUM(story_daily_stats.failed) > 0
+  ORDER BY SUM(story_daily_stats.failed) DESC
+$$ LANGUAGE sql STABLE;
+
+-- =============================================================================
+-- ROW LEVEL SECURITY POLICIES FOR STORY DAILY STATS
+-- =============================================================================
+
+ALTER TABLE story_daily_stats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view story daily stats"
+  ON story_daily_stats FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM apps
+    WHERE apps.id = story_daily_stats.app_id
+    AND is_org_member(apps.organization_id)
+  ));
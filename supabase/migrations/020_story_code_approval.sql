@@ -0,0 +1,35 @@
+-- Generated test code is arbitrary code run as a Playwright spec, so on top
+-- of the worker's sandbox a story only runs from code an owner or admin approved.
+-- Any change to the code withdraws the approval. Stories already running
+-- from code are skipped until approved.
+
+ALTER TABLE stories
+ADD COLUMN code_approved_at TIMESTAMPTZ,
+ADD COLUMN code_approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN stories.code_approved_at IS 'Set when an owner or admin approves generated_test_code; cleared when the code changes';
+
+CREATE OR REPLACE FUNCTION check_story_code_approval()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.code_approved_at IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.code_approved_at IS DISTINCT FROM OLD.code_approved_at)
+  THEN
+    IF COALESCE(get_org_role((
+      SELECT apps.organization_id FROM journeys
+      JOIN apps ON apps.id = journeys.app_id
+      WHERE journeys.id = NEW.journey_id
+    )), '') NOT IN ('owner', 'admin') THEN
+      RAISE EXCEPTION 'Only owners and admins can approve test code';
+    END IF;
+  ELSIF TG_OP = 'UPDATE' AND NEW.generated_test_code IS DISTINCT FROM OLD.generated_test_code THEN
+    NEW.code_approved_at := NULL;
+    NEW.code_approved_by := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_stories_code_approval
+  BEFORE INSERT OR UPDATE ON stories
+  FOR EACH ROW EXECUTE FUNCTION check_story_code_approval();
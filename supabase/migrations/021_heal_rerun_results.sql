@@ -0,0 +1,8 @@
+-- An auto-applied heal is verified by re-running the patched story, which
+-- records a second result for the story in the run. Links it to the failed
+-- result it supersedes.
+
+ALTER TABLE test_results
+ADD COLUMN rerun_of UUID REFERENCES test_results(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN test_results.rerun_of IS 'Set on an auto-heal verification rerun: the failed result of the same story and run';
@@ -0,0 +1,67 @@
+-- Heal proposals go stale when the story changes under them: the value they
+-- replace is no longer there, or another proposal for the same step and field
+-- was applied first. Applying a proposal updates the story and the proposal
+-- in one transaction.
+
+ALTER TABLE heal_history DROP CONSTRAINT heal_history_status_check;
+ALTER TABLE heal_history ADD CONSTRAINT heal_history_status_check
+  CHECK (status IN ('proposed', 'approved', 'rejected', 'applied', 'stale'));
+
+-- Once one proposal for a step or verification field is applied, the others
+-- patch a value that is gone
+CREATE OR REPLACE FUNCTION mark_sibling_heals_stale()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE heal_history
+  SET status = 'stale'
+  WHERE story_id = NEW.story_id
+  AND id <> NEW.id
+  AND proposal_type = NEW.proposal_type
+  AND target_kind = NEW.target_kind
+  AND target_index = NEW.target_index
+  AND status IN ('proposed', 'approved');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER mark_heal_siblings_stale
+  AFTER INSERT OR UPDATE OF status ON heal_history
+  FOR EACH ROW
+  WHEN (NEW.status = 'applied')
+  EXECUTE FUNCTION mark_sibling_heals_stale();
+
+-- Writes the patched story and marks the proposal applied, or neither. Fails
+-- if the proposal is no longer open or the story changed since it was read.
+-- Runs with the caller's permissions, so the usual policies apply.
+CREATE OR REPLACE FUNCTION apply_heal(
+  p_heal_id UUID,
+  p_steps JSONB,
+  p_outcome JSONB,
+  p_story_updated_at TIMESTAMPTZ
+)
+RETURNS VOID AS $$
+DECLARE
+  heal_story_id UUID;
+BEGIN
+  UPDATE heal_history
+  SET status = 'applied', applied_by = auth.uid(), applied_at = NOW()
+  WHERE id = p_heal_id
+  AND status IN ('proposed', 'approved')
+  RETURNING story_id INTO heal_story_id;
+
+  IF heal_story_id IS NULL THEN
+    RAISE EXCEPTION 'Heal proposal is no longer open';
+  END IF;
+
+  UPDATE stories
+  SET steps = p_steps, outcome = p_outcome
+  WHERE id = heal_story_id
+  AND updated_at = p_story_updated_at;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The story changed while the fix was being applied; try again';
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION apply_heal TO authenticated;
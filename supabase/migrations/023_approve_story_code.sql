@@ -0,0 +1,21 @@
+-- Approves the generated test code an owner or admin reviewed. The code is
+-- compared here rather than in a query filter, where a large spec would not
+-- fit in the request URL. Returns false if the code changed since.
+-- Runs with the caller's permissions, so the usual policies and the approval
+-- trigger apply.
+CREATE OR REPLACE FUNCTION approve_story_code(
+  p_story_id UUID,
+  p_reviewed_code TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE stories
+  SET code_approved_at = NOW(), code_approved_by = auth.uid()
+  WHERE id = p_story_id
+  AND generated_test_code = p_reviewed_code;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION approve_story_code TO authenticated;
@@ -0,0 +1,233 @@
+import type { BrowserContext, Page } from "playwright"
+import { generateTotp, totpSecondsRemaining } from "@/lib/totp"
+import type { AuthConfig, OAuthConfig, UserCredentials, WaitUntil } from "./types"
+
+export interface HttpCredentials {
+  username: string
+  password: string
+  origin: string
+}
+
+const DEFAULT_USERNAME_SELECTOR = 'input[type="email"], input[name="email"], input[name="username"], #email, #username'
+const DEFAULT_PASSWORD_SELECTOR = 'input[type="password"], input[name="password"], #password'
+const DEFAULT_SUBMIT_SELECTOR = 'button[type="submit"], input[type="submit"], button:has-text("Login"), button:has-text("Sign in")'
+
+// How long to wait for the identity provider to send the browser back
+const IDP_REDIRECT_TIMEOUT_MS = 30000
+
+// How long to wait for a one-time code prompt after submitting the password
+const OTP_PROMPT_TIMEOUT_MS = 10000
+
+// A code about to expire may be rejected by the time it is submitted
+const OTP_MIN_VALIDITY_SECONDS = 3
+
+// Credentials for the browser context's HTTP basic auth. Basic login uses
+// the story's role; any other type falls back to the environment's own.
+// They are only sent to the app's origin, not to other hosts that answer
+// with a 401 challenge.
+export function getHttpCredentials(
+  baseUrl: string,
+  authConfig: AuthConfig | undefined,
+  credentials: UserCredentials | undefined,
+  siteCredentials: UserCredentials | undefined
+): HttpCredentials | undefined {
+  const user = authConfig?.type === 'basic' && credentials ? credentials : siteCredentials
+  if (!user) return undefined
+  return { username: user.username, password: user.password, origin: new URL(baseUrl).origin }
+}
+
+// Sign in as the story's role and leave the page on the app, or just open
+// the app when there is nothing to sign in with
+export async function authenticate(
+  context: BrowserContext,
+  page: Page,
+  baseUrl: string,
+  authConfig: AuthConfig | undefined,
+  credentials: UserCredentials | undefined,
+  waitUntil: WaitUntil
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!credentials || !authConfig || authConfig.type === 'none' || authConfig.type === 'basic') {
+      // Basic auth is handled by the context's httpCredentials
+      const response = await page.goto(baseUrl, { waitUntil })
+      if (response?.status() === 401) {
+        throw new Error("HTTP basic auth credentials were rejected (401)")
+      }
+    } else if (authConfig.type === 'form') {
+      await loginWithForm(page, baseUrl, credentials, authConfig, waitUntil)
+    } else if (authConfig.oauth?.mode === 'token') {
+      await injectToken(context, baseUrl, credentials, authConfig.oauth)
+      await page.goto(baseUrl, { waitUntil })
+      await waitForSignedIn(page, authConfig)
+    } else {
+      await loginWithIdentityProvider(page, baseUrl, credentials, authConfig, waitUntil)
+    }
+
+    if (credentials && authConfig && authConfig.type !== 'none') {
+      console.log(`Authenticated as ${credentials.username} (${authConfig.type})`)
+    }
+    return { success: true }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    console.error(`Authentication failed: ${errorMessage}`)
+    return { success: false, error: `Authentication failed: ${errorMessage}` }
+  }
+}
+
+async function waitForSignedIn(page: Page, authConfig: AuthConfig): Promise<void> {
+  if (authConfig.successIndicator) {
+    await page.waitForSelector(authConfig.successIndicator, { timeout: 10000 })
+  } else {
+    // Wait for URL change or page load
+    await page.waitForLoadState("domcontentloaded")
+    // Give the app a moment to render after authentication
+    await page.waitForTimeout(500)
+  }
+}
+
+async function loginWithForm(
+  page: Page,
+  baseUrl: string,
+  credentials: UserCredentials,
+  authConfig: AuthConfig,
+  waitUntil: WaitUntil
+): Promise<void> {
+  // Navigate to login page - resolve relative paths against baseUrl
+  const loginUrl = new URL(authConfig.loginUrl ?? "/", baseUrl).toString()
+  await page.goto(loginUrl, { waitUntil })
+
+  await page.fill(authConfig.usernameSelector || DEFAULT_USERNAME_SELECTOR, credentials.username)
+  await page.fill(authConfig.passwordSelector || DEFAULT_PASSWORD_SELECTOR, credentials.password)
+  await page.click(authConfig.submitSelector || DEFAULT_SUBMIT_SELECTOR)
+  await answerOtpPrompt(page, credentials, authConfig)
+
+  await waitForSignedIn(page, authConfig)
+}
+
+// Start SSO from the app, sign in on the provider's page and wait to be
+// redirected back
+async function loginWithIdentityProvider(
+  page: Page,
+  baseUrl: string,
+  credentials: UserCredentials,
+  authConfig: AuthConfig,
+  waitUntil: WaitUntil
+): Promise<void> {
+  const oauth = authConfig.oauth ?? { mode: 'idp' }
+  const appOrigin = new URL(baseUrl).origin
+
+  const loginUrl = new URL(authConfig.loginUrl ?? "/", baseUrl).toString()
+  await page.goto(loginUrl, { waitUntil })
+  if (oauth.startSelector) {
+    await page.click(oauth.startSelector)
+  }
+
+  await page.fill(oauth.idpUsernameSelector || DEFAULT_USERNAME_SELECTOR, credentials.username)
+  // Providers that ask for the password on a second screen
+  if (oauth.idpNextSelector) {
+    await page.click(oauth.idpNextSelector)
+  }
+  await page.fill(oauth.idpPasswordSelector || DEFAULT_PASSWORD_SELECTOR, credentials.password)
+  await page.click(oauth.idpSubmitSelector || DEFAULT_SUBMIT_SELECTOR)
+  await answerOtpPrompt(page, credentials, authConfig)
+
+  await page.waitForURL((url) => url.origin === appOrigin, { timeout: IDP_REDIRECT_TIMEOUT_MS })
+  await waitForSignedIn(page, authConfig)
+}
+
+// Fill in a one-time code when the user has a TOTP secret and the
+// configured code field appears
+async function answerOtpPrompt(
+  page: Page,
+  credentials: UserCredentials,
+  authConfig: AuthConfig
+): Promise<void> {
+  if (!credentials.totpSecret || !authConfig.otpSelector) {
+    return
+  }
+
+  const prompt = await page
+    .waitForSelector(authConfig.otpSelector, { timeout: OTP_PROMPT_TIMEOUT_MS })
+    .catch(() => null)
+  if (!prompt) {
+    console.log("No one-time code prompt appeared; continuing")
+    return
+  }
+
+  const remaining = totpSecondsRemaining(credentials.totpSecret)
+  if (remaining < OTP_MIN_VALIDITY_SECONDS) {
+    await page.waitForTimeout(remaining * 1000 + 100)
+  }
+
+  await page.fill(authConfig.otpSelector, generateTotp(credentials.totpSecret))
+  if (authConfig.otpSubmitSelector) {
+    await page.click(authConfig.otpSubmitSelector)
+  } else {
+    await page.press(authConfig.otpSelector, "Enter")
+  }
+}
+
+// The role's test user password holds the token. Headers are only added to
+// requests for the app itself so the token never reaches third parties.
+async function injectToken(
+  context: BrowserContext,
+  baseUrl: string,
+  credentials: UserCredentials,
+  oauth: OAuthConfig
+): Promise<void> {
+  const appOrigin = new URL(baseUrl).origin
+  const target = oauth.tokenTarget ?? 'header'
+
+  if (target === 'header') {
+    const name = (oauth.tokenName || "Authorization").toLowerCase()
+    const value = `${oauth.tokenPrefix ?? (oauth.tokenName ? "" : "Bearer ")}${credentials.password}`
+    await context.route(
+      (url) => url.origin === appOrigin,
+      (route) => route.continue({ headers: { ...route.request().headers(), [name]: value } })
+    )
+    return
+  }
+
+  if (!oauth.tokenName) {
+    throw new Error(`A ${target === 'cookie' ? "cookie name" : "localStorage key"} is required for token login`)
+  }
+  const value = `${oauth.tokenPrefix ?? ""}${credentials.password}`
+
+  if (target === 'cookie') {
+    await context.addCookies([{ name: oauth.tokenName, value, url: appOrigin }])
+  } else {
+    await context.addInitScript(
+      ({ origin, key, token }) => {
+        if (window.location.origin === origin) {
+          window.localStorage.setItem(key, token)
+        }
+      },
+      { origin: appOrigin, key: oauth.tokenName, token: value }
+    )
+  }
+}
+
+// Only logins that go through a page are worth caching; basic auth and
+// injected tokens cost nothing to redo
+export function canReuseSession(authConfig: AuthConfig | undefined): boolean {
+  return authConfig?.type === 'form' || (authConfig?.type === 'oauth' && authConfig.oauth?.mode !== 'token')
+}
+
+// True when the app has sent the browser back to sign in, e.g. because a
+// cached session expired
+export function isOnLoginPage(page: Page, baseUrl: string, authConfig: AuthConfig): boolean {
+  const current = new URL(page.url())
+  const appOrigin = new URL(baseUrl).origin
+
+  // SSO sign-in happens on the provider's own origin
+  if (authConfig.type === 'oauth' && current.origin !== appOrigin) {
+    return true
+  }
+
+  if (!authConfig.loginUrl) {
+    return false
+  }
+  const login = new URL(authConfig.loginUrl, baseUrl)
+  // The app's root page is often both the login page and the home page
+  return login.pathname !== "/" && current.origin === login.origin && current.pathname === login.pathname
+}
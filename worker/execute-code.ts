@@ -0,0 +1,392 @@
+import { spawn } from "child_process"
+import { chmod, chown, mkdir, mkdtemp, readFile, realpath, rm, stat, symlink, writeFile } from "fs/promises"
+import os from "os"
+import path from "path"
+import { uploadScreenshot } from "./execute-story"
+import type { HttpCredentials } from "./auth"
+import type { StepResult, StoryExecutionResult } from "./types"
+
+interface CodeStory {
+  id: string
+  generated_test_code?: string | null
+}
+
+interface CodeExecutionOptions {
+  timeoutMs: number
+  stepTimeout?: number
+  viewport?: { width: number; height: number }
+  credentials?: { username: string; password: string }
+  // HTTP basic auth for the browser context
+  httpCredentials?: HttpCredentials
+}
+
+// Subset of Playwright's JSON reporter output that we read
+interface ReportError {
+  message?: string
+}
+
+interface ReportStep {
+  title: string
+  duration: number
+  error?: ReportError
+}
+
+interface ReportResult {
+  status: "passed" | "failed" | "timedOut" | "skipped" | "interrupted"
+  duration: number
+  error?: ReportError
+  steps?: ReportStep[]
+  attachments?: Array<{ name: string; contentType: string; path?: string }>
+}
+
+interface ReportSpec {
+  title: string
+  tests: Array<{ results: ReportResult[] }>
+}
+
+interface ReportSuite {
+  specs?: ReportSpec[]
+  suites?: ReportSuite[]
+}
+
+interface JsonReport {
+  suites?: ReportSuite[]
+  errors?: ReportError[]
+}
+
+// Generated specs run as a separate unprivileged user so they can't read the
+// worker's env (service role key, encryption keys, Redis) from /proc or
+// attach to the worker. Each run gets a scratch directory owned by that user,
+// and CPU time and process count are capped. Outbound network for the user is
+// restricted by start-sandboxed.sh in the worker image.
+interface SpecSandbox {
+  uid: number
+  gid: number
+  root: string
+  cpuSeconds: number
+  maxProcesses: number
+}
+
+const WORKER_NODE_MODULES = path.join(process.cwd(), "node_modules")
+const PLAYWRIGHT_CLI = path.join(WORKER_NODE_MODULES, "@playwright", "test", "cli.js")
+
+// Only pass through what Playwright needs
+const ALLOWED_ENV = ["PATH", "PLAYWRIGHT_BROWSERS_PATH"]
+
+// Larger reports are not something a single story spec produces
+const MAX_REPORT_BYTES = 10 * 1024 * 1024
+
+function parseId(value: string | undefined): number | null {
+  if (!value || !/^\d+$/.test(value)) return null
+  const id = Number(value)
+  return id > 0 ? id : null
+}
+
+function getSpecSandbox(): SpecSandbox | { error: string } {
+  const uid = parseId(process.env.SPEC_SANDBOX_UID)
+  const gid = parseId(process.env.SPEC_SANDBOX_GID ?? process.env.SPEC_SANDBOX_UID)
+  if (uid === null || gid === null) {
+    return { error: "Generated test code can't run: SPEC_SANDBOX_UID is not set on the worker" }
+  }
+  if (uid === process.getuid?.()) {
+    return { error: "Generated test code can't run: SPEC_SANDBOX_UID must differ from the worker's user" }
+  }
+  return {
+    uid,
+    gid,
+    root: process.env.SPEC_SANDBOX_ROOT || path.join(os.tmpdir(), "qay-specs"),
+    cpuSeconds: parseInt(process.env.SPEC_SANDBOX_CPU_SECONDS || "300", 10),
+    maxProcesses: parseInt(process.env.SPEC_SANDBOX_MAX_PROCESSES || "1024", 10),
+  }
+}
+
+function buildConfig(baseUrl: string, options: CodeExecutionOptions): string {
+  const viewport = options.viewport ?? { width: 1280, height: 720 }
+  return `export default {
+  testDir: ".",
+  testMatch: "story.spec.ts",
+  timeout: ${options.timeoutMs},
+  retries: 0,
+  workers: 1,
+  outputDir: "./results",
+  reporter: [["json", { outputFile: "report.json" }]],
+  use: {
+    baseURL: ${JSON.stringify(baseUrl)},
+    headless: true,
+    viewport: { width: ${viewport.width}, height: ${viewport.height} },
+    actionTimeout: ${options.stepTimeout ?? 0},
+    navigationTimeout: ${options.stepTimeout ?? 0},
+    screenshot: "only-on-failure",
+    httpCredentials: process.env.HTTP_USERNAME
+      ? {
+          username: process.env.HTTP_USERNAME,
+          password: process.env.HTTP_PASSWORD,
+          origin: ${JSON.stringify(new URL(baseUrl).origin)},
+        }
+      : undefined,
+  },
+}
+`
+}
+
+function runPlaywright(
+  dir: string,
+  sandbox: SpecSandbox,
+  env: NodeJS.ProcessEnv,
+  timeoutMs: number
+): Promise<{ code: number | null; output: string; timedOut: boolean }> {
+  return new Promise((resolve) => {
+    const child = spawn(
+      "prlimit",
+      [
+        `--cpu=${sandbox.cpuSeconds}`,
+        `--nproc=${sandbox.maxProcesses}`,
+        "--",
+        "nice", "-n", "10",
+        process.execPath, PLAYWRIGHT_CLI, "test", "--config", "playwright.config.mjs",
+      ],
+      {
+        cwd: dir,
+        env,
+        uid: sandbox.uid,
+        gid: sandbox.gid,
+        // Own process group, so the browser goes down with the runner
+        detached: true,
+        stdio: ["ignore", "pipe", "pipe"],
+      }
+    )
+
+    let output = ""
+    let timedOut = false
+    const append = (chunk: Buffer) => {
+      // Keep the tail; that's where Playwright reports errors
+      output = (output + chunk.toString()).slice(-10000)
+    }
+    child.stdout.on("data", append)
+    child.stderr.on("data", append)
+
+    const killGroup = () => {
+      try {
+        if (child.pid) process.kill(-child.pid, "SIGKILL")
+      } catch {
+        // Already gone
+      }
+    }
+
+    const timer = setTimeout(() => {
+      timedOut = true
+      killGroup()
+    }, timeoutMs)
+
+    child.on("close", (code) => {
+      clearTimeout(timer)
+      killGroup()
+      resolve({ code, output, timedOut })
+    })
+    child.on("error", (err) => {
+      clearTimeout(timer)
+      resolve({ code: null, output: err.message, timedOut })
+    })
+  })
+}
+
+// The scratch directory is writable by the spec, so a file it left behind
+// may be a symlink to something only the worker can read
+async function readSandboxFile(dir: string, file: string, maxBytes: number): Promise<Buffer | null> {
+  try {
+    const real = await realpath(path.resolve(dir, file))
+    const relative = path.relative(await realpath(dir), real)
+    if (relative.startsWith("..") || path.isAbsolute(relative)) return null
+    const info = await stat(real)
+    if (!info.isFile() || info.size > maxBytes) return null
+    return await readFile(real)
+  } catch {
+    return null
+  }
+}
+
+function collectSpecs(suites: ReportSuite[] = []): ReportSpec[] {
+  return suites.flatMap((suite) => [
+    ...(suite.specs || []),
+    ...collectSpecs(suite.suites),
+  ])
+}
+
+// Map each test in the spec to step results. Tests that use test.step()
+// report one StepResult per step; otherwise the test itself is one step.
+function mapReport(report: JsonReport): {
+  steps: StepResult[]
+  error?: string
+  retries: number
+  screenshotPath?: string
+} {
+  const steps: StepResult[] = []
+  let error: string | undefined
+  let retries = 0
+  let screenshotPath: string | undefined
+
+  for (const spec of collectSpecs(report.suites)) {
+    for (const test of spec.tests) {
+      const result = test.results[test.results.length - 1]
+      if (!result || result.status === "skipped") continue
+
+      retries += test.results.length - 1
+      const passed = result.status === "passed"
+      const testError =
+        result.error?.message ||
+        (result.status === "timedOut" ? `Test "${spec.title}" timed out` : undefined)
+
+      if (result.steps && result.steps.length > 0) {
+        for (const step of result.steps) {
+          steps.push({
+            step: steps.length,
+            action: step.title,
+            passed: !step.error,
+            duration_ms: step.duration,
+            error: step.error?.message,
+          })
+        }
+      } else {
+        steps.push({
+          step: steps.length,
+          action: spec.title,
+          passed,
+          duration_ms: result.duration,
+          error: passed ? undefined : testError,
+        })
+      }
+
+      if (!passed && !error) {
+        error = testError || `Test "${spec.title}" ${result.status}`
+        screenshotPath = result.attachments?.find(
+          (a) => a.name === "screenshot" && a.path
+        )?.path
+      }
+    }
+  }
+
+  if (!error && report.errors && report.errors.length > 0) {
+    error = report.errors.map((e) => e.message).filter(Boolean).join("\n")
+  }
+
+  return { steps, error, retries, screenshotPath }
+}
+
+export async function executeStoryCode(
+  story: CodeStory,
+  baseUrl: string,
+  options: CodeExecutionOptions
+): Promise<StoryExecutionResult> {
+  const startTime = Date.now()
+
+  if (!story.generated_test_code) {
+    return {
+      passed: false,
+      duration_ms: 0,
+      steps: [],
+      error: "Story has no generated test code",
+      retries: 0,
+    }
+  }
+
+  const sandbox = getSpecSandbox()
+  if ("error" in sandbox) {
+    return {
+      passed: false,
+      duration_ms: 0,
+      steps: [],
+      error: sandbox.error,
+      retries: 0,
+    }
+  }
+
+  await mkdir(sandbox.root, { recursive: true, mode: 0o711 })
+  const dir = await mkdtemp(path.join(sandbox.root, `${story.id}-`))
+
+  try {
+    // The spec and config stay owned by the worker; the sandbox user owns
+    // the directory so Playwright can write its report and results
+    await writeFile(path.join(dir, "story.spec.ts"), story.generated_test_code)
+    await writeFile(path.join(dir, "playwright.config.mjs"), buildConfig(baseUrl, options))
+    // So `@playwright/test` resolves from the worker's node_modules
+    await symlink(WORKER_NODE_MODULES, path.join(dir, "node_modules"), "dir")
+    await chown(dir, sandbox.uid, sandbox.gid)
+    await chmod(dir, 0o700)
+
+    const env: NodeJS.ProcessEnv = {
+      NODE_ENV: "test",
+      CI: "1",
+      BASE_URL: baseUrl,
+      HOME: dir,
+      TMPDIR: dir,
+    }
+    for (const key of ALLOWED_ENV) {
+      if (process.env[key]) env[key] = process.env[key]
+    }
+    if (options.credentials) {
+      env.TEST_USERNAME = options.credentials.username
+      env.TEST_PASSWORD = options.credentials.password
+    }
+    // Passed through the environment so secrets are not written to disk
+    if (options.httpCredentials) {
+      env.HTTP_USERNAME = options.httpCredentials.username
+      env.HTTP_PASSWORD = options.httpCredentials.password
+    }
+
+    // Allow time for Playwright to start on top of the test timeout
+    const run = await runPlaywright(dir, sandbox, env, options.timeoutMs + 30000)
+
+    let report: JsonReport | null = null
+    const reportFile = await readSandboxFile(dir, "report.json", MAX_REPORT_BYTES)
+    try {
+      report = reportFile ? JSON.parse(reportFile.toString("utf-8")) : null
+    } catch {
+      // Unreadable report: the runner crashed or was killed while writing it
+    }
+
+    if (!report) {
+      return {
+        passed: false,
+        duration_ms: Date.now() - startTime,
+        steps: [],
+        error: run.timedOut
+          ? `Generated test timed out after ${options.timeoutMs}ms`
+          : `Playwright runner failed (exit ${run.code}): ${run.output.trim()}`,
+        retries: 0,
+      }
+    }
+
+    const mapped = mapReport(report)
+    const passed = run.code === 0 && !mapped.error && mapped.steps.length > 0
+
+    let screenshotUrl: string | undefined
+    // Only files inside the spec directory; the report is written by the spec
+    const screenshot = mapped.screenshotPath
+      ? await readSandboxFile(dir, mapped.screenshotPath, MAX_REPORT_BYTES)
+      : null
+    if (screenshot) {
+      try {
+        screenshotUrl = await uploadScreenshot(
+          screenshot,
+          story.id,
+          new Date().toISOString().replace(/[:.]/g, "-")
+        ) || undefined
+      } catch {
+        // Ignore screenshot errors
+      }
+    }
+
+    return {
+      passed,
+      duration_ms: Date.now() - startTime,
+      steps: mapped.steps,
+      error: passed
+        ? undefined
+        : mapped.error || (mapped.steps.length === 0 ? "Generated spec contains no tests" : `Playwright exited with code ${run.code}`),
+      screenshot_url: screenshotUrl,
+      retries: mapped.retries,
+    }
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
@@ -1,36 +1,61 @@
-import { chromium, Browser, Page } from "playwright"
+import { chromium, Browser, BrowserContext, Page } from "playwright"
 import { createClient as createSupabaseClient } from "@supabase/supabase-js"
-import type { StoryStep, HealProposal, StepResult } from "./types"
+import { categorizeFailure, inspectScreenshot, proposeHeal } from "@/lib/ai/auto-healer"
+import { authenticate, canReuseSession, getHttpCredentials, isOnLoginPage } from "./auth"
+import type { SessionHandle } from "./session-cache"
+import {
+  createTemplateContext,
+  interpolate,
+  maskSecrets,
+  validateVariableName,
+} from "@/lib/variables"
+import type { TemplateContext } from "@/lib/variables"
+import { expandSteps } from "@/lib/step-blocks"
+import { getHealTargetValue } from "@/lib/heal"
+import type { CallResolver, ExpandedStep } from "@/lib/step-blocks"
+import type {
+  AuthConfig,
+  StoryStep,
+  StoryVerification,
+  HealProposal,
+  HealTarget,
+  StepResult,
+  UserCredentials,
+  VerificationResult,
+  WaitUntil,
+} from "./types"
 
 interface Story {
   id: string
   steps: StoryStep[]
-  outcome: { verifications: Array<{ type: string; target?: string; expected: string }> }
+  outcome: { verifications: StoryVerification[] }
   required_role?: string
 }
 
-interface AuthConfig {
-  type: 'none' | 'basic' | 'form' | 'oauth'
-  loginUrl?: string
-  usernameSelector?: string
-  passwordSelector?: string
-  submitSelector?: string
-  successIndicator?: string
-}
-
-interface UserCredentials {
-  username: string
-  password: string
-}
-
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
 
 interface ExecutionOptions {
   retryCount: number
   screenshotOnFailure: boolean
+  stepTimeout?: number
+  viewport?: { width: number; height: number }
+  waitUntil?: WaitUntil
+  healOnFailure: boolean
+  visualLowConfidencePolicy?: 'fail' | 'warn' | 'trust'
   credentials?: UserCredentials
   authConfig?: AuthConfig
+  // The environment's own HTTP basic auth credentials
+  siteCredentials?: UserCredentials
+  // Cached sign-in for the story's role
+  session?: SessionHandle
+  // Values for {{env.NAME}}, {{param.column}} and friends, shared with the
+  // story's setup hooks so their captures carry over
+  templates?: TemplateContext
+  // Secret values to keep out of results
+  secrets?: string[]
+  // Looks up the step blocks and stories that call steps run
+  resolveCall: CallResolver
 }
 
 interface ExecutionResult {
@@ -41,12 +66,13 @@ interface ExecutionResult {
   screenshot_url?: string
   console_errors: string[]
   heal_proposal?: HealProposal
+  verifications: VerificationResult[]
   retries: number
 }
 
 let browser: Browser | null = null
 
-async function getBrowser(): Promise<Browser> {
+export async function getBrowser(): Promise<Browser> {
   if (!browser) {
     browser = await chromium.launch({
       headless: true,
@@ -55,7 +81,7 @@ async function getBrowser(): Promise<Browser> {
   return browser
 }
 
-async function uploadScreenshot(
+export async function uploadScreenshot(
   screenshot: Buffer,
   storyId: string,
   timestamp: string
@@ -87,48 +113,6 @@ async function uploadScreenshot(
   }
 }
 
-async function authenticateUser(
-  page: Page,
-  baseUrl: string,
-  credentials: UserCredentials,
-  authConfig: AuthConfig
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    // Navigate to login page - resolve relative paths against baseUrl
-    const loginUrl = new URL(authConfig.loginUrl ?? "/", baseUrl).toString()
-    await page.goto(loginUrl, { waitUntil: "domcontentloaded" })
-
-    // Default selectors if not provided
-    const usernameSelector = authConfig.usernameSelector || 'input[type="email"], input[name="email"], input[name="username"], #email, #username'
-    const passwordSelector = authConfig.passwordSelector || 'input[type="password"], input[name="password"], #password'
-    const submitSelector = authConfig.submitSelector || 'button[type="submit"], input[type="submit"], button:has-text("Login"), button:has-text("Sign in")'
-
-    // Fill credentials
-    await page.fill(usernameSelector, credentials.username)
-    await page.fill(passwordSelector, credentials.password)
-
-    // Click submit
-    await page.click(submitSelector)
-
-    // Wait for navigation or success indicator
-    if (authConfig.successIndicator) {
-      await page.waitForSelector(authConfig.successIndicator, { timeout: 10000 })
-    } else {
-      // Wait for URL change or page load
-      await page.waitForLoadState("domcontentloaded")
-      // Give the app a moment to render after authentication
-      await page.waitForTimeout(500)
-    }
-
-    console.log(`Authenticated as ${credentials.username}`)
-    return { success: true }
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error)
-    console.error(`Authentication failed: ${errorMessage}`)
-    return { success: false, error: `Authentication failed: ${errorMessage}` }
-  }
-}
-
 // Smart locator that tries multiple strategies to find an element
 async function findElement(page: Page, target: string) {
   console.log(`Finding element: "${target}"`)
@@ -247,21 +231,199 @@ async function findElement(page: Page, target: string) {
   return page.locator(target)
 }
 
+// Render the story as numbered lines so the healer can point at the failing one
+function formatStoryForHealing(story: Story, target: HealTarget): string {
+  const lines = story.steps.map((step) => {
+    let line = step.action
+    if (step.call) line += ` ${step.call.kind} ${step.call.id}`
+    if (step.element) line += ` on "${step.element}"`
+    if (step.selector) line += ` [selector: ${step.selector}]`
+    if (step.value) line += ` with value "${step.value}"`
+    return line
+  })
+  for (const verification of story.outcome?.verifications || []) {
+    lines.push(
+      `verify ${verification.type}${verification.target ? ` of "${verification.target}"` : ""}: "${verification.expected}"`
+    )
+  }
+
+  const failingLine = getHealLine(story, target)
+  return lines
+    .map((line, i) => `${i + 1}. ${line}${i + 1 === failingLine ? "  <-- FAILED" : ""}`)
+    .join("\n")
+}
+
+function getHealLine(story: Story, target: HealTarget): number {
+  return target.kind === "step"
+    ? target.index + 1
+    : story.steps.length + target.index + 1
+}
+
+async function proposeStoryHeal(
+  page: Page,
+  story: Story,
+  target: HealTarget,
+  error: string,
+  screenshot?: Buffer
+): Promise<HealProposal | undefined> {
+  const category = categorizeFailure(error)
+  if (!category) {
+    return undefined
+  }
+
+  try {
+    const pageHtml = await page.content()
+    const proposal = await proposeHeal(
+      formatStoryForHealing(story, target),
+      error,
+      pageHtml,
+      screenshot?.toString("base64")
+    )
+    if (!proposal) {
+      return undefined
+    }
+
+    const type = ["selector", "flow", "content"].includes(proposal.type) ? proposal.type : category
+    return {
+      ...proposal,
+      type,
+      // The failing line and the value it replaces are known; don't trust the
+      // model to echo them back. Applying checks the value is still there.
+      original: getHealTargetValue(story, target, type) ?? proposal.original,
+      line: getHealLine(story, target),
+      target,
+    }
+  } catch (e) {
+    console.error(`Heal proposal failed for story ${story.id}:`, e)
+    return undefined
+  }
+}
+
+async function checkVerification(
+  page: Page,
+  templateVerification: StoryVerification,
+  index: number,
+  consoleErrors: string[],
+  lowConfidencePolicy: 'fail' | 'warn' | 'trust',
+  templates: TemplateContext
+): Promise<VerificationResult> {
+  const result: VerificationResult = {
+    index,
+    type: templateVerification.type,
+    expected: templateVerification.expected,
+    passed: true,
+  }
+
+  try {
+    const verification: StoryVerification = {
+      ...templateVerification,
+      target: templateVerification.target && interpolate(templateVerification.target, templates),
+      expected: interpolate(templateVerification.expected, templates),
+    }
+    result.expected = verification.expected
+
+    if (verification.type === "url") {
+      const currentUrl = page.url()
+      if (!currentUrl.includes(verification.expected)) {
+        result.passed = false
+        result.error = `Expected URL to contain "${verification.expected}", got "${currentUrl}"`
+      }
+    } else if (verification.type === "element") {
+      const element = await page
+        .locator(verification.target || verification.expected)
+        .first()
+      if (!(await element.isVisible())) {
+        result.passed = false
+        result.error = `Element "${verification.target || verification.expected}" not visible`
+      }
+    } else if (verification.type === "content") {
+      const hasText = await page
+        .locator(`text=${verification.expected}`)
+        .first()
+        .isVisible()
+        .catch(() => false)
+      if (!hasText) {
+        result.passed = false
+        result.error = `Expected content "${verification.expected}" not found`
+      }
+    } else if (verification.type === "visual") {
+      const screenshot = await page.screenshot()
+      const inspection = await inspectScreenshot(
+        screenshot.toString("base64"),
+        verification.expected,
+        consoleErrors
+      )
+
+      result.observation = inspection.observation
+      result.confidence = inspection.confidence
+      result.issues = inspection.issues
+      result.passed = inspection.passed
+
+      if (inspection.confidence === "low" && lowConfidencePolicy !== "trust") {
+        result.passed = lowConfidencePolicy === "warn"
+        result.warning = lowConfidencePolicy === "warn"
+      }
+
+      if (!result.passed) {
+        result.error = inspection.confidence === "low"
+          ? `Visual check for "${verification.expected}" was inconclusive: ${inspection.observation}`
+          : `Visual check for "${verification.expected}" failed: ${inspection.observation}`
+      }
+    }
+  } catch (e) {
+    result.passed = false
+    result.error = e instanceof Error ? e.message : String(e)
+  }
+
+  return result
+}
+
+// Fill in templates in everything a step acts on
+function resolveStep(step: StoryStep, templates: TemplateContext): StoryStep {
+  return {
+    ...step,
+    element: step.element && interpolate(step.element, templates),
+    selector: step.selector && interpolate(step.selector, templates),
+    value: step.value && interpolate(step.value, templates),
+  }
+}
+
 async function executeStep(
   page: Page,
-  step: StoryStep,
-  stepIndex: number
+  templateStep: StoryStep,
+  stepIndex: number,
+  waitUntil: WaitUntil,
+  templates: TemplateContext
 ): Promise<StepResult> {
   const startTime = Date.now()
 
   try {
+    const step = resolveStep(templateStep, templates)
     const action = step.action.toLowerCase()
 
+    // Capture text from the page for later steps as {{vars.<value>}}. Checked
+    // first since e.g. "store entered email" would otherwise match "enter".
+    if (action.startsWith("capture") || action.startsWith("store")) {
+      const target = step.selector || step.element
+      const name = step.value || ""
+      const nameError = validateVariableName(name)
+      if (nameError) {
+        throw new Error(`Capture step needs a variable name as its value: ${nameError}`)
+      }
+      if (!target) {
+        throw new Error("Capture step needs an element to read from")
+      }
+      const element = await findElement(page, target)
+      const tagName = await element.evaluate((el) => el.tagName.toLowerCase())
+      templates.vars[name] = ["input", "textarea", "select"].includes(tagName)
+        ? await element.inputValue()
+        : (await element.innerText()).trim()
+    }
     // Navigate
-    if (action.includes("navigate") || action.includes("go to")) {
+    else if (action.includes("navigate") || action.includes("go to")) {
       const url = step.value || step.element
       if (url) {
-        await page.goto(url, { waitUntil: "domcontentloaded" })
+        await page.goto(url, { waitUntil })
       }
     }
     // Click
@@ -363,10 +525,11 @@ async function executeStep(
   } catch (error) {
     return {
       step: stepIndex,
-      action: step.action,
+      action: templateStep.action,
       passed: false,
       duration_ms: Date.now() - startTime,
       error: error instanceof Error ? error.message : String(error),
+      selector: templateStep.selector || templateStep.element,
     }
   }
 }
@@ -377,10 +540,39 @@ export async function executeStory(
   options: ExecutionOptions
 ): Promise<ExecutionResult> {
   const browser = await getBrowser()
-  const context = await browser.newContext({
-    viewport: { width: 1280, height: 720 },
-  })
+  const authConfig = options.authConfig
+  const session =
+    options.credentials && canReuseSession(authConfig) ? options.session : undefined
+
+  // Without a cached session, let one story sign in while the others wait
+  // to reuse its session
+  let releaseSession: (() => void) | undefined
+  let storageState = session?.get()
+  if (session && !storageState) {
+    releaseSession = await session.acquire()
+    storageState = session.get()
+    if (storageState) {
+      releaseSession()
+      releaseSession = undefined
+    }
+  }
+
+  let context: BrowserContext
+  try {
+    context = await browser.newContext({
+      viewport: options.viewport ?? { width: 1280, height: 720 },
+      httpCredentials: getHttpCredentials(baseUrl, authConfig, options.credentials, options.siteCredentials),
+      storageState,
+    })
+  } catch (error) {
+    releaseSession?.()
+    throw error
+  }
   const page = await context.newPage()
+  if (options.stepTimeout) {
+    page.setDefaultTimeout(options.stepTimeout)
+  }
+  const waitUntil = options.waitUntil ?? "domcontentloaded"
 
   const consoleErrors: string[] = []
   page.on("console", (msg) => {
@@ -389,33 +581,59 @@ export async function executeStory(
     }
   })
 
+  // Generated and captured values are shared by all steps of this run
+  const templates = options.templates ?? createTemplateContext()
+
   const startTime = Date.now()
   const stepResults: StepResult[] = []
   let passed = true
   let error: string | undefined
   let screenshotUrl: string | undefined
   let retries = 0
+  let failedTarget: HealTarget | undefined
+  let failureScreenshot: Buffer | undefined
+  let healProposal: HealProposal | undefined
+  const verificationResults: VerificationResult[] = []
 
   try {
-    // Authenticate if credentials provided
-    if (options.credentials && options.authConfig && options.authConfig.type === 'form') {
-      const authResult = await authenticateUser(
-        page,
-        baseUrl,
-        options.credentials,
-        options.authConfig
-      )
-      if (!authResult.success) {
-        throw new Error(authResult.error || "Authentication failed")
+    let steps: ExpandedStep[]
+    try {
+      // Calls are expanded up front so a missing block fails before sign-in,
+      // and in here so that failure still releases the session lock
+      steps = await expandSteps(story.steps, options.resolveCall)
+
+      let signedIn = false
+      if (session && storageState && authConfig) {
+        await page.goto(baseUrl, { waitUntil })
+        signedIn = !isOnLoginPage(page, baseUrl, authConfig)
+        if (!signedIn) {
+          // The cached session has expired on the server
+          session.invalidate()
+          await context.clearCookies()
+        }
       }
-    } else {
-      // Navigate to base URL first (if no auth needed)
-      await page.goto(baseUrl, { waitUntil: "domcontentloaded" })
+
+      if (!signedIn) {
+        // Sign in as the story's role, or just open the app
+        const authResult = await authenticate(
+          context,
+          page,
+          baseUrl,
+          authConfig,
+          options.credentials,
+          waitUntil
+        )
+        if (!authResult.success) {
+          throw new Error(authResult.error || "Authentication failed")
+        }
+        session?.save(await context.storageState())
+      }
+    } finally {
+      releaseSession?.()
     }
 
     // Execute each step
-    for (let i = 0; i < story.steps.length; i++) {
-      const step = story.steps[i]
+    for (const { step, index, origin } of steps) {
       let stepResult: StepResult
 
       // Retry logic for individual steps
@@ -423,7 +641,10 @@ export async function executeStory(
       let lastError: string | undefined
 
       while (attempts <= options.retryCount) {
-        stepResult = await executeStep(page, step, i)
+        stepResult = await executeStep(page, step, index, waitUntil, templates)
+        if (origin) {
+          stepResult.origin = origin
+        }
 
         if (stepResult.passed) {
           break
@@ -444,12 +665,24 @@ export async function executeStory(
       if (!stepResult!.passed) {
         passed = false
         error = lastError
+        // Steps from a call are shared with other stories, so they aren't
+        // healed in place
+        failedTarget = origin ? undefined : { kind: "step", index }
+        if (origin) {
+          error = `${error} (in ${origin.map((o) => `step ${o.step + 1} of "${o.name}"`).reverse().join(", called from ")})`
+        }
+
+        // Signed out mid-story; the next story with this role signs in again
+        if (session && authConfig && isOnLoginPage(page, baseUrl, authConfig)) {
+          session.invalidate()
+          error = `${error} (redirected to the login page; the cached session was discarded)`
+        }
 
         // Take screenshot on failure
+        failureScreenshot = await page.screenshot()
         if (options.screenshotOnFailure) {
-          const screenshot = await page.screenshot()
           screenshotUrl = await uploadScreenshot(
-            screenshot,
+            failureScreenshot,
             story.id,
             new Date().toISOString().replace(/[:.]/g, "-")
           ) || undefined
@@ -461,51 +694,49 @@ export async function executeStory(
 
     // Verify outcome if all steps passed
     if (passed && story.outcome?.verifications) {
-      for (const verification of story.outcome.verifications) {
-        try {
-          if (verification.type === "url") {
-            const currentUrl = page.url()
-            if (!currentUrl.includes(verification.expected)) {
-              passed = false
-              error = `Expected URL to contain "${verification.expected}", got "${currentUrl}"`
-            }
-          } else if (verification.type === "element") {
-            const element = await page
-              .locator(verification.target || verification.expected)
-              .first()
-            if (!(await element.isVisible())) {
-              passed = false
-              error = `Element "${verification.target || verification.expected}" not visible`
-            }
-          } else if (verification.type === "content") {
-            const hasText = await page
-              .locator(`text=${verification.expected}`)
-              .first()
-              .isVisible()
-              .catch(() => false)
-            if (!hasText) {
-              passed = false
-              error = `Expected content "${verification.expected}" not found`
-            }
-          }
-        } catch (e) {
+      const verifications = story.outcome.verifications
+      for (let v = 0; v < verifications.length; v++) {
+        const result = await checkVerification(
+          page,
+          verifications[v],
+          v,
+          consoleErrors,
+          options.visualLowConfidencePolicy ?? "fail",
+          templates
+        )
+        verificationResults.push(result)
+
+        if (!result.passed) {
           passed = false
-          error = e instanceof Error ? e.message : String(e)
+          error = result.error
+          failedTarget = { kind: "verification", index: v }
+          break
         }
-
-        if (!passed) break
       }
 
       // Take screenshot on verification failure
-      if (!passed && options.screenshotOnFailure && !screenshotUrl) {
-        const screenshot = await page.screenshot()
-        screenshotUrl = await uploadScreenshot(
-          screenshot,
-          story.id,
-          new Date().toISOString().replace(/[:.]/g, "-")
-        ) || undefined
+      if (!passed && !failureScreenshot) {
+        failureScreenshot = await page.screenshot()
+        if (options.screenshotOnFailure) {
+          screenshotUrl = await uploadScreenshot(
+            failureScreenshot,
+            story.id,
+            new Date().toISOString().replace(/[:.]/g, "-")
+          ) || undefined
+        }
       }
     }
+
+    // Ask the healer for a fix while the failing page is still open
+    if (!passed && failedTarget && error && options.healOnFailure) {
+      healProposal = await proposeStoryHeal(
+        page,
+        story,
+        failedTarget,
+        maskSecrets(error, options.secrets ?? []),
+        failureScreenshot
+      )
+    }
   } catch (e) {
     passed = false
     error = e instanceof Error ? e.message : String(e)
@@ -527,6 +758,32 @@ export async function executeStory(
     await context.close()
   }
 
+  // Secret values may appear in errors, resolved expectations, the page's
+  // console and the healer's answer, which saw the filled-in page
+  const secrets = options.secrets ?? []
+  if (secrets.length > 0) {
+    error = error && maskSecrets(error, secrets)
+    for (let i = 0; i < consoleErrors.length; i++) {
+      consoleErrors[i] = maskSecrets(consoleErrors[i], secrets)
+    }
+    if (healProposal) {
+      healProposal = {
+        ...healProposal,
+        original: maskSecrets(healProposal.original, secrets),
+        proposed: maskSecrets(healProposal.proposed, secrets),
+        reasoning: maskSecrets(healProposal.reasoning, secrets),
+      }
+    }
+    for (const stepResult of stepResults) {
+      stepResult.error = stepResult.error && maskSecrets(stepResult.error, secrets)
+    }
+    for (const verification of verificationResults) {
+      verification.expected = maskSecrets(verification.expected, secrets)
+      verification.error = verification.error && maskSecrets(verification.error, secrets)
+      verification.observation = verification.observation && maskSecrets(verification.observation, secrets)
+    }
+  }
+
   return {
     passed,
     duration_ms: Date.now() - startTime,
@@ -534,6 +791,8 @@ export async function executeStory(
     error,
     screenshot_url: screenshotUrl,
     console_errors: consoleErrors,
+    heal_proposal: healProposal,
+    verifications: verificationResults,
     retries,
   }
 }
@@ -0,0 +1,150 @@
+import { interpolate } from "@/lib/variables"
+import type { TemplateContext } from "@/lib/variables"
+import { describeStoryHook } from "@/lib/story-hooks"
+import type { Fixture, HttpHookRequest, StoryHook, StoryPrecondition } from "./types"
+
+// Upper bound for one setup or teardown HTTP call
+const HTTP_HOOK_TIMEOUT_MS = 30000
+
+// How much of a failed response body to include in the error
+const ERROR_BODY_LENGTH = 300
+
+export interface HookRunner {
+  baseUrl: string
+  templates: TemplateContext
+  fixtures: Fixture[]
+  // Runs another story of the app as a setup or teardown step
+  runStory: (storyId: string) => Promise<{ passed: boolean; error?: string }>
+}
+
+export interface SetupResult {
+  // Why setup failed; the story should be skipped
+  error?: string
+  // Hooks to run after the story, in order
+  teardowns: StoryHook[]
+}
+
+function getByPath(value: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (current, key) =>
+      current !== null && typeof current === "object" ? (current as Record<string, unknown>)[key] : undefined,
+    value
+  )
+}
+
+async function runHttpHook(
+  request: HttpHookRequest,
+  runner: HookRunner
+): Promise<void> {
+  const { templates } = runner
+  const url = new URL(interpolate(request.url, templates), runner.baseUrl).toString()
+  const headers = Object.fromEntries(
+    Object.entries(request.headers ?? {}).map(([name, value]) => [name, interpolate(value, templates)])
+  )
+  const body = request.body ? interpolate(request.body, templates) : undefined
+  if (body && !Object.keys(headers).some((name) => name.toLowerCase() === "content-type")) {
+    headers["Content-Type"] = "application/json"
+  }
+
+  const response = await fetch(url, {
+    method: request.method,
+    headers,
+    body: request.method === "GET" ? undefined : body,
+    signal: AbortSignal.timeout(HTTP_HOOK_TIMEOUT_MS),
+  })
+  const text = await response.text()
+
+  if (!response.ok) {
+    throw new Error(
+      `${request.method} ${url} returned ${response.status}: ${text.slice(0, ERROR_BODY_LENGTH)}`
+    )
+  }
+
+  const captures = Object.entries(request.capture ?? {})
+  if (captures.length === 0) return
+
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error(`${request.method} ${url} did not return JSON to capture from`)
+  }
+  for (const [name, path] of captures) {
+    const value = getByPath(json, path)
+    if (value === undefined || value === null) {
+      throw new Error(`${request.method} ${url} response has no "${path}" to capture as {{vars.${name}}}`)
+    }
+    templates.vars[name] = typeof value === "object" ? JSON.stringify(value) : String(value)
+  }
+}
+
+function getFixture(name: string, runner: HookRunner): Fixture {
+  const fixture = runner.fixtures.find((f) => f.name === name)
+  if (!fixture) {
+    throw new Error(`Fixture "${name}" is not defined in the app settings`)
+  }
+  return fixture
+}
+
+async function runHook(hook: StoryHook, runner: HookRunner, phase: "setup" | "teardown"): Promise<void> {
+  if (hook.kind === "http") {
+    await runHttpHook(hook.request, runner)
+  } else if (hook.kind === "fixture") {
+    const fixture = getFixture(hook.fixture, runner)
+    const request = phase === "setup" ? fixture.setup : fixture.teardown
+    if (request) {
+      await runHttpHook(request, runner)
+    }
+  } else {
+    const result = await runner.runStory(hook.storyId)
+    if (!result.passed) {
+      throw new Error(result.error || "the story failed")
+    }
+  }
+}
+
+// Run each precondition's setup in order. Stops at the first failure, after
+// tearing down what was already set up.
+export async function runSetup(
+  preconditions: StoryPrecondition[],
+  runner: HookRunner
+): Promise<SetupResult> {
+  const teardowns: StoryHook[] = []
+
+  for (const precondition of preconditions) {
+    if (precondition.setup) {
+      try {
+        await runHook(precondition.setup, runner, "setup")
+      } catch (error) {
+        await runTeardown(teardowns, runner)
+        const message = error instanceof Error ? error.message : String(error)
+        return {
+          error: `Setup "${precondition.description}" (${describeStoryHook(precondition.setup)}) failed: ${message}`,
+          teardowns: [],
+        }
+      }
+    }
+
+    const teardown = precondition.teardown ??
+      (precondition.setup?.kind === "fixture" ? precondition.setup : undefined)
+    if (teardown) {
+      teardowns.unshift(teardown)
+    }
+  }
+
+  return { teardowns }
+}
+
+// Run teardown hooks, last set up first. Failures are returned rather than
+// thrown so every hook gets a chance to clean up.
+export async function runTeardown(teardowns: StoryHook[], runner: HookRunner): Promise<string[]> {
+  const errors: string[] = []
+  for (const hook of teardowns) {
+    try {
+      await runHook(hook, runner, "teardown")
+    } catch (error) {
+      errors.push(`Teardown (${describeStoryHook(hook)}) failed: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+  return errors
+}
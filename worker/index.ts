@@ -1,8 +1,10 @@
 import { Worker, Job } from "bullmq"
 import type { ConnectionOptions } from "bullmq"
 import { executeTestRun } from "./test-executor"
-import { checkScheduledJobs } from "./scheduler"
-import type { TestRunJobData } from "./types"
+import { testLogin } from "./test-login"
+import { reencryptCredentials } from "./reencrypt"
+import { tickScheduler, releaseLeadership } from "./scheduler"
+import type { ReencryptJobData, TestLoginJobData, TestRunJobData } from "./types"
 
 const redisUrl = process.env.REDIS_URL || "redis://localhost:6379"
 const concurrency = parseInt(process.env.WORKER_CONCURRENCY || "3", 10)
@@ -25,13 +27,30 @@ console.log(`Redis URL: ${redisUrl}`)
 console.log(`Concurrency: ${concurrency}`)
 
 // Create worker for test runs
-const worker = new Worker<TestRunJobData>(
+const worker = new Worker<TestRunJobData | TestLoginJobData | ReencryptJobData>(
   "test-runs",
-  async (job: Job<TestRunJobData>) => {
-    console.log(`Processing job ${job.id}: test run ${job.data.testRunId}`)
+  async (job: Job<TestRunJobData | TestLoginJobData | ReencryptJobData>) => {
+    // Auth config checks from the dashboard share the queue
+    if (job.name === "test-login") {
+      const data = job.data as TestLoginJobData
+      console.log(`Processing job ${job.id}: test login for role ${data.role}`)
+      return testLogin(data)
+    }
+
+    // Admin-triggered after an encryption key rotation
+    if (job.name === "reencrypt-credentials") {
+      const data = job.data as ReencryptJobData
+      console.log(`Processing job ${job.id}: re-encrypting credentials for ${data.appId ? `app ${data.appId}` : "all apps"}`)
+      return reencryptCredentials(data, (progress) => {
+        job.updateProgress(progress)
+      })
+    }
+
+    const data = job.data as TestRunJobData
+    console.log(`Processing job ${job.id}: test run ${data.testRunId}`)
 
     try {
-      await executeTestRun(job.data, (progress) => {
+      await executeTestRun(data, (progress) => {
         job.updateProgress(progress)
       })
       console.log(`Job ${job.id} completed successfully`)
@@ -58,10 +77,10 @@ worker.on("error", (err) => {
   console.error("Worker error:", err)
 })
 
-// Start scheduler check every minute
+// Tick the scheduler every minute; only the leader worker enqueues runs
 const schedulerInterval = setInterval(async () => {
   try {
-    await checkScheduledJobs()
+    await tickScheduler()
   } catch (error) {
     console.error("Scheduler check failed:", error)
   }
@@ -71,6 +90,7 @@ const schedulerInterval = setInterval(async () => {
 async function shutdown() {
   console.log("Shutting down worker...")
   clearInterval(schedulerInterval)
+  await releaseLeadership()
   await worker.close()
   process.exit(0)
 }
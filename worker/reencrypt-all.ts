@@ -0,0 +1,28 @@
+import { reencryptCredentials } from "./reencrypt"
+
+// Operator command for key rotation: moves every app's credentials onto the
+// primary key in one pass, since ENCRYPTION_KEYS is shared by the deployment.
+// Run with `npm run reencrypt` where the worker's environment is set.
+async function main() {
+  let lastLogged = 0
+  const result = await reencryptCredentials({}, ({ done, total }) => {
+    if (done === total || done - lastLogged >= 100) {
+      lastLogged = done
+      console.log(`Re-encrypting ${done}/${total}...`)
+    }
+  })
+
+  console.log(
+    `${result.total} stored credentials: ${result.reencrypted} re-encrypted, ` +
+      `${result.skipped} changed meanwhile, ${result.failed} failed`
+  )
+  for (const message of result.errors) {
+    console.error(`  ${message}`)
+  }
+  process.exit(result.failed > 0 ? 1 : 0)
+}
+
+main().catch((error) => {
+  console.error("Re-encryption failed:", error)
+  process.exit(1)
+})
@@ -0,0 +1,158 @@
+import { createClient as createSupabaseClient } from "@supabase/supabase-js"
+import { needsReencryption, reencrypt } from "@/lib/crypto"
+import type { AuthConfig, ReencryptJobData, ReencryptResult } from "./types"
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+// Keep the job result small when many values fail the same way
+const MAX_REPORTED_ERRORS = 20
+
+// Rows per request; PostgREST caps a single select at 1000 by default
+const PAGE_SIZE = 1000
+
+async function fetchAll<T>(
+  label: string,
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1)
+    if (error) {
+      throw new Error(`Failed to fetch ${label}: ${error.message}`)
+    }
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+// Rewrite every test user secret, secret variable and environment basic auth
+// password that is not on the primary key, for one app or, without an appId,
+// the whole deployment. Old keys keep decrypting until this has run, so it is
+// safe to repeat or to run while tests are in progress.
+export async function reencryptCredentials(
+  data: ReencryptJobData,
+  onProgress: (progress: { done: number; total: number }) => void
+): Promise<ReencryptResult> {
+  const supabase = createSupabaseClient(supabaseUrl, supabaseServiceKey)
+  const result: ReencryptResult = { total: 0, reencrypted: 0, skipped: 0, failed: 0, errors: [] }
+
+  const environments = await fetchAll("environments", (from, to) => {
+    const query = supabase.from("environments").select("id, name, auth_config")
+    return (data.appId ? query.eq("app_id", data.appId) : query).order("id").range(from, to)
+  })
+
+  // An app's users are found through its environments; without an app every
+  // user is covered
+  const envIds = environments.map((e) => e.id)
+  const testUsers = data.appId && envIds.length === 0
+    ? []
+    : await fetchAll("test users", (from, to) => {
+        const query = supabase.from("test_users").select("id, username, password_encrypted, totp_secret_encrypted")
+        return (data.appId ? query.in("environment_id", envIds) : query).order("id").range(from, to)
+      })
+
+  const variables = await fetchAll("variables", (from, to) => {
+    const query = supabase.from("variables").select("id, name, value_encrypted").eq("is_secret", true)
+    return (data.appId ? query.eq("app_id", data.appId) : query).order("id").range(from, to)
+  })
+
+  // Each value is written back only if it has not changed meanwhile, so a
+  // password edited during the job is never overwritten with the old one.
+  // A task resolves to whether its row was written.
+  const tasks: { label: string; run: () => Promise<boolean> }[] = []
+
+  for (const user of testUsers) {
+    for (const column of ["password_encrypted", "totp_secret_encrypted"] as const) {
+      const current = user[column] as string | null
+      if (!current) continue
+
+      result.total++
+      if (!needsReencryption(current)) continue
+
+      tasks.push({
+        label: `${user.username} (${column === "password_encrypted" ? "password" : "authenticator secret"})`,
+        run: async () => {
+          const { data: rows, error } = await supabase
+            .from("test_users")
+            .update({ [column]: await reencrypt(current) })
+            .eq("id", user.id)
+            .eq(column, current)
+            .select("id")
+          if (error) throw new Error(error.message)
+          return (rows || []).length > 0
+        },
+      })
+    }
+  }
+
+  for (const variable of variables) {
+    const current = variable.value_encrypted as string | null
+    if (!current) continue
+
+    result.total++
+    if (!needsReencryption(current)) continue
+
+    tasks.push({
+      label: `${variable.name} (secret variable)`,
+      run: async () => {
+        const { data: rows, error } = await supabase
+          .from("variables")
+          .update({ value_encrypted: await reencrypt(current) })
+          .eq("id", variable.id)
+          .eq("value_encrypted", current)
+          .select("id")
+        if (error) throw new Error(error.message)
+        return (rows || []).length > 0
+      },
+    })
+  }
+
+  for (const env of environments) {
+    const authConfig = env.auth_config as AuthConfig | null
+    const current = authConfig?.password_encrypted
+    if (!current) continue
+
+    result.total++
+    if (!needsReencryption(current)) continue
+
+    tasks.push({
+      label: `${env.name} (basic auth password)`,
+      run: async () => {
+        const { data: rows, error } = await supabase
+          .from("environments")
+          .update({ auth_config: { ...authConfig, password_encrypted: await reencrypt(current) } })
+          .eq("id", env.id)
+          .eq("auth_config->>password_encrypted", current)
+          .select("id")
+        if (error) throw new Error(error.message)
+        return (rows || []).length > 0
+      },
+    })
+  }
+
+  for (let i = 0; i < tasks.length; i++) {
+    try {
+      // No row means the value was edited or deleted meanwhile
+      if (await tasks[i].run()) {
+        result.reencrypted++
+      } else {
+        result.skipped++
+      }
+    } catch (error) {
+      result.failed++
+      if (result.errors.length < MAX_REPORTED_ERRORS) {
+        result.errors.push(`${tasks[i].label}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+    onProgress({ done: i + 1, total: tasks.length })
+  }
+
+  console.log(
+    `Re-encrypted ${result.reencrypted} of ${tasks.length} outdated credentials ` +
+      (data.appId ? `for app ${data.appId}` : "across all apps") +
+      (result.skipped > 0 ? ` (${result.skipped} changed meanwhile)` : "") +
+      (result.failed > 0 ? ` (${result.failed} failed)` : "")
+  )
+  return result
+}
@@ -1,12 +1,53 @@
-import { createClient as createSupabaseClient } from "@supabase/supabase-js"
+import { createClient as createSupabaseClient, SupabaseClient } from "@supabase/supabase-js"
 import { Queue } from "bullmq"
 import type { ConnectionOptions } from "bullmq"
+import { hostname } from "os"
+import { randomUUID } from "crypto"
+import { getNextRun, getNextRuns } from "@/lib/cron"
 import type { TestRunJobData } from "./types"
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
 const redisUrl = process.env.REDIS_URL || "redis://localhost:6379"
 
+// Only one worker ticks the scheduler at a time. The leader renews its
+// lock every tick; if it dies another worker takes over once the lock expires.
+const LEADER_KEY = "qay:scheduler:leader"
+const LEADER_TTL_MS = 150 * 1000
+const instanceId = `${hostname()}:${process.pid}:${randomUUID()}`
+
+// Runs this late are considered missed and handled by the misfire policy
+const MISFIRE_GRACE_MS = 2 * 60 * 1000
+
+// Upper bound on missed runs replayed by the run_all policy
+const MAX_CATCH_UP_RUNS = 50
+
+const RENEW_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0`
+
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`
+
+type MisfirePolicy = "skip" | "run_once" | "run_all"
+
+interface DueJob {
+  id: string
+  app_id: string
+  environment_id: string
+  cron_expression: string
+  timezone: string
+  journey_ids?: string[]
+  next_run_at: string
+  misfire_policy?: MisfirePolicy
+  app: { organization_id: string }
+}
+
 function getConnectionOptions(): ConnectionOptions {
   const url = new URL(redisUrl)
   return {
@@ -28,15 +69,169 @@ function getQueue(): Queue {
   return queue
 }
 
-async function enqueueTestRun(data: TestRunJobData) {
+// Scheduled runs are keyed by schedule and time so a run is enqueued at most once
+async function enqueueTestRun(data: TestRunJobData, scheduleId: string, scheduledFor: Date) {
   const q = getQueue()
-  return q.add("execute", data, { priority: 1 })
+  return q.add("execute", data, {
+    priority: 1,
+    jobId: `schedule-${scheduleId}-${scheduledFor.getTime()}`,
+  })
+}
+
+async function acquireLeadership(): Promise<boolean> {
+  const redis = await getQueue().client
+
+  const renewed = await redis.eval(RENEW_LOCK_SCRIPT, 1, LEADER_KEY, instanceId, LEADER_TTL_MS)
+  if (renewed === 1) {
+    return true
+  }
+
+  const acquired = await redis.set(LEADER_KEY, instanceId, "PX", LEADER_TTL_MS, "NX")
+  if (acquired === "OK") {
+    console.log(`Scheduler leadership acquired by ${instanceId}`)
+    return true
+  }
+  return false
+}
+
+export async function releaseLeadership(): Promise<void> {
+  try {
+    const redis = await getQueue().client
+    await redis.eval(RELEASE_LOCK_SCRIPT, 1, LEADER_KEY, instanceId)
+  } catch (error) {
+    console.error("Failed to release scheduler leadership:", error)
+  }
+}
+
+let ticking = false
+
+// Called every minute by each worker; only the leader checks schedules
+export async function tickScheduler(): Promise<void> {
+  if (ticking) {
+    return
+  }
+  ticking = true
+
+  try {
+    if (await acquireLeadership()) {
+      await checkScheduledJobs()
+    }
+  } finally {
+    ticking = false
+  }
+}
+
+// The last `limit` occurrences after `from` up to `to`
+function getRunsBetween(job: DueJob, from: Date, to: Date, limit: number): Date[] {
+  const runs: Date[] = []
+  let cursor = from
+  for (;;) {
+    const page = getNextRuns(job.cron_expression, job.timezone || "UTC", limit, cursor)
+    const due = page.filter((run) => run <= to)
+    runs.push(...due)
+    runs.splice(0, Math.max(0, runs.length - limit))
+    if (due.length < limit) {
+      return runs
+    }
+    cursor = due[due.length - 1]
+  }
+}
+
+// The most recent occurrences from the job's next_run_at up to now, at most
+// MAX_CATCH_UP_RUNS, oldest first. A job that fell far behind would take
+// long to replay from next_run_at, so the search works back from now,
+// widening until it finds enough runs or reaches next_run_at.
+function getDueRuns(job: DueJob, now: Date): Date[] {
+  const first = new Date(job.next_run_at)
+  for (let windowMs = 60 * 1000; ; windowMs *= 2) {
+    const reachedFirst = now.getTime() - windowMs < first.getTime()
+    // next_run_at is due itself, so search from just before it
+    const from = reachedFirst ? new Date(first.getTime() - 1) : new Date(now.getTime() - windowMs)
+    const runs = getRunsBetween(job, from, now, MAX_CATCH_UP_RUNS)
+    if (!reachedFirst && runs.length < MAX_CATCH_UP_RUNS) {
+      continue
+    }
+    if (reachedFirst && runs[0]?.getTime() !== first.getTime() && runs.length < MAX_CATCH_UP_RUNS) {
+      runs.unshift(first)
+    }
+    return runs
+  }
+}
+
+function selectRunsForPolicy(dueRuns: Date[], policy: MisfirePolicy, now: Date): Date[] {
+  const latest = dueRuns[dueRuns.length - 1]
+  const onTime = now.getTime() - latest.getTime() <= MISFIRE_GRACE_MS
+
+  switch (policy) {
+    case "skip":
+      return onTime ? [latest] : []
+    case "run_all":
+      return dueRuns.slice(-MAX_CATCH_UP_RUNS)
+    case "run_once":
+    default:
+      return [latest]
+  }
+}
+
+async function triggerScheduledRun(
+  supabase: SupabaseClient,
+  job: DueJob,
+  scheduledFor: Date
+): Promise<void> {
+  const orgId = job.app.organization_id
+
+  // Create test run; the unique (scheduled_job_id, scheduled_for) index
+  // rejects a run that was already created for this time
+  const { data: testRun, error: runError } = await supabase
+    .from("test_runs")
+    .insert({
+      organization_id: orgId,
+      app_id: job.app_id,
+      environment_id: job.environment_id,
+      trigger_type: "scheduled",
+      status: "pending",
+      scheduled_job_id: job.id,
+      scheduled_for: scheduledFor.toISOString(),
+    })
+    .select()
+    .single()
+
+  if (runError?.code === "23505") {
+    console.log(`Scheduled job ${job.id} already triggered for ${scheduledFor.toISOString()}`)
+    return
+  }
+  if (runError || !testRun) {
+    console.error(`Failed to create test run for job ${job.id}:`, runError)
+    return
+  }
+
+  // Enqueue the test run; a run left pending would never start, and its
+  // scheduled time can't be created again
+  try {
+    await enqueueTestRun(
+      {
+        testRunId: testRun.id,
+        organizationId: orgId,
+        appId: job.app_id,
+        environmentId: job.environment_id,
+        journeyIds: job.journey_ids,
+      },
+      job.id,
+      scheduledFor
+    )
+  } catch (error) {
+    console.error(`Failed to queue scheduled run ${testRun.id} for job ${job.id}:`, error)
+    await supabase
+      .from("test_runs")
+      .update({ status: "failed", completed_at: new Date().toISOString() })
+      .eq("id", testRun.id)
+  }
 }
 
 export async function checkScheduledJobs(): Promise<void> {
   const supabase = createSupabaseClient(supabaseUrl, supabaseServiceKey)
 
-  const now = new Date().toISOString()
+  const now = new Date()
 
   // Get jobs that are due
   const { data: dueJobs, error } = await supabase
@@ -46,7 +241,7 @@ export async function checkScheduledJobs(): Promise<void> {
       app:apps(organization_id)
     `)
     .eq("is_enabled", true)
-    .lte("next_run_at", now)
+    .lte("next_run_at", now.toISOString())
 
   if (error) {
     console.error("Failed to fetch scheduled jobs:", error)
@@ -59,97 +254,52 @@ export async function checkScheduledJobs(): Promise<void> {
 
   console.log(`Found ${dueJobs.length} scheduled jobs to run`)
 
-  for (const job of dueJobs) {
+  for (const job of dueJobs as DueJob[]) {
     try {
-      const orgId = (job.app as { organization_id: string }).organization_id
-
-      // Create test run
-      const { data: testRun, error: runError } = await supabase
-        .from("test_runs")
-        .insert({
-          organization_id: orgId,
-          app_id: job.app_id,
-          environment_id: job.environment_id,
-          trigger_type: "scheduled",
-          status: "pending",
-        })
-        .select()
-        .single()
-
-      if (runError || !testRun) {
-        console.error(`Failed to create test run for job ${job.id}:`, runError)
-        continue
+      let runs: Date[] = []
+      try {
+        runs = selectRunsForPolicy(getDueRuns(job, now), job.misfire_policy ?? "run_once", now)
+      } catch (error) {
+        console.error(`Invalid schedule for job ${job.id}:`, error)
       }
 
-      // Enqueue the test run
-      await enqueueTestRun({
-        testRunId: testRun.id,
-        organizationId: orgId,
-        appId: job.app_id,
-        environmentId: job.environment_id,
-        journeyIds: job.journey_ids,
-      })
-
       // Calculate next run time
-      const nextRunAt = calculateNextRun(job.cron_expression, job.timezone)
+      const nextRunAt = calculateNextRun(job.cron_expression, job.timezone, now)
 
-      // Update job with next run time
-      await supabase
+      // Claim this tick by moving next_run_at; if another scheduler got
+      // there first the update matches no rows
+      const { data: claimed } = await supabase
         .from("scheduled_jobs")
         .update({
-          last_run_at: now,
+          ...(runs.length > 0 && { last_run_at: now.toISOString() }),
           next_run_at: nextRunAt,
         })
         .eq("id", job.id)
+        .eq("next_run_at", job.next_run_at)
+        .select("id")
+
+      if (!claimed || claimed.length === 0) {
+        continue
+      }
 
-      console.log(`Scheduled job ${job.id} triggered, next run at ${nextRunAt}`)
+      for (const scheduledFor of runs) {
+        await triggerScheduledRun(supabase, job, scheduledFor)
+      }
+
+      console.log(
+        `Scheduled job ${job.id} triggered ${runs.length} run(s), next run at ${nextRunAt}`
+      )
     } catch (error) {
       console.error(`Error processing scheduled job ${job.id}:`, error)
     }
   }
 }
 
-function calculateNextRun(cronExpression: string, timezone: string): string {
-  // Simple cron parser for common cases
-  // Format: minute hour day-of-month month day-of-week
-  const parts = cronExpression.trim().split(/\s+/)
-
-  if (parts.length !== 5) {
-    // Default to 1 hour from now
-    return new Date(Date.now() + 60 * 60 * 1000).toISOString()
+function calculateNextRun(cronExpression: string, timezone: string, from: Date): string | null {
+  try {
+    return getNextRun(cronExpression, timezone || "UTC", from)?.toISOString() ?? null
+  } catch (error) {
+    console.error(`Invalid schedule "${cronExpression}" (${timezone}):`, error)
+    return null
   }
-
-  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts
-
-  const now = new Date()
-  const next = new Date(now)
-
-  // Set base time
-  if (minute !== "*") {
-    next.setMinutes(parseInt(minute, 10))
-  }
-  if (hour !== "*") {
-    next.setHours(parseInt(hour, 10))
-  }
-  next.setSeconds(0)
-  next.setMilliseconds(0)
-
-  // If the calculated time is in the past, move to next occurrence
-  if (next <= now) {
-    if (hour === "*") {
-      // Every hour at minute X
-      next.setHours(next.getHours() + 1)
-    } else if (dayOfWeek !== "*") {
-      // Weekly
-      next.setDate(next.getDate() + 7)
-    } else if (dayOfMonth !== "*") {
-      // Monthly
-      next.setMonth(next.getMonth() + 1)
-    } else {
-      // Daily
-      next.setDate(next.getDate() + 1)
-    }
-  }
-
-  return next.toISOString()
 }
@@ -0,0 +1,73 @@
+import type { BrowserContext } from "playwright"
+
+// Signed-in browser state (cookies and localStorage) from a finished login
+export type StorageState = Awaited<ReturnType<BrowserContext["storageState"]>>
+
+interface CachedSession {
+  state: StorageState
+  expiresAt: number
+}
+
+// Sessions are kept in worker memory only and never written to disk
+const sessions = new Map<string, CachedSession>()
+const locks = new Map<string, Promise<void>>()
+
+export interface SessionHandle {
+  get(): StorageState | undefined
+  save(state: StorageState): void
+  invalidate(): void
+  // Waits for any other story signing in with this session, so only one
+  // login runs at a time. Call the returned function when done.
+  acquire(): Promise<() => void>
+}
+
+export function getSessionHandle(key: string, ttlMs: number): SessionHandle {
+  return {
+    get() {
+      const session = sessions.get(key)
+      if (!session) return undefined
+      if (session.expiresAt <= Date.now()) {
+        sessions.delete(key)
+        return undefined
+      }
+      return session.state
+    },
+
+    save(state) {
+      sessions.set(key, { state, expiresAt: Date.now() + ttlMs })
+    },
+
+    invalidate() {
+      if (sessions.delete(key)) {
+        console.log(`Invalidated cached session ${key}`)
+      }
+    },
+
+    async acquire() {
+      const previous = locks.get(key) ?? Promise.resolve()
+      let release!: () => void
+      const current = new Promise<void>((resolve) => {
+        release = resolve
+      })
+      const chained = previous.then(() => current)
+      locks.set(key, chained)
+      await previous
+
+      return () => {
+        release()
+        if (locks.get(key) === chained) {
+          locks.delete(key)
+        }
+      }
+    },
+  }
+}
+
+// Drop every session whose key starts with the prefix, e.g. a finished run's
+export function clearSessions(prefix: string): void {
+  for (const key of sessions.keys()) {
+    if (key.startsWith(prefix)) {
+      sessions.delete(key)
+    }
+  }
+}
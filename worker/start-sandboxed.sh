@@ -0,0 +1,46 @@
+#!/bin/sh
+# Starts the worker after keeping the generated-spec user (SPEC_SANDBOX_UID)
+# off private networks: the worker's Redis, internal services and cloud
+# metadata. Needs NET_ADMIN; set SPEC_SANDBOX_NETWORK=unrestricted to skip.
+set -e
+
+if [ "$SPEC_SANDBOX_NETWORK" != "unrestricted" ]; then
+  if [ -z "$SPEC_SANDBOX_UID" ]; then
+    echo "SPEC_SANDBOX_UID is not set" >&2
+    exit 1
+  fi
+
+  rule() {
+    tables=$1
+    shift
+    $tables -A OUTPUT -m owner --uid-owner "$SPEC_SANDBOX_UID" "$@"
+  }
+
+  restrict() {
+    # Apps under test on a private network are listed explicitly
+    for cidr in $(echo "$SPEC_SANDBOX_ALLOW_CIDRS" | tr ',' ' '); do
+      case "$cidr" in
+        *:*) rule ip6tables -d "$cidr" -j ACCEPT || return 1 ;;
+        *) rule iptables -d "$cidr" -j ACCEPT || return 1 ;;
+      esac
+    done
+    for tables in iptables ip6tables; do
+      # DNS still resolves the app under test
+      rule $tables -p udp --dport 53 -j ACCEPT || return 1
+      rule $tables -p tcp --dport 53 -j ACCEPT || return 1
+    done
+    for cidr in 127.0.0.0/8 10.0.0.0/8 172.16.0.0/12 192.168.0.0/16 169.254.0.0/16 100.64.0.0/10; do
+      rule iptables -d "$cidr" -j REJECT || return 1
+    done
+    for cidr in ::1/128 fc00::/7 fe80::/10; do
+      rule ip6tables -d "$cidr" -j REJECT || return 1
+    done
+  }
+
+  if ! restrict; then
+    echo "Could not restrict the spec sandbox network; grant NET_ADMIN or set SPEC_SANDBOX_NETWORK=unrestricted" >&2
+    exit 1
+  fi
+fi
+
+exec npm start
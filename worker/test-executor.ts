@@ -1,32 +1,263 @@
-import { createClient as createSupabaseClient } from "@supabase/supabase-js"
+import { createClient as createSupabaseClient, SupabaseClient } from "@supabase/supabase-js"
 import { executeStory } from "./execute-story"
-import type { TestRunJobData } from "./types"
-import { decrypt } from "./crypto"
+import { executeStoryCode } from "./execute-code"
+import { shouldAutoHeal } from "@/lib/ai/auto-healer"
+import { getHttpCredentials } from "./auth"
+import type {
+  AppSettings,
+  AuthConfig,
+  HealProposal,
+  StoryExecutionResult,
+  StoryOutcome,
+  StoryParameters,
+  StoryHook,
+  StoryPrecondition,
+  StoryStep,
+  TestRunJobData,
+  UserCredentials,
+} from "./types"
+import { decrypt } from "@/lib/crypto"
+import { applyHealToStory } from "@/lib/heal"
+import { resolveRunSettings } from "@/lib/run-settings"
+import { clearSessions, getSessionHandle } from "./session-cache"
+import { leaseTestUser } from "./user-pool"
+import { getParameterRowLabel } from "@/lib/story-parameters"
+import { createTemplateContext, maskSecrets } from "@/lib/variables"
+import {
+  DEFAULT_QUARANTINE_THRESHOLD,
+  FLAKINESS_WINDOW,
+  computeFlakiness,
+  formatFlakiness,
+} from "@/lib/flakiness"
+import { runSetup, runTeardown } from "./hooks"
+import type { HookRunner } from "./hooks"
+import type { CallResolver, CallTarget } from "@/lib/step-blocks"
+import type { PooledUser, UserLease } from "./user-pool"
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
 
+// Upper bound for a story run from its generated Playwright spec
+const CODE_TEST_TIMEOUT_MS = 120000
+
+// Upper bound on stories run at once within a single test run
+const MAX_PARALLELISM = 8
+
 interface TestUser {
   id: string
   role: string
   username: string
   password_encrypted: string
+  totp_secret_encrypted?: string | null
   is_enabled: boolean
 }
 
+// Each role has a pool of accounts; a story leases one while it runs
 interface CredentialsMap {
-  [role: string]: { username: string; password: string }
+  [role: string]: PooledUser[]
+}
+
+interface StoryRef {
+  id: string
+  name: string
+  // Set when running one row of the story's parameter table
+  parameterRow?: ParameterRow
+  quarantined_at?: string | null
+}
+
+interface ParameterRow {
+  index: number
+  label: string
+  values: Record<string, string>
+}
+
+interface RunnableStory extends StoryRef {
+  title: string
+  journey_id: string
+  steps: StoryStep[]
+  outcome: StoryOutcome
+  required_role?: string
+  execution_mode?: "steps" | "code"
+  generated_test_code?: string | null
+  code_approved_at?: string | null
+  parameters?: StoryParameters | null
+  preconditions?: StoryPrecondition[] | null
+  journey: { name: string; title: string; is_serial?: boolean }
 }
 
+type StoryRunOutcome = "passed" | "failed" | "skipped" | "quarantined"
+
 interface ProgressUpdate {
   total: number
   completed: number
   passed: number
   failed: number
   skipped: number
+  quarantined: number
   current?: string
 }
 
+// Each row of a parameter table runs as its own story. Generated specs
+// can't take parameters, so code stories run once.
+function expandParameterRows(story: RunnableStory): RunnableStory[] {
+  const parameters = story.parameters
+  if (!parameters?.rows.length || story.execution_mode === "code") {
+    return [story]
+  }
+  return parameters.rows.map((values, index) => ({
+    ...story,
+    parameterRow: { index, label: getParameterRowLabel(parameters, index), values },
+  }))
+}
+
+// Columns every result of the story carries besides its outcome
+function getStoryColumns(story: StoryRef) {
+  return {
+    parameter_index: story.parameterRow?.index ?? null,
+    parameter_label: story.parameterRow?.label ?? null,
+    quarantined: !!story.quarantined_at,
+  }
+}
+
+async function saveStoryResult(
+  supabase: SupabaseClient,
+  testRunId: string,
+  story: StoryRef,
+  journeyName: string,
+  result: Omit<StoryExecutionResult, "console_errors"> & { console_errors?: string[] },
+  // The failed result an auto-heal rerun supersedes
+  rerunOf?: string
+): Promise<string | null> {
+  const { data: savedResult, error } = await supabase
+    .from("test_results")
+    .insert({
+      test_run_id: testRunId,
+      story_id: story.id,
+      journey_name: journeyName,
+      story_name: story.name,
+      passed: result.passed,
+      status: result.passed ? "passed" : "failed",
+      duration_ms: result.duration_ms,
+      steps: result.steps,
+      error: result.error,
+      screenshot_url: result.screenshot_url,
+      console_errors: result.console_errors,
+      heal_proposal: result.heal_proposal,
+      verifications: result.verifications,
+      retries: result.retries,
+      rerun_of: rerunOf ?? null,
+      ...getStoryColumns(story),
+    })
+    .select("id")
+    .single()
+
+  if (error) {
+    console.error(`Failed to save result for story ${story.id}:`, error)
+    return null
+  }
+  return savedResult.id
+}
+
+// Finds what call steps run, within the app. Each block or story is fetched
+// once per test run, so every story in the run sees the same version.
+function createCallResolver(supabase: SupabaseClient, appId: string): CallResolver {
+  const cache = new Map<string, Promise<CallTarget | null>>()
+
+  const load = async (kind: "block" | "story", id: string): Promise<CallTarget | null> => {
+    if (kind === "block") {
+      const { data: block } = await supabase
+        .from("step_blocks")
+        .select("name, steps")
+        .eq("id", id)
+        .eq("app_id", appId)
+        .maybeSingle()
+      return block
+    }
+
+    const { data: story } = await supabase
+      .from("stories")
+      .select("title, steps, journeys!inner(app_id)")
+      .eq("id", id)
+      .eq("journeys.app_id", appId)
+      .maybeSingle()
+    return story && { name: story.title, steps: story.steps }
+  }
+
+  return (call) => {
+    const key = `${call.kind}:${call.id}`
+    if (!cache.has(key)) {
+      cache.set(key, load(call.kind, call.id))
+    }
+    return cache.get(key)!
+  }
+}
+
+// Record a heal proposal so it can be reviewed, or log an auto-applied one
+async function recordHeal(
+  supabase: SupabaseClient,
+  storyId: string,
+  testResultId: string,
+  proposal: HealProposal,
+  verificationResultId?: string
+): Promise<void> {
+  const { error } = await supabase.from("heal_history").insert({
+    story_id: storyId,
+    test_result_id: testResultId,
+    proposal_type: proposal.type,
+    original_code: proposal.original,
+    proposed_code: proposal.proposed,
+    confidence: Math.min(Math.max(proposal.confidence, 0), 1),
+    reasoning: proposal.reasoning,
+    target_kind: proposal.target?.kind,
+    target_index: proposal.target?.index,
+    status: verificationResultId ? "applied" : "proposed",
+    applied_at: verificationResultId ? new Date().toISOString() : null,
+    verification_result_id: verificationResultId ?? null,
+  })
+
+  if (error) {
+    console.error(`Failed to save heal proposal for story ${storyId}:`, error)
+  }
+}
+
+// Rescore the flakiness of the stories a run touched, quarantining flaky
+// ones when the app has opted in
+async function updateFlakiness(
+  supabase: SupabaseClient,
+  stories: { id: string; quarantined_at?: string | null; parameters?: StoryParameters | null }[],
+  settings: AppSettings
+): Promise<void> {
+  const threshold = settings.quarantineThreshold ?? DEFAULT_QUARANTINE_THRESHOLD
+
+  for (const story of stories) {
+    // Data-driven stories have a result per row in every run
+    const rows = Math.max(story.parameters?.rows.length ?? 1, 1)
+    const { data: samples, error } = await supabase
+      .from("test_results")
+      .select("test_run_id, passed, status, retries, parameter_index, created_at")
+      .eq("story_id", story.id)
+      .order("created_at", { ascending: false })
+      .limit(FLAKINESS_WINDOW * rows * 2)
+
+    if (error) {
+      console.error(`Failed to load results for flakiness of story ${story.id}:`, error)
+      continue
+    }
+
+    const flakiness = computeFlakiness(samples || [])
+    const update: Record<string, unknown> = { flakiness_score: flakiness?.score ?? null }
+    if (settings.autoQuarantine && flakiness && flakiness.score >= threshold && !story.quarantined_at) {
+      update.quarantined_at = new Date().toISOString()
+      update.quarantine_reason =
+        `Flakiness ${formatFlakiness(flakiness.score)} over the last ${flakiness.runs} runs ` +
+        `(${flakiness.retryPasses} passed after retries, ${flakiness.flips} outcome flips)`
+      console.log(`Auto-quarantined story ${story.id}: ${update.quarantine_reason}`)
+    }
+
+    await supabase.from("stories").update(update).eq("id", story.id)
+  }
+}
+
 export async function executeTestRun(
   data: TestRunJobData,
   onProgress: (progress: ProgressUpdate) => void
@@ -67,6 +298,29 @@ export async function executeTestRun(
     throw new Error(`Environment not found: ${data.environmentId}`)
   }
 
+  // Get app settings
+  const { data: app } = await supabase
+    .from("apps")
+    .select("settings")
+    .eq("id", data.appId)
+    .single()
+
+  const settings: AppSettings = app?.settings || {}
+  // Run overrides win over app settings, which win over the defaults
+  const runSettings = resolveRunSettings(settings, data.settings)
+  // Signed-in sessions are shared by stories with the same role; run-scoped
+  // ones are keyed by the run and dropped when it ends
+  const sessionReuse = settings.sessionReuse ?? "run"
+  const sessionScope = sessionReuse === "ttl" ? "" : `${data.testRunId}:`
+  const sessionTtlMs = sessionReuse === "ttl"
+    ? (settings.sessionTtlMinutes ?? 30) * 60 * 1000
+    : Infinity
+  const healPolicy = settings.healPolicy ?? "propose"
+  const canAutoHeal = (confidence: number) =>
+    settings.autoHealThreshold !== undefined
+      ? confidence >= settings.autoHealThreshold
+      : shouldAutoHeal(confidence)
+
   // Get test users for this environment and build credentials map
   const { data: testUsers } = await supabase
     .from("test_users")
@@ -79,13 +333,56 @@ export async function executeTestRun(
     for (const user of testUsers as TestUser[]) {
       try {
         const decryptedPassword = await decrypt(user.password_encrypted)
-        credentialsMap[user.role] = {
+        const pool = credentialsMap[user.role] ?? (credentialsMap[user.role] = [])
+        pool.push({
+          id: user.id,
           username: user.username,
           password: decryptedPassword,
-        }
+          totpSecret: user.totp_secret_encrypted
+            ? await decrypt(user.totp_secret_encrypted)
+            : undefined,
+        })
       } catch (err) {
-        console.error(`Failed to decrypt password for role ${user.role}:`, err)
+        console.error(`Failed to decrypt password for test user ${user.username} (${user.role}):`, err)
+      }
+    }
+  }
+
+  // HTTP basic auth for the environment itself, e.g. a staging site
+  let siteCredentials: { username: string; password: string } | undefined
+  const authConfig = environment.auth_config as AuthConfig | null
+  if (authConfig?.username && authConfig.password_encrypted) {
+    try {
+      siteCredentials = {
+        username: authConfig.username,
+        password: await decrypt(authConfig.password_encrypted),
+      }
+    } catch (err) {
+      console.error("Failed to decrypt environment basic auth password:", err)
+    }
+  }
+
+  // Variables for {{env.NAME}}; environment values override app-level ones
+  const { data: variableRows } = await supabase
+    .from("variables")
+    .select("environment_id, name, value, value_encrypted, is_secret")
+    .eq("app_id", data.appId)
+    .or(`environment_id.is.null,environment_id.eq.${data.environmentId}`)
+
+  const variables: Record<string, string> = {}
+  const secrets: string[] = []
+  const orderedVariables = [...(variableRows || [])].sort(
+    (a, b) => Number(a.environment_id !== null) - Number(b.environment_id !== null)
+  )
+  for (const variable of orderedVariables) {
+    try {
+      const value = variable.is_secret ? await decrypt(variable.value_encrypted) : variable.value
+      variables[variable.name] = value
+      if (variable.is_secret) {
+        secrets.push(value)
       }
+    } catch (err) {
+      console.error(`Failed to decrypt secret variable ${variable.name}:`, err)
     }
   }
 
@@ -94,7 +391,7 @@ export async function executeTestRun(
     .from("stories")
     .select(`
       *,
-      journey:journeys(name, title)
+      journey:journeys(name, title, is_serial)
     `)
     .eq("is_enabled", true)
 
@@ -142,6 +439,8 @@ export async function executeTestRun(
     return
   }
 
+  const runnables = (stories as RunnableStory[]).flatMap(expandParameterRows)
+
   // Update test run status to running
   const startedAt = new Date().toISOString()
   await supabase
@@ -149,165 +448,233 @@ export async function executeTestRun(
     .update({
       status: "running",
       started_at: startedAt,
-      stories_total: stories.length,
+      stories_total: runnables.length,
     })
     .eq("id", data.testRunId)
 
-  // Execute stories
-  let passed = 0
-  let failed = 0
-  let skipped = 0
+  const resolveCall = createCallResolver(supabase, data.appId)
+
+  // Data-driven stories show as failed if any of their rows failed
+  const failedStoryIds = new Set<string>()
+
+  // Stories used as setup or teardown hooks run with the calling story's
+  // sign-in and templates. Their own preconditions are not run.
+  const runHookStory = async (
+    storyId: string,
+    options: Parameters<typeof executeStory>[2]
+  ): Promise<{ passed: boolean; error?: string }> => {
+    const { data: hookStory } = await supabase
+      .from("stories")
+      .select("id, steps, outcome, journey:journeys(app_id)")
+      .eq("id", storyId)
+      .single()
 
-  for (let i = 0; i < stories.length; i++) {
-    const story = stories[i]
-    const journey = story.journey as { name: string; title: string }
+    const appId = (hookStory?.journey as unknown as { app_id: string } | null)?.app_id
+    if (!hookStory || appId !== data.appId) {
+      return { passed: false, error: "story not found in this app" }
+    }
 
-    // Check if run was cancelled
-    const { data: currentRun } = await supabase
-      .from("test_runs")
-      .select("status")
-      .eq("id", data.testRunId)
-      .single()
+    return executeStory(
+      hookStory as unknown as RunnableStory,
+      environment.base_url,
+      { ...options, healOnFailure: false }
+    )
+  }
+
+  // Runs one story and records its result
+  const runStory = async (story: RunnableStory): Promise<StoryRunOutcome> => {
+    const journey = story.journey
+    let lease: UserLease | null = null
+    let hookRunner: HookRunner | undefined
+    let teardowns: StoryHook[] = []
+
+    // Stories that can't run are recorded as skipped, not failed
+    const skipStory = async (reason: string): Promise<StoryRunOutcome> => {
+      await supabase.from("test_results").insert({
+        test_run_id: data.testRunId,
+        story_id: story.id,
+        journey_name: journey.name,
+        story_name: story.name,
+        passed: false,
+        status: "skipped",
+        duration_ms: 0,
+        error: reason,
+        retries: 0,
+        ...getStoryColumns(story),
+      })
 
-    if (currentRun?.status === "cancelled") {
-      console.log(`Test run ${data.testRunId} was cancelled`)
-      // Clear current story and exit
+      // Update story last run info
       await supabase
-        .from("test_runs")
+        .from("stories")
         .update({
-          current_story_id: null,
-          current_story_name: null,
+          last_run_at: new Date().toISOString(),
+          last_result: "skipped",
         })
-        .eq("id", data.testRunId)
-      return
-    }
-
-    onProgress({
-      total: stories.length,
-      completed: i,
-      passed,
-      failed,
-      skipped,
-      current: story.title,
-    })
+        .eq("id", story.id)
 
-    // Update current story in database for real-time UI updates
-    await supabase
-      .from("test_runs")
-      .update({
-        current_story_id: story.id,
-        current_story_name: story.title,
-      })
-      .eq("id", data.testRunId)
+      console.log(`Skipped story ${story.id}: ${reason}`)
+      return "skipped"
+    }
 
     try {
+      // Generated code is arbitrary code, even sandboxed, so it only runs
+      // once an owner or admin approved it
+      if (story.execution_mode === "code" && !story.code_approved_at) {
+        return skipStory("Generated test code must be approved by an owner or admin before it runs")
+      }
+
       // Check if story requires a role and if we have credentials
       const requiredRole = story.required_role
-      let credentials: { username: string; password: string } | undefined
+      let credentials: UserCredentials | undefined
       let skipReason: string | undefined
 
       if (requiredRole) {
-        // Check if auth config is properly configured for form-based login
-        const authConfig = environment.auth_config
-        if (!authConfig || authConfig.type !== 'form') {
-          skipReason = `Story requires role "${requiredRole}" but environment auth is not configured for form login`
-        } else if (credentialsMap[requiredRole]) {
-          credentials = credentialsMap[requiredRole]
-        } else {
+        const pool = credentialsMap[requiredRole]
+        // Roles need a login type to sign in with
+        if (!authConfig || authConfig.type === 'none') {
+          skipReason = `Story requires role "${requiredRole}" but environment auth is not configured`
+        } else if (!pool || pool.length === 0) {
           skipReason = `Missing test user for required role: ${requiredRole}`
+        } else {
+          lease = await leaseTestUser(pool, `${data.environmentId}:${requiredRole}`, {
+            testRunId: data.testRunId,
+            storyId: story.id,
+          })
+          if (lease) {
+            credentials = lease.user
+          } else {
+            skipReason = `All ${pool.length} test users for role "${requiredRole}" stayed busy`
+          }
         }
       }
 
       // Skip story if required role credentials are missing or auth not configured
       if (skipReason) {
-        // Save skipped result
-        await supabase.from("test_results").insert({
-          test_run_id: data.testRunId,
-          story_id: story.id,
-          journey_name: journey.name,
-          story_name: story.name,
-          passed: false,
-          duration_ms: 0,
-          error: skipReason,
-          retries: 0,
-        })
+        return skipStory(skipReason)
+      }
 
-        // Update story last run info
-        await supabase
-          .from("stories")
-          .update({
-            last_run_at: new Date().toISOString(),
-            last_result: "skipped",
-          })
-          .eq("id", story.id)
+      // Setup hooks and the story share generated and captured values
+      const templates = createTemplateContext(variables, story.parameterRow?.values)
+
+      const executionOptions = {
+        retryCount: runSettings.retryCount,
+        screenshotOnFailure: runSettings.screenshotOnFailure,
+        stepTimeout: runSettings.stepTimeout,
+        viewport: runSettings.viewport,
+        waitUntil: runSettings.waitUntil,
+        // One heal per data-driven story; its rows share the same steps
+        healOnFailure:
+          healPolicy !== "off" &&
+          !!process.env.ANTHROPIC_API_KEY &&
+          (story.parameterRow?.index ?? 0) === 0,
+        visualLowConfidencePolicy: settings.visualLowConfidencePolicy,
+        credentials,
+        authConfig: environment.auth_config,
+        siteCredentials,
+        templates,
+        secrets,
+        resolveCall,
+        session: credentials && sessionReuse !== "off"
+          ? getSessionHandle(
+              `${sessionScope}${data.environmentId}:${requiredRole}:${credentials.username}`,
+              sessionTtlMs
+            )
+          : undefined,
+      }
 
-        // Track skipped separately (not as failed)
-        skipped++
-        console.log(`Skipped story ${story.id}: ${skipReason}`)
+      // A story whose data setup failed can't be judged, so it's skipped
+      const preconditions = story.preconditions ?? []
+      if (preconditions.some((p) => p.setup || p.teardown)) {
+        hookRunner = {
+          baseUrl: environment.base_url,
+          templates,
+          fixtures: settings.fixtures ?? [],
+          runStory: (storyId) => runHookStory(storyId, executionOptions),
+        }
+        const setup = await runSetup(preconditions, hookRunner)
+        if (setup.error) {
+          return skipStory(maskSecrets(setup.error, secrets))
+        }
+        teardowns = setup.teardowns
+      }
 
-        // Update test run progress with skipped count
-        await supabase
-          .from("test_runs")
-          .update({
-            stories_passed: passed,
-            stories_failed: failed,
-            stories_skipped: skipped,
+      const result = story.execution_mode === "code"
+        ? await executeStoryCode(story, environment.base_url, {
+            timeoutMs: CODE_TEST_TIMEOUT_MS,
+            stepTimeout: runSettings.stepTimeout,
+            viewport: runSettings.viewport,
+            credentials,
+            httpCredentials: getHttpCredentials(environment.base_url, authConfig ?? undefined, credentials, siteCredentials),
+          })
+        : await executeStory(story, environment.base_url, executionOptions)
+      const resultId = await saveStoryResult(supabase, data.testRunId, story, journey.name, result)
+      let storyPassed = result.passed
+
+      const proposal = result.heal_proposal
+      if (resultId && proposal) {
+        const patched =
+          healPolicy === "auto-apply" && canAutoHeal(proposal.confidence)
+            ? applyHealToStory(story, {
+                proposal_type: proposal.type,
+                original_code: proposal.original,
+                proposed_code: proposal.proposed,
+                target_kind: proposal.target?.kind,
+                target_index: proposal.target?.index,
+              })
+            : null
+        if (patched?.error !== undefined) {
+          console.log(`Not auto-applying heal for story ${story.id}: ${patched.error}`)
+        }
+        const healedStory =
+          patched && patched.error === undefined
+            ? { ...story, steps: patched.steps, outcome: patched.outcome }
+            : null
+
+        if (healedStory) {
+          // Re-run the patched story and only keep the patch if it passes
+          console.log(`Verifying auto-heal for story ${story.id}`)
+          const rerun = await executeStory(healedStory, environment.base_url, {
+            ...executionOptions,
+            healOnFailure: false,
           })
-          .eq("id", data.testRunId)
 
-        continue
+          const rerunResultId = rerun.passed
+            ? await saveStoryResult(supabase, data.testRunId, story, journey.name, rerun, resultId)
+            : null
+
+          if (rerunResultId) {
+            await supabase
+              .from("stories")
+              .update({ steps: healedStory.steps, outcome: healedStory.outcome })
+              .eq("id", story.id)
+            await recordHeal(supabase, story.id, resultId, proposal, rerunResultId)
+            storyPassed = true
+            console.log(`Auto-heal applied to story ${story.id}`)
+          } else {
+            await recordHeal(supabase, story.id, resultId, proposal)
+          }
+        } else {
+          await recordHeal(supabase, story.id, resultId, proposal)
+        }
       }
 
-      const result = await executeStory(story, environment.base_url, {
-        retryCount: 3,
-        screenshotOnFailure: true,
-        credentials,
-        authConfig: environment.auth_config,
-      })
-
-      // Save result
-      await supabase.from("test_results").insert({
-        test_run_id: data.testRunId,
-        story_id: story.id,
-        journey_name: journey.name,
-        story_name: story.name,
-        passed: result.passed,
-        duration_ms: result.duration_ms,
-        steps: result.steps,
-        error: result.error,
-        screenshot_url: result.screenshot_url,
-        console_errors: result.console_errors,
-        heal_proposal: result.heal_proposal,
-        retries: result.retries,
-      })
+      if (!storyPassed) {
+        failedStoryIds.add(story.id)
+      }
 
       // Update story last run info
       await supabase
         .from("stories")
         .update({
           last_run_at: new Date().toISOString(),
-          last_result: result.passed ? "passed" : "failed",
+          last_result: failedStoryIds.has(story.id) ? "failed" : "passed",
         })
         .eq("id", story.id)
 
-      if (result.passed) {
-        passed++
-      } else {
-        failed++
-      }
-
-      // Update test run progress
-      await supabase
-        .from("test_runs")
-        .update({
-          stories_passed: passed,
-          stories_failed: failed,
-          stories_skipped: skipped,
-        })
-        .eq("id", data.testRunId)
+      return storyPassed ? "passed" : "failed"
     } catch (error) {
-      failed++
       console.error(`Story ${story.id} execution error:`, error)
+      failedStoryIds.add(story.id)
 
       // Save error result
       await supabase.from("test_results").insert({
@@ -316,9 +683,11 @@ export async function executeTestRun(
         journey_name: journey.name,
         story_name: story.name,
         passed: false,
+        status: "failed",
         duration_ms: 0,
         error: error instanceof Error ? error.message : String(error),
         retries: 0,
+        ...getStoryColumns(story),
       })
 
       // Update story last run info
@@ -329,7 +698,138 @@ export async function executeTestRun(
           last_result: "failed",
         })
         .eq("id", story.id)
+
+      return "failed"
+    } finally {
+      if (hookRunner && teardowns.length > 0) {
+        const errors = await runTeardown(teardowns, hookRunner)
+        for (const error of errors) {
+          console.error(`Story ${story.id}: ${maskSecrets(error, secrets)}`)
+        }
+      }
+      await lease?.release()
+    }
+  }
+
+  // Serial journeys run as one unit in story position order; every other
+  // story is its own unit and may run alongside others
+  const units: RunnableStory[][] = []
+  const serialUnits = new Map<string, RunnableStory[]>()
+  for (const story of runnables) {
+    if (!story.journey.is_serial) {
+      units.push([story])
+      continue
+    }
+    let unit = serialUnits.get(story.journey_id)
+    if (!unit) {
+      unit = []
+      serialUnits.set(story.journey_id, unit)
+      units.push(unit)
     }
+    unit.push(story)
+  }
+
+  const parallelism = Math.min(Math.max(Math.floor(settings.parallelism ?? 1), 1), MAX_PARALLELISM)
+  console.log(`Running ${runnables.length} stories in ${units.length} units with parallelism ${parallelism}`)
+
+  // Execute stories
+  let passed = 0
+  let failed = 0
+  let skipped = 0
+  let quarantined = 0
+  let cancelled = false
+  let nextUnit = 0
+
+  const isCancelled = async (): Promise<boolean> => {
+    if (cancelled) return true
+
+    const { data: currentRun } = await supabase
+      .from("test_runs")
+      .select("status")
+      .eq("id", data.testRunId)
+      .single()
+
+    cancelled = currentRun?.status === "cancelled"
+    return cancelled
+  }
+
+  const runUnits = async () => {
+    while (nextUnit < units.length) {
+      const unit = units[nextUnit++]
+
+      for (const story of unit) {
+        // Check if run was cancelled
+        if (await isCancelled()) {
+          return
+        }
+
+        const currentName = story.parameterRow
+          ? `${story.title} [${story.parameterRow.label}]`
+          : story.title
+
+        onProgress({
+          total: runnables.length,
+          completed: passed + failed + skipped + quarantined,
+          passed,
+          failed,
+          skipped,
+          quarantined,
+          current: currentName,
+        })
+
+        // Update current story in database for real-time UI updates
+        await supabase
+          .from("test_runs")
+          .update({
+            current_story_id: story.id,
+            current_story_name: currentName,
+          })
+          .eq("id", data.testRunId)
+
+        let outcome = await runStory(story)
+        // Quarantined stories still run, but their failures don't fail the run
+        if (outcome === "failed" && story.quarantined_at) {
+          outcome = "quarantined"
+        }
+        if (outcome === "passed") passed++
+        else if (outcome === "failed") failed++
+        else if (outcome === "quarantined") quarantined++
+        else skipped++
+
+        // Increment in the database so concurrent stories can't overwrite each other's counts
+        const { error: countError } = await supabase.rpc("increment_test_run_counts", {
+          run_id: data.testRunId,
+          passed_delta: outcome === "passed" ? 1 : 0,
+          failed_delta: outcome === "failed" ? 1 : 0,
+          skipped_delta: outcome === "skipped" ? 1 : 0,
+          quarantined_delta: outcome === "quarantined" ? 1 : 0,
+        })
+        if (countError) {
+          console.error(`Failed to update counts for test run ${data.testRunId}:`, countError)
+        }
+      }
+    }
+  }
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(parallelism, units.length) }, runUnits))
+  } finally {
+    if (sessionScope) {
+      clearSessions(sessionScope)
+    }
+  }
+
+  if (cancelled) {
+    console.log(`Test run ${data.testRunId} was cancelled`)
+    // Clear current story and exit
+    await supabase
+      .from("test_runs")
+      .update({
+        current_story_id: null,
+        current_story_name: null,
+      })
+      .eq("id", data.testRunId)
+    return
   }
 
   // Mark test run as completed
@@ -346,16 +846,20 @@ export async function executeTestRun(
       stories_passed: passed,
       stories_failed: failed,
       stories_skipped: skipped,
+      stories_quarantined: quarantined,
       current_story_id: null,
       current_story_name: null,
     })
     .eq("id", data.testRunId)
 
+  await updateFlakiness(supabase, stories as RunnableStory[], settings)
+
   onProgress({
-    total: stories.length,
-    completed: stories.length,
+    total: runnables.length,
+    completed: runnables.length,
     passed,
     failed,
     skipped,
+    quarantined,
   })
 }
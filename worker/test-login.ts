@@ -0,0 +1,99 @@
+import { createClient as createSupabaseClient } from "@supabase/supabase-js"
+import { authenticate, getHttpCredentials } from "./auth"
+import { decrypt } from "@/lib/crypto"
+import { getBrowser } from "./execute-story"
+import { leaseTestUser } from "./user-pool"
+import type { PooledUser } from "./user-pool"
+import type { AuthConfig, TestLoginJobData, TestLoginResult, UserCredentials } from "./types"
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+// Stay well inside the dashboard's wait for the job to finish
+const LEASE_WAIT_MS = 30000
+
+// Sign in to the environment as the role's test user with the saved auth
+// config, the same way a story run would
+export async function testLogin(data: TestLoginJobData): Promise<TestLoginResult> {
+  const supabase = createSupabaseClient(supabaseUrl, supabaseServiceKey)
+
+  const { data: environment } = await supabase
+    .from("environments")
+    .select("base_url, auth_config")
+    .eq("id", data.environmentId)
+    .single()
+
+  if (!environment) {
+    return { success: false, error: "Environment not found" }
+  }
+
+  const { data: testUsers } = await supabase
+    .from("test_users")
+    .select("id, username, password_encrypted, totp_secret_encrypted")
+    .eq("environment_id", data.environmentId)
+    .eq("role", data.role)
+    .eq("is_enabled", true)
+
+  if (!testUsers || testUsers.length === 0) {
+    return { success: false, error: `No enabled test user for role "${data.role}"` }
+  }
+
+  const authConfig = (environment.auth_config || { type: "none" }) as AuthConfig
+  const pool: PooledUser[] = []
+  let siteCredentials: UserCredentials | undefined
+  try {
+    for (const testUser of testUsers) {
+      pool.push({
+        id: testUser.id,
+        username: testUser.username,
+        password: await decrypt(testUser.password_encrypted),
+        totpSecret: testUser.totp_secret_encrypted
+          ? await decrypt(testUser.totp_secret_encrypted)
+          : undefined,
+      })
+    }
+    if (authConfig.username && authConfig.password_encrypted) {
+      siteCredentials = {
+        username: authConfig.username,
+        password: await decrypt(authConfig.password_encrypted),
+      }
+    }
+  } catch (err) {
+    return {
+      success: false,
+      error: `Failed to decrypt credentials: ${err instanceof Error ? err.message : String(err)}`,
+    }
+  }
+
+  // Signing in elsewhere could end a running story's session
+  const lease = await leaseTestUser(pool, `${data.environmentId}:${data.role}`, {}, LEASE_WAIT_MS)
+  if (!lease) {
+    return { success: false, error: `All test users for role "${data.role}" are in use by test runs` }
+  }
+  const credentials = lease.user
+
+  try {
+    const browser = await getBrowser()
+    const context = await browser.newContext({
+      viewport: { width: 1280, height: 720 },
+      httpCredentials: getHttpCredentials(environment.base_url, authConfig, credentials, siteCredentials),
+    })
+
+    try {
+      const page = await context.newPage()
+      const result = await authenticate(
+        context,
+        page,
+        environment.base_url,
+        authConfig,
+        credentials,
+        "domcontentloaded"
+      )
+      return { ...result, url: page.url() }
+    } finally {
+      await context.close()
+    }
+  } finally {
+    await lease.release()
+  }
+}
@@ -7,6 +7,93 @@ export interface TestRunJobData {
   environmentId: string
   storyIds?: string[]
   journeyIds?: string[]
+  // Per-run overrides of the app settings
+  settings?: RunSettings
+}
+
+// Signs in to an environment as a role to check its auth config
+export interface TestLoginJobData {
+  environmentId: string
+  role: string
+}
+
+export interface TestLoginResult {
+  success: boolean
+  error?: string
+  // Where the browser ended up after signing in
+  url?: string
+}
+
+// Moves stored credentials onto the primary encryption key
+export interface ReencryptJobData {
+  // Omitted to cover every app in the deployment
+  appId?: string
+}
+
+export interface ReencryptResult {
+  // Encrypted values found, and how many were rewritten or could not be
+  total: number
+  reencrypted: number
+  // Edited or deleted while the job ran, so nothing to rewrite
+  skipped: number
+  failed: number
+  errors: string[]
+}
+
+export interface AppSettings {
+  retryCount?: number
+  screenshotOnFailure?: boolean
+  healPolicy?: 'off' | 'propose' | 'auto-apply'
+  autoHealThreshold?: number
+  visualLowConfidencePolicy?: 'fail' | 'warn' | 'trust'
+  parallelism?: number
+  stepTimeout?: number
+  viewport?: { width: number; height: number }
+  waitUntil?: WaitUntil
+  sessionReuse?: 'off' | 'run' | 'ttl'
+  sessionTtlMinutes?: number
+  fixtures?: Fixture[]
+  autoQuarantine?: boolean
+  quarantineThreshold?: number
+}
+
+export type WaitUntil = 'load' | 'domcontentloaded' | 'networkidle' | 'commit'
+
+export type RunSettings = Pick<
+  AppSettings,
+  'retryCount' | 'screenshotOnFailure' | 'stepTimeout' | 'viewport' | 'waitUntil'
+>
+
+export interface AuthConfig {
+  type: 'none' | 'basic' | 'form' | 'oauth'
+  username?: string
+  password_encrypted?: string
+  loginUrl?: string
+  usernameSelector?: string
+  passwordSelector?: string
+  submitSelector?: string
+  successIndicator?: string
+  otpSelector?: string
+  otpSubmitSelector?: string
+  oauth?: OAuthConfig
+}
+
+export interface OAuthConfig {
+  mode: 'idp' | 'token'
+  startSelector?: string
+  idpUsernameSelector?: string
+  idpNextSelector?: string
+  idpPasswordSelector?: string
+  idpSubmitSelector?: string
+  tokenTarget?: 'header' | 'cookie' | 'localStorage'
+  tokenName?: string
+  tokenPrefix?: string
+}
+
+export interface UserCredentials {
+  username: string
+  password: string
+  totpSecret?: string
 }
 
 export interface StoryStep {
@@ -15,6 +102,54 @@ export interface StoryStep {
   value?: string
   description?: string
   selector?: string
+  // Set on "call" steps, which run a step block or another story in their place
+  call?: StepCall
+}
+
+export interface StepCall {
+  kind: 'block' | 'story'
+  id: string
+  // Values for {{args.name}} in the called steps
+  args?: Record<string, string>
+}
+
+export interface StoryPrecondition {
+  description: string
+  type?: 'auth' | 'data' | 'state'
+  setup?: StoryHook
+  teardown?: StoryHook
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+// HTTP call made around a story, e.g. to a seeding endpoint. The URL,
+// headers and body are templates; relative URLs use the environment's base URL.
+export interface HttpHookRequest {
+  method: HttpMethod
+  url: string
+  headers?: Record<string, string>
+  body?: string
+  // Response JSON values to keep as {{vars.name}}, by dot path
+  capture?: Record<string, string>
+}
+
+// What a precondition runs: an HTTP call, another story, or a named fixture
+export type StoryHook =
+  | { kind: 'http'; request: HttpHookRequest }
+  | { kind: 'story'; storyId: string }
+  | { kind: 'fixture'; fixture: string }
+
+// Named HTTP setup shared by an app's stories, with its own cleanup call
+export interface Fixture {
+  name: string
+  setup: HttpHookRequest
+  teardown?: HttpHookRequest
+}
+
+// Rows of a data-driven story; each row runs the story once
+export interface StoryParameters {
+  columns: string[]
+  rows: Record<string, string>[]
 }
 
 export interface StoryOutcome {
@@ -35,6 +170,20 @@ export interface StepResult {
   duration_ms: number
   error?: string
   screenshot?: string
+  // Element a failed step targeted, as written in the step
+  selector?: string
+  // For steps run by a call: the calls that led to it, outermost first.
+  // step is then the index of the story's own call step.
+  origin?: StepOrigin[]
+}
+
+// Where a step that ran inside a call came from
+export interface StepOrigin {
+  kind: 'block' | 'story'
+  id: string
+  name: string
+  // Index of the step within the block or story
+  step: number
 }
 
 export interface StoryExecutionResult {
@@ -45,9 +194,23 @@ export interface StoryExecutionResult {
   screenshot_url?: string
   console_errors?: string[]
   heal_proposal?: HealProposal
+  verifications?: VerificationResult[]
   retries: number
 }
 
+export interface VerificationResult {
+  index: number
+  type: StoryVerification['type']
+  expected: string
+  passed: boolean
+  error?: string
+  // Visual verifications only
+  observation?: string
+  confidence?: 'high' | 'medium' | 'low'
+  issues?: string[]
+  warning?: boolean
+}
+
 export interface HealProposal {
   type: 'selector' | 'flow' | 'content'
   original: string
@@ -56,4 +219,13 @@ export interface HealProposal {
   line?: number
   confidence: number
   reasoning: string
+  target?: HealTarget
+}
+
+export type HealProposalType = HealProposal["type"]
+
+// The story step or outcome verification a heal proposal applies to
+export interface HealTarget {
+  kind: 'step' | 'verification'
+  index: number
 }
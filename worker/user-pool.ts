@@ -0,0 +1,120 @@
+import { Queue } from "bullmq"
+import type { ConnectionOptions } from "bullmq"
+import type { UserCredentials } from "./types"
+
+const redisUrl = process.env.REDIS_URL || "redis://localhost:6379"
+
+// Must match the key read by the dashboard in src/lib/queue/client.ts
+const LEASE_PREFIX = "qay:test-user-lease:"
+const ROUND_ROBIN_PREFIX = "qay:test-user-rr:"
+
+// Leases are renewed while the story runs and expire if the worker dies
+const LEASE_TTL_MS = 5 * 60 * 1000
+const LEASE_RENEW_MS = 60 * 1000
+
+// How long a story waits for a free account before it is skipped
+const LEASE_WAIT_MS = 5 * 60 * 1000
+const LEASE_RETRY_MS = 1000
+
+const RENEW_LEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0`
+
+const RELEASE_LEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`
+
+export interface PooledUser extends UserCredentials {
+  id: string
+}
+
+// Stored as the lease value so the dashboard can show who holds an account.
+// Test logins from the auth config editor hold a lease without a run.
+export interface LeaseHolder {
+  testRunId?: string
+  storyId?: string
+}
+
+export interface UserLease {
+  user: PooledUser
+  release(): Promise<void>
+}
+
+function getConnectionOptions(): ConnectionOptions {
+  const url = new URL(redisUrl)
+  return {
+    host: url.hostname,
+    port: parseInt(url.port || "6379", 10),
+    password: url.password || undefined,
+    maxRetriesPerRequest: null,
+  }
+}
+
+let queue: Queue | null = null
+
+function getQueue(): Queue {
+  if (!queue) {
+    queue = new Queue("test-runs", {
+      connection: getConnectionOptions(),
+    })
+  }
+  return queue
+}
+
+// Lease one account from a role's pool so no other story, on this worker
+// or another, signs in with it at the same time. Accounts are tried
+// round-robin; returns null if all stay busy for waitMs.
+export async function leaseTestUser(
+  pool: PooledUser[],
+  poolKey: string,
+  holder: LeaseHolder,
+  waitMs: number = LEASE_WAIT_MS
+): Promise<UserLease | null> {
+  if (pool.length === 0) {
+    return null
+  }
+
+  const redis = await getQueue().client
+  const value = JSON.stringify({ ...holder, acquiredAt: new Date().toISOString() })
+  const deadline = Date.now() + waitMs
+
+  while (Date.now() < deadline) {
+    const start = await redis.incr(`${ROUND_ROBIN_PREFIX}${poolKey}`)
+
+    for (let i = 0; i < pool.length; i++) {
+      const user = pool[(start + i) % pool.length]
+      const key = `${LEASE_PREFIX}${user.id}`
+
+      const acquired = await redis.set(key, value, "PX", LEASE_TTL_MS, "NX")
+      if (acquired !== "OK") {
+        continue
+      }
+
+      const renewTimer = setInterval(() => {
+        redis.eval(RENEW_LEASE_SCRIPT, 1, key, value, LEASE_TTL_MS).catch((error) => {
+          console.error(`Failed to renew lease on test user ${user.id}:`, error)
+        })
+      }, LEASE_RENEW_MS)
+
+      return {
+        user,
+        async release() {
+          clearInterval(renewTimer)
+          try {
+            await redis.eval(RELEASE_LEASE_SCRIPT, 1, key, value)
+          } catch (error) {
+            console.error(`Failed to release lease on test user ${user.id}:`, error)
+          }
+        },
+      }
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, LEASE_RETRY_MS + Math.random() * 500))
+  }
+
+  return null
+}